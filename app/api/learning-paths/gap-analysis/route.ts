@@ -1,81 +1,143 @@
+/**
+ * Gap Analysis API
+ *
+ * Runs `GapAnalyzer` over the stored ontology graph and the student's mastery.
+ * - `{ nodeId }` analyzes a single target node and returns `GapAnalysisResult`.
+ * - `{ targetNodeIds }` analyzes many targets and returns `collectGapMetrics`.
+ * `currentLevel` (1-10) overrides the starting level derived from progress.
+ * `parameterSet` (optionally `parameterVersion`) selects a calibrated
+ * parameter set for scoring and gap levels.
+ * For a single node, `timeLimit` (minutes) fits the recommended path into that
+ * budget and lists what didn't fit in `timeBudget.deferred`;
+ * `excludeCompleted` drops already mastered nodes.
+ * Results are served from the shared analysis cache when nothing changed;
+ * `metrics` reports this request's cache hits and misses.
+ * With a `studentId`, a target whose gap level moved into or out of `low`
+ * since that student's previous analysis publishes `gap_created` /
+ * `gap_closed` on `gapEventBus`.
+ */
+
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { prisma } from '@/lib/prisma'
+import { GapAnalyzer } from '../../../../gap-algorithm/GapAnalyzer'
+import { toNodeResponse } from '@/lib/ontology/graph'
+import { loadLiveGraph } from '@/lib/ontology/live-graph'
+import { loadMasteryMap } from '@/lib/mastery/store'
+import { gapAnalysisCache } from '@/lib/cache'
+import { gapEventBus, gapLevelStore } from '@/lib/events'
+import { loadGapParameterSet } from '@/lib/gap-parameters/store'
+
+export const dynamic = 'force-dynamic'
+
+const ParameterSetFields = {
+  parameterSet: z.string().min(1).optional(),
+  parameterVersion: z.number().int().positive().optional(),
+}
 
-const BodySchema = z.object({
+const SingleSchema = z.object({
   nodeId: z.string().min(1),
-  targetLevel: z.number().int().min(1).max(10).optional(),
+  studentId: z.string().min(1).optional(),
+  currentLevel: z.number().int().min(1).max(10).optional(),
+  ...ParameterSetFields,
+  timeLimit: z.number().int().positive().optional(), // minutes
+  excludeCompleted: z.boolean().optional(),
 })
 
-function safeJsonParse(value: string | null): any {
-  if (!value) return {}
-  try {
-    return JSON.parse(value)
-  } catch {
-    return {}
-  }
-}
+const BatchSchema = z.object({
+  targetNodeIds: z.array(z.string().min(1)).min(1).max(100),
+  studentId: z.string().min(1).optional(),
+  currentLevel: z.number().int().min(1).max(10).optional(),
+  ...ParameterSetFields,
+})
 
-function toNode(gap: any) {
-  const meta = safeJsonParse(gap.metadata)
-  return {
-    id: gap.id,
-    type: 'Vocabulary',
-    term: meta.term || gap.description || null,
-    name: null,
-    difficultyLevel: gap.level,
-  }
-}
+const BodySchema = z.union([BatchSchema, SingleSchema])
 
 export async function POST(request: NextRequest) {
   try {
     const body = BodySchema.parse(await request.json())
+    const targetIds = 'targetNodeIds' in body ? body.targetNodeIds : [body.nodeId]
 
-    const current = await prisma.gap.findUnique({ where: { id: body.nodeId } })
-    if (!current) {
+    const [nodes, progress, parameters] = await Promise.all([
+      loadLiveGraph(),
+      body.studentId ? loadMasteryMap(body.studentId) : Promise.resolve(new Map<string, number>()),
+      body.parameterSet ? loadGapParameterSet(body.parameterSet, body.parameterVersion) : Promise.resolve(undefined),
+    ])
+
+    if (parameters === null) {
       return NextResponse.json(
-        { success: false, error: 'Target node not found' },
+        {
+          success: false,
+          error: 'Parameter set not found',
+          details: { parameterSet: body.parameterSet, parameterVersion: body.parameterVersion },
+        },
         { status: 404 }
       )
     }
 
-    // MVP heuristic:
-    // Recommend other items in the same category that are "close" to the target level.
-    const targetLevel = body.targetLevel ?? current.level ?? 5
-    const candidates = await prisma.gap.findMany({
-      where: {
-        category: current.category,
-        id: { not: current.id },
-      },
-      orderBy: [{ level: 'asc' }, { createdAt: 'desc' }],
-      take: 10,
-    })
-
-    const recommended = candidates
-      .filter((g) => (g.level ?? 0) <= targetLevel)
-      .slice(0, 5)
-      .map(toNode)
+    const known = new Set(nodes.map(node => node.id))
+    const missing = targetIds.filter(id => !known.has(id))
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Target node not found', details: { missing } },
+        { status: 404 }
+      )
+    }
 
-    // For MVP, missing prerequisites are empty because we don't have a graph.
-    const missingPrerequisites: any[] = []
+    const analyzer = new GapAnalyzer(nodes, progress, {
+      ...(body.studentId && { userId: body.studentId, eventBus: gapEventBus, gapLevels: gapLevelStore }),
+      cache: gapAnalysisCache,
+      ...(parameters && { parameters }),
+    })
 
-    const gapScore = Math.max(0, Math.min(100, (targetLevel - (current.level ?? 0)) * 10))
+    let data
+    try {
+      if ('targetNodeIds' in body) {
+        data = analyzer.collectGapMetrics(body.targetNodeIds, body.currentLevel)
+      } else {
+        const result = analyzer.analyzeGap(body.nodeId, body.currentLevel, {
+          ...(body.timeLimit !== undefined && { timeLimit: body.timeLimit }),
+          ...(body.excludeCompleted !== undefined && { excludeCompleted: body.excludeCompleted }),
+        })
+        const currentNode = result.recommendedPath[0] ?? result.targetNode
+        data = {
+          ...result,
+          currentNode: toNodeResponse(currentNode),
+          targetNode: toNodeResponse(result.targetNode),
+          missingPrerequisites: result.missingPrerequisites.map(toNodeResponse),
+          recommendedPath: result.recommendedPath.map(toNodeResponse),
+          recommendations: result.recommendations.map(({ node, ...recommendation }) => ({
+            ...recommendation,
+            node: toNodeResponse(node),
+          })),
+          ...(result.timeBudget && {
+            timeBudget: {
+              ...result.timeBudget,
+              deferred: result.timeBudget.deferred.map(({ node, ...item }) => ({ ...item, node: toNodeResponse(node) })),
+            },
+          }),
+        }
+      }
+    } catch (error) {
+      // The analyzer throws when no starting node matches the student's level.
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Gap analysis failed' },
+        { status: 422 }
+      )
+    }
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        currentNode: toNode(current),
-        missingPrerequisites,
-        recommendedPath: recommended,
-        gapScore,
-      },
-    })
+    const { executionTime, cacheHits, cacheMisses } = analyzer.getPerformance()
+    return NextResponse.json({ success: true, data, metrics: { executionTime, cacheHits, cacheMisses } })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid gap analysis request', details: error.flatten() },
+        { status: 400 }
+      )
+    }
     console.error('Error performing gap analysis:', error)
     return NextResponse.json(
       { success: false, error: 'Failed to perform gap analysis' },
-      { status: 400 }
+      { status: 500 }
     )
   }
 }
-
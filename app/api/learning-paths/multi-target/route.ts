@@ -0,0 +1,61 @@
+/**
+ * Multi-target Learning Path API
+ *
+ * Builds one study sequence covering several target nodes. Prerequisites
+ * shared between targets appear once; each step carries its own time
+ * estimate and `coverage` tells, per target, which steps it needs and at
+ * which step it is reached.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { PathFinder } from '../../../../gap-algorithm/PathFinder'
+import { toNodeResponse } from '@/lib/ontology/graph'
+import { loadLiveGraph } from '@/lib/ontology/live-graph'
+import { loadMasteryMap } from '@/lib/mastery/store'
+
+export const dynamic = 'force-dynamic'
+
+const MultiTargetSchema = z.object({
+  targetNodeIds: z.array(z.string().min(1)).min(1).max(100),
+  studentId: z.string().min(1).optional(),
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = MultiTargetSchema.parse(await request.json())
+
+    const [nodes, progress] = await Promise.all([
+      loadLiveGraph(),
+      body.studentId ? loadMasteryMap(body.studentId) : Promise.resolve(new Map<string, number>()),
+    ])
+
+    const result = new PathFinder(nodes, progress).findMultiTargetPath(body.targetNodeIds)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        steps: result.path.map(node => ({
+          node: toNodeResponse(node),
+          timeEstimate: Math.round(node.timeEstimate ?? 0),
+        })),
+        totalCost: Math.round(result.totalCost),
+        estimatedTime: Math.round(result.totalTime),
+        confidence: Math.round(result.confidence * 100),
+        coverage: result.coverage,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid multi-target path request', details: error.flatten() },
+        { status: 400 }
+      )
+    }
+    console.error('Error planning multi-target learning path:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to plan multi-target learning path' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,28 @@
 /**
- * MVP Learning Paths API
+ * Learning Paths API
  *
- * The full product would compute graph paths in Neo4j. For the MVP we return a
- * simple path between two existing `Gap` nodes (by id) so the UI can function.
+ * Loads the ontology graph (vocabularies, themes, passages) and, when a
+ * `studentId` is given, that student's mastery, then runs the A* `PathFinder`
+ * between two nodes. Node ids may belong to any of the three node types.
+ * `heuristicMode` picks the A* heuristic family; `diagnose=true` adds a
+ * comparison against exhaustive Dijkstra that flags suboptimal paths and
+ * nodes where the heuristic overestimates the remaining cost.
+ * Once `npm run model:fit` has stored a learning model, path and step
+ * confidence are the model's predicted success probability for the student
+ * (`confidenceSource: 'model'`) instead of the difficulty heuristic.
+ * When no path connects the two nodes the response has `found: false` and
+ * no steps.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { prisma } from '@/lib/prisma'
+import { PathFinder } from '../../../gap-algorithm/PathFinder'
+import { contextAt } from '../../../gap-algorithm/LearningModel'
+import type { LearningNode } from '../../../gap-algorithm/types'
+import { toNodeResponse } from '@/lib/ontology/graph'
+import { loadLiveGraph } from '@/lib/ontology/live-graph'
+import { loadMasteryMap } from '@/lib/mastery/store'
+import { loadLearnerHistory, loadLearningModel } from '@/lib/learning-model/store'
 
 export const dynamic = 'force-dynamic'
 
@@ -15,26 +30,16 @@ const QuerySchema = z.object({
   startNodeId: z.string().min(1),
   endNodeId: z.string().min(1),
   maxSteps: z.number().int().min(1).max(20).default(10),
+  studentId: z.string().min(1).optional(),
+  heuristicMode: z.enum(['linear', 'exponential', 'logarithmic']).default('linear'),
+  includeAlternatives: z.boolean().default(true),
+  diagnose: z.boolean().default(false),
 })
 
-function safeJsonParse(value: string | null): any {
-  if (!value) return {}
-  try {
-    return JSON.parse(value)
-  } catch {
-    return {}
-  }
-}
-
-function toNode(gap: any) {
-  const meta = safeJsonParse(gap.metadata)
-  return {
-    id: gap.id,
-    type: 'Vocabulary',
-    term: meta.term || gap.description || null,
-    name: null,
-    difficultyLevel: gap.level,
-  }
+function relationshipType(current: LearningNode, next: LearningNode): string {
+  if (next.prerequisites.includes(current.id)) return 'PREREQUISITE'
+  if (current.prerequisites.includes(next.id)) return 'REQUIRES'
+  return 'NEXT'
 }
 
 export async function GET(request: NextRequest) {
@@ -44,13 +49,22 @@ export async function GET(request: NextRequest) {
       startNodeId: url.searchParams.get('startNodeId') || '',
       endNodeId: url.searchParams.get('endNodeId') || '',
       maxSteps: parseInt(url.searchParams.get('maxSteps') || '10', 10),
+      studentId: url.searchParams.get('studentId') || undefined,
+      heuristicMode: url.searchParams.get('heuristicMode') || undefined,
+      includeAlternatives: url.searchParams.get('includeAlternatives') !== 'false',
+      diagnose: url.searchParams.get('diagnose') === 'true',
     })
 
-    const [start, end] = await Promise.all([
-      prisma.gap.findUnique({ where: { id: query.startNodeId } }),
-      prisma.gap.findUnique({ where: { id: query.endNodeId } }),
+    const [nodes, progress, model, history] = await Promise.all([
+      loadLiveGraph(),
+      query.studentId ? loadMasteryMap(query.studentId) : Promise.resolve(new Map<string, number>()),
+      loadLearningModel(),
+      query.studentId ? loadLearnerHistory(query.studentId) : Promise.resolve([]),
     ])
 
+    const start = nodes.find(node => node.id === query.startNodeId)
+    const end = nodes.find(node => node.id === query.endNodeId)
+
     if (!start || !end) {
       return NextResponse.json(
         { success: false, error: 'Start or end node not found' },
@@ -58,29 +72,52 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    const startNode = toNode(start)
-    const endNode = toNode(end)
+    const pathFinder = new PathFinder(nodes, progress, { mode: query.heuristicMode }, {
+      ...(model && { predictor: model.forLearner(history, contextAt(new Date())) }),
+    })
+    const result = pathFinder.findOptimalPath(start.id, end.id, {
+      maxPathLength: query.maxSteps,
+      includeAlternatives: query.includeAlternatives,
+    })
+
+    // findOptimalPath returns an empty path when A* can't connect the nodes
+    const { path } = result
+    const found = path.length > 0
 
-    const steps = [
-      {
-        currentNode: startNode,
-        nextNode: endNode,
-        relationshipType: 'NEXT',
-        confidence: 100,
-      },
-    ]
+    const steps = path.slice(1).map((next, i) => {
+      const current = path[i] ?? start
+      return {
+        currentNode: toNodeResponse(current),
+        nextNode: toNodeResponse(next),
+        relationshipType: relationshipType(current, next),
+        confidence: Math.round(pathFinder.calculateStepConfidence(current, next) * 100),
+      }
+    })
 
     const learningPath = {
       id: `path_${Date.now()}`,
-      startNode,
-      endNode,
+      startNode: toNodeResponse(start),
+      endNode: toNodeResponse(end),
+      found,
       steps,
-      totalDifficulty: (start.level || 0) + (end.level || 0),
-      estimatedTime: steps.length * 30,
+      totalDifficulty: path.reduce((sum, node) => sum + node.difficulty, 0),
+      estimatedTime: Math.round(result.totalTime),
+      confidence: Math.round(result.confidence * 100),
+      confidenceSource: model ? 'model' : 'heuristic',
+      alternativePaths: result.alternativePaths.map(alternative => alternative.map(toNodeResponse)),
+      ...(query.diagnose && {
+        diagnostics: pathFinder.diagnoseHeuristic(start.id, end.id, { maxPathLength: query.maxSteps }),
+      }),
     }
 
     return NextResponse.json({ success: true, data: learningPath })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid learning path query', details: error.flatten() },
+        { status: 400 }
+      )
+    }
     console.error('Error generating learning path:', error)
     return NextResponse.json(
       { success: false, error: 'Failed to generate learning path' },
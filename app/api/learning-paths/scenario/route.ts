@@ -0,0 +1,71 @@
+/**
+ * Learning Path Scenario API
+ *
+ * Plans one combined study sequence for several target nodes within a time
+ * budget ("these 40 words in 10 hours"). Shared prerequisites are studied
+ * once, preferred topics are chosen first, excluded topics are never planned,
+ * and targets that don't fit are reported as unreachable with the reason.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { ScenarioPlanner } from '../../../../gap-algorithm/ScenarioPlanner'
+import { toNodeResponse } from '@/lib/ontology/graph'
+import { loadLiveGraph } from '@/lib/ontology/live-graph'
+import { loadMasteryMap } from '@/lib/mastery/store'
+
+export const dynamic = 'force-dynamic'
+
+const ScenarioSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  targetNodeIds: z.array(z.string().min(1)).min(1).max(100),
+  studentId: z.string().min(1).optional(),
+  maxTime: z.number().int().positive(), // minutes
+  preferredTopics: z.array(z.string().min(1)).default([]),
+  excludedTopics: z.array(z.string().min(1)).default([]),
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = ScenarioSchema.parse(await request.json())
+
+    const [nodes, progress] = await Promise.all([
+      loadLiveGraph(),
+      body.studentId ? loadMasteryMap(body.studentId) : Promise.resolve(new Map<string, number>()),
+    ])
+
+    const scenarioId = `scenario_${Date.now()}`
+    const plan = new ScenarioPlanner(nodes).plan({
+      id: scenarioId,
+      name: body.name ?? scenarioId,
+      description: `${body.targetNodeIds.length} targets in ${body.maxTime} minutes`,
+      targetNodes: body.targetNodeIds,
+      userProgress: progress,
+      constraints: {
+        maxTime: body.maxTime,
+        preferredTopics: body.preferredTopics,
+        excludedTopics: body.excludedTopics,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...plan,
+        steps: plan.steps.map(step => ({ ...step, node: toNodeResponse(step.node) })),
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid scenario', details: error.flatten() },
+        { status: 400 }
+      )
+    }
+    console.error('Error planning learning path scenario:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to plan scenario' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  PassageUpdateSchema,
+  countWords,
+  passageCountsInclude,
+  toPassageResponse,
+} from '@/lib/ontology/passages'
+import { syncPassageVocabulary } from '@/lib/ontology/extraction'
+import { resetLiveGraph } from '@/lib/ontology/live-graph'
+
+export async function GET(_request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await ctx.params
+    const passage = await prisma.passage.findUnique({ where: { id }, include: passageCountsInclude })
+    if (!passage) {
+      return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, data: toPassageResponse(passage) })
+  } catch (error) {
+    console.error('Error fetching passage:', error)
+    return NextResponse.json({ success: false, error: 'Failed to fetch passage' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await ctx.params
+    const existing = await prisma.passage.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
+    }
+
+    const patch = PassageUpdateSchema.parse(await request.json())
+
+    const data: Prisma.PassageUpdateInput = {}
+    if (patch.title !== undefined) data.title = patch.title
+    if (patch.content !== undefined) data.content = patch.content
+    if (patch.readingLevel !== undefined) data.readingLevel = patch.readingLevel
+    if (patch.genre !== undefined) data.genre = patch.genre
+    if (patch.topics !== undefined) data.topics = JSON.stringify(patch.topics)
+    if (patch.source !== undefined) data.source = patch.source
+    if (patch.publishedAt !== undefined) data.publishedAt = new Date(patch.publishedAt)
+
+    // Keep wordCount in sync with edited content unless the caller overrides it.
+    if (patch.wordCount !== undefined) {
+      data.wordCount = patch.wordCount
+    } else if (patch.content !== undefined) {
+      data.wordCount = countWords(patch.content)
+    }
+
+    const updated = await prisma.$transaction(async tx => {
+      const passage = await tx.passage.update({ where: { id }, data })
+      if (patch.content !== undefined) {
+        await syncPassageVocabulary(tx, id, passage.content)
+      }
+      return passage
+    })
+    resetLiveGraph()
+
+    const vocabularies = await prisma.vocabularyAppearance.count({ where: { passageId: id } })
+
+    return NextResponse.json({
+      success: true,
+      data: toPassageResponse({ ...updated, _count: { vocabularies } }),
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid passage update', details: error.flatten() },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating passage:', error)
+    return NextResponse.json({ success: false, error: 'Failed to update passage' }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await ctx.params
+    const existing = await prisma.passage.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
+    }
+
+    await prisma.passage.delete({ where: { id } })
+    resetLiveGraph()
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting passage:', error)
+    return NextResponse.json({ success: false, error: 'Failed to delete passage' }, { status: 500 })
+  }
+}
@@ -1,11 +1,146 @@
-import { NextResponse } from 'next/server'
-
-// MVP stub: passages are not persisted in the current Prisma schema.
-export async function GET() {
-  return NextResponse.json({
-    success: true,
-    data: [],
-    pagination: { first: 0, skip: 0, total: 0 },
-  })
+/**
+ * Passages API
+ *
+ * Reading passages are persisted in the `Passage` Prisma model so teachers
+ * can build reading assignments from them. Saving a passage links it to the
+ * vocabularies it contains (APPEARS_IN).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  PassageQuerySchema,
+  PassageSchema,
+  countWords,
+  passageCountsInclude,
+  toPassageResponse,
+} from '@/lib/ontology/passages'
+import { syncPassageVocabulary } from '@/lib/ontology/extraction'
+import { resetLiveGraph } from '@/lib/ontology/live-graph'
+
+export const dynamic = 'force-dynamic'
+
+function optionalInt(value: string | null): number | undefined {
+  return value ? parseInt(value, 10) : undefined
 }
 
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const query = PassageQuerySchema.parse({
+      first: parseInt(url.searchParams.get('first') || '50', 10),
+      skip: parseInt(url.searchParams.get('skip') || '0', 10),
+      title_contains: url.searchParams.get('title_contains') || undefined,
+      readingLevel_gte: optionalInt(url.searchParams.get('readingLevel_gte')),
+      readingLevel_lte: optionalInt(url.searchParams.get('readingLevel_lte')),
+      genre: url.searchParams.get('genre') || undefined,
+      topic: url.searchParams.get('topic') || undefined,
+      orderBy: url.searchParams.get('orderBy') || 'TITLE',
+      orderDirection: url.searchParams.get('orderDirection') || 'ASC',
+    })
+
+    const where: Prisma.PassageWhereInput = {}
+
+    if (query.title_contains) where.title = { contains: query.title_contains }
+    if (query.genre) where.genre = query.genre
+
+    if (query.readingLevel_gte || query.readingLevel_lte) {
+      where.readingLevel = {
+        ...(query.readingLevel_gte ? { gte: query.readingLevel_gte } : {}),
+        ...(query.readingLevel_lte ? { lte: query.readingLevel_lte } : {}),
+      }
+    }
+
+    // topics is a JSON array string; match the quoted element.
+    if (query.topic) where.topics = { contains: JSON.stringify(query.topic) }
+
+    const direction = query.orderDirection === 'DESC' ? 'desc' : 'asc'
+    const orderBy: Prisma.PassageOrderByWithRelationInput =
+      query.orderBy === 'READINGLEVEL'
+        ? { readingLevel: direction }
+        : query.orderBy === 'WORDCOUNT'
+          ? { wordCount: direction }
+          : query.orderBy === 'PUBLISHEDAT'
+            ? { publishedAt: direction }
+            : { title: direction }
+
+    const [items, total] = await Promise.all([
+      prisma.passage.findMany({
+        where,
+        orderBy,
+        skip: query.skip,
+        take: query.first,
+        include: passageCountsInclude,
+      }),
+      prisma.passage.count({ where }),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: items.map(toPassageResponse),
+      pagination: {
+        first: query.first,
+        skip: query.skip,
+        total,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid passage query', details: error.flatten() },
+        { status: 400 }
+      )
+    }
+    console.error('Error fetching passages:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch passages' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const validated = PassageSchema.parse(await request.json())
+
+    // The passage and its APPEARS_IN links are saved together or not at all.
+    const { created, matches } = await prisma.$transaction(async tx => {
+      const passage = await tx.passage.create({
+        data: {
+          title: validated.title,
+          content: validated.content,
+          readingLevel: validated.readingLevel,
+          wordCount: validated.wordCount ?? countWords(validated.content),
+          genre: validated.genre,
+          topics: JSON.stringify(validated.topics),
+          source: validated.source,
+          ...(validated.publishedAt ? { publishedAt: new Date(validated.publishedAt) } : {}),
+        },
+      })
+      return { created: passage, matches: await syncPassageVocabulary(tx, passage.id, passage.content) }
+    })
+    resetLiveGraph()
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: toPassageResponse({ ...created, _count: { vocabularies: matches.length } }),
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid passage', details: error.flatten() },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating passage:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create passage' },
+      { status: 500 }
+    )
+  }
+}
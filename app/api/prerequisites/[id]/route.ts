@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { edgeEndpoints, toPrerequisiteResponse } from '@/lib/ontology/prerequisites'
+import { refreshNodePrerequisites } from '@/lib/ontology/live-graph'
+
+export async function GET(_request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await ctx.params
+    const edge = await prisma.prerequisite.findUnique({ where: { id } })
+    if (!edge) {
+      return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, data: toPrerequisiteResponse(edge) })
+  } catch (error) {
+    console.error('Error fetching prerequisite:', error)
+    return NextResponse.json({ success: false, error: 'Failed to fetch prerequisite' }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await ctx.params
+    const existing = await prisma.prerequisite.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
+    }
+
+    await prisma.prerequisite.delete({ where: { id } })
+    await refreshNodePrerequisites(edgeEndpoints(existing).nodeId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting prerequisite:', error)
+    return NextResponse.json({ success: false, error: 'Failed to delete prerequisite' }, { status: 500 })
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Prerequisite edges API (PREREQUISITE)
+ *
+ * `GET` lists edges, optionally for one dependent (`nodeId`) or prerequisite
+ * (`prerequisiteId`) node. `POST` adds an edge between vocabularies and/or
+ * themes; edges that would close a cycle are rejected with the cycle path.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  PrerequisiteEdgeError,
+  PrerequisiteQuerySchema,
+  PrerequisiteSchema,
+  createPrerequisite,
+  dependentWhere,
+  prerequisiteWhere,
+  toPrerequisiteResponse,
+} from '@/lib/ontology/prerequisites'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const mandatory = url.searchParams.get('mandatory')
+    const query = PrerequisiteQuerySchema.parse({
+      first: parseInt(url.searchParams.get('first') || '50', 10),
+      skip: parseInt(url.searchParams.get('skip') || '0', 10),
+      nodeId: url.searchParams.get('nodeId') || undefined,
+      prerequisiteId: url.searchParams.get('prerequisiteId') || undefined,
+      mandatory: mandatory === null ? undefined : mandatory === 'true',
+    })
+
+    const filters: Prisma.PrerequisiteWhereInput[] = []
+    if (query.nodeId) filters.push(dependentWhere(query.nodeId))
+    if (query.prerequisiteId) filters.push(prerequisiteWhere(query.prerequisiteId))
+    if (query.mandatory !== undefined) filters.push({ mandatory: query.mandatory })
+    const where: Prisma.PrerequisiteWhereInput = { AND: filters }
+
+    const [items, total] = await Promise.all([
+      prisma.prerequisite.findMany({
+        where,
+        orderBy: { createdAt: 'asc' },
+        skip: query.skip,
+        take: query.first,
+      }),
+      prisma.prerequisite.count({ where }),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: items.map(toPrerequisiteResponse),
+      pagination: {
+        first: query.first,
+        skip: query.skip,
+        total,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid prerequisite query', details: error.flatten() },
+        { status: 400 }
+      )
+    }
+    console.error('Error fetching prerequisites:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch prerequisites' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const validated = PrerequisiteSchema.parse(await request.json())
+    const edge = await createPrerequisite(validated)
+
+    return NextResponse.json(
+      { success: true, data: toPrerequisiteResponse(edge) },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid prerequisite', details: error.flatten() },
+        { status: 400 }
+      )
+    }
+    if (error instanceof PrerequisiteEdgeError) {
+      return NextResponse.json(
+        { success: false, error: error.message, ...(error.details ? { details: error.details } : {}) },
+        { status: error.status }
+      )
+    }
+    console.error('Error creating prerequisite:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create prerequisite' },
+      { status: 500 }
+    )
+  }
+}
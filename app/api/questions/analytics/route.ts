@@ -0,0 +1,65 @@
+/**
+ * Item Analytics API
+ *
+ * GET lists the stored item statistics per question (p-value, point-biserial
+ * discrimination, average time, option selection rates and flags);
+ * `gapId` narrows to one gap and `flagged=true` to flagged items.
+ * POST reruns the analysis over the session history, like
+ * `npm run items:analyze`, and returns its summary. `recalibrate: false`
+ * leaves `Question.difficulty` untouched.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { analyzeItems, loadItemStatistics } from '@/lib/item-analysis/store'
+
+export const dynamic = 'force-dynamic'
+
+const AnalyzeSchema = z.object({
+  recalibrate: z.boolean().default(true),
+  minResponses: z.number().int().min(1).optional(),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const gapId = url.searchParams.get('gapId')
+    const items = await loadItemStatistics({
+      ...(gapId && { gapId }),
+      flaggedOnly: url.searchParams.get('flagged') === 'true',
+    })
+
+    return NextResponse.json({ success: true, data: items })
+  } catch (error) {
+    console.error('Error fetching item analytics:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch item analytics' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const text = await request.text()
+    const body = AnalyzeSchema.parse(text ? JSON.parse(text) : {})
+    const summary = await analyzeItems({
+      recalibrate: body.recalibrate,
+      ...(body.minResponses !== undefined && { thresholds: { minResponses: body.minResponses } }),
+    })
+
+    return NextResponse.json({ success: true, data: summary })
+  } catch (error) {
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid item analysis request', details: error instanceof z.ZodError ? error.flatten() : error.message },
+        { status: 400 }
+      )
+    }
+    console.error('Error running item analysis:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to run item analysis' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Student mastery (Bayesian Knowledge Tracing)
+ *
+ * Lists the student's P(known) per concept together with the BKT parameters
+ * in effect for it. `pKnown` is the value fed to the gap algorithms as
+ * `userProgress`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { DEFAULT_BKT_PARAMETERS, predictCorrect } from '@/lib/mastery/bkt'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(_request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await ctx.params
+    const student = await prisma.student.findUnique({ where: { id } })
+    if (!student) {
+      return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
+    }
+
+    const states = await prisma.knowledgeState.findMany({
+      where: { studentId: id },
+      include: { gap: { include: { tracingParameters: true } } },
+      orderBy: { pKnown: 'asc' },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: states.map((state) => {
+        const fitted = state.gap.tracingParameters
+        const parameters = fitted
+          ? { pInit: fitted.pInit, pLearn: fitted.pLearn, pSlip: fitted.pSlip, pGuess: fitted.pGuess }
+          : DEFAULT_BKT_PARAMETERS
+        return {
+          gapId: state.gapId,
+          category: state.gap.category,
+          description: state.gap.description,
+          pKnown: state.pKnown,
+          pCorrectNext: predictCorrect(state.pKnown, parameters),
+          attempts: state.attempts,
+          correct: state.correct,
+          lastAttemptAt: state.lastAttemptAt ? state.lastAttemptAt.toISOString() : null,
+          parameters,
+          fittedAt: fitted ? fitted.fittedAt.toISOString() : null,
+        }
+      }),
+    })
+  } catch (error) {
+    console.error('Error fetching student mastery:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch student mastery' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Theme prerequisite edges (Theme → Theme PREREQUISITE)
+ *
+ * `GET` lists the themes that must be learned before `:id`, `POST` adds one
+ * and `DELETE ?prerequisiteId=` removes one. Vocabulary prerequisites are
+ * managed through `/api/prerequisites`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { themeCountsInclude, toThemeResponse } from '@/lib/ontology/themes'
+import {
+  PrerequisiteEdgeError,
+  PrerequisiteSchema,
+  createPrerequisite,
+  toPrerequisiteResponse,
+} from '@/lib/ontology/prerequisites'
+import { refreshNodePrerequisites } from '@/lib/ontology/live-graph'
+
+export const dynamic = 'force-dynamic'
+
+const ThemePrerequisiteSchema = PrerequisiteSchema.omit({ nodeId: true })
+
+export async function GET(_request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await ctx.params
+    const theme = await prisma.theme.findUnique({
+      where: { id },
+      include: {
+        prerequisites: {
+          where: { prerequisiteThemeId: { not: null } },
+          include: { prerequisiteTheme: { include: themeCountsInclude } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+    if (!theme) {
+      return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: theme.prerequisites.flatMap((edge) =>
+        edge.prerequisiteTheme ? [toThemeResponse(edge.prerequisiteTheme)] : []
+      ),
+    })
+  } catch (error) {
+    console.error('Error fetching theme prerequisites:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch theme prerequisites' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await ctx.params
+    const validated = ThemePrerequisiteSchema.parse(await request.json())
+
+    const [theme, prerequisite] = await Promise.all([
+      prisma.theme.findUnique({ where: { id } }),
+      prisma.theme.findUnique({ where: { id: validated.prerequisiteId } }),
+    ])
+    if (!theme || !prerequisite) {
+      return NextResponse.json(
+        { success: false, error: 'Theme or prerequisite not found' },
+        { status: 404 }
+      )
+    }
+
+    const edge = await createPrerequisite({ ...validated, nodeId: id })
+
+    return NextResponse.json(
+      { success: true, data: toPrerequisiteResponse(edge) },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid prerequisite', details: error.flatten() },
+        { status: 400 }
+      )
+    }
+    if (error instanceof PrerequisiteEdgeError) {
+      return NextResponse.json(
+        { success: false, error: error.message, ...(error.details ? { details: error.details } : {}) },
+        { status: error.status }
+      )
+    }
+    console.error('Error adding theme prerequisite:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to add theme prerequisite' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await ctx.params
+    const prerequisiteId = new URL(request.url).searchParams.get('prerequisiteId')
+    if (!prerequisiteId) {
+      return NextResponse.json(
+        { success: false, error: 'prerequisiteId is required' },
+        { status: 400 }
+      )
+    }
+
+    const { count } = await prisma.prerequisite.deleteMany({
+      where: { themeId: id, prerequisiteThemeId: prerequisiteId },
+    })
+    if (count === 0) {
+      return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
+    }
+    await refreshNodePrerequisites(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing theme prerequisite:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove theme prerequisite' },
+      { status: 500 }
+    )
+  }
+}
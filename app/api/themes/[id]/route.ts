@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ThemeUpdateSchema, themeCountsInclude, toThemeResponse } from '@/lib/ontology/themes'
+import { resetLiveGraph } from '@/lib/ontology/live-graph'
+
+export async function GET(_request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await ctx.params
+    const theme = await prisma.theme.findUnique({ where: { id }, include: themeCountsInclude })
+    if (!theme) {
+      return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, data: toThemeResponse(theme) })
+  } catch (error) {
+    console.error('Error fetching theme:', error)
+    return NextResponse.json({ success: false, error: 'Failed to fetch theme' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await ctx.params
+    const existing = await prisma.theme.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
+    }
+
+    const patch = ThemeUpdateSchema.parse(await request.json())
+
+    const data: Prisma.ThemeUpdateInput = {}
+    if (patch.name !== undefined) data.name = patch.name
+    if (patch.description !== undefined) data.description = patch.description
+    if (patch.category !== undefined) data.category = patch.category
+    if (patch.complexity !== undefined) data.complexity = patch.complexity
+    if (patch.keywords !== undefined) data.keywords = JSON.stringify(patch.keywords)
+
+    const updated = await prisma.theme.update({
+      where: { id },
+      data,
+      include: themeCountsInclude,
+    })
+    resetLiveGraph()
+
+    return NextResponse.json({ success: true, data: toThemeResponse(updated) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid theme update', details: error.flatten() },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating theme:', error)
+    return NextResponse.json({ success: false, error: 'Failed to update theme' }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await ctx.params
+    const existing = await prisma.theme.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
+    }
+
+    // Prerequisite edges cascade with the theme.
+    await prisma.theme.delete({ where: { id } })
+    resetLiveGraph()
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting theme:', error)
+    return NextResponse.json({ success: false, error: 'Failed to delete theme' }, { status: 500 })
+  }
+}
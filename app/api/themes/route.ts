@@ -1,11 +1,128 @@
-import { NextResponse } from 'next/server'
-
-// MVP stub: themes are not persisted in the current Prisma schema.
-export async function GET() {
-  return NextResponse.json({
-    success: true,
-    data: [],
-    pagination: { first: 0, skip: 0, total: 0 },
-  })
+/**
+ * Themes API
+ *
+ * Themes are persisted in the `Theme` Prisma model and feed the L1-L3
+ * layers of the ontology map by `complexity`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  ThemeQuerySchema,
+  ThemeSchema,
+  themeCountsInclude,
+  toThemeResponse,
+} from '@/lib/ontology/themes'
+import { resetLiveGraph } from '@/lib/ontology/live-graph'
+
+export const dynamic = 'force-dynamic'
+
+function optionalInt(value: string | null): number | undefined {
+  return value ? parseInt(value, 10) : undefined
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const query = ThemeQuerySchema.parse({
+      first: parseInt(url.searchParams.get('first') || '50', 10),
+      skip: parseInt(url.searchParams.get('skip') || '0', 10),
+      name_contains: url.searchParams.get('name_contains') || undefined,
+      category: url.searchParams.get('category') || undefined,
+      complexity_gte: optionalInt(url.searchParams.get('complexity_gte')),
+      complexity_lte: optionalInt(url.searchParams.get('complexity_lte')),
+      orderBy: url.searchParams.get('orderBy') || 'NAME',
+      orderDirection: url.searchParams.get('orderDirection') || 'ASC',
+    })
+
+    const where: Prisma.ThemeWhereInput = {}
+
+    if (query.name_contains) where.name = { contains: query.name_contains }
+    if (query.category) where.category = query.category
+
+    if (query.complexity_gte || query.complexity_lte) {
+      where.complexity = {
+        ...(query.complexity_gte ? { gte: query.complexity_gte } : {}),
+        ...(query.complexity_lte ? { lte: query.complexity_lte } : {}),
+      }
+    }
+
+    const direction = query.orderDirection === 'DESC' ? 'desc' : 'asc'
+    const orderBy: Prisma.ThemeOrderByWithRelationInput =
+      query.orderBy === 'COMPLEXITY'
+        ? { complexity: direction }
+        : query.orderBy === 'CREATEDAT'
+          ? { createdAt: direction }
+          : { name: direction }
+
+    const [items, total] = await Promise.all([
+      prisma.theme.findMany({
+        where,
+        orderBy,
+        skip: query.skip,
+        take: query.first,
+        include: themeCountsInclude,
+      }),
+      prisma.theme.count({ where }),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: items.map(toThemeResponse),
+      pagination: {
+        first: query.first,
+        skip: query.skip,
+        total,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid theme query', details: error.flatten() },
+        { status: 400 }
+      )
+    }
+    console.error('Error fetching themes:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch themes' },
+      { status: 500 }
+    )
+  }
 }
 
+export async function POST(request: NextRequest) {
+  try {
+    const validated = ThemeSchema.parse(await request.json())
+
+    const created = await prisma.theme.create({
+      data: {
+        name: validated.name,
+        description: validated.description,
+        category: validated.category,
+        complexity: validated.complexity,
+        keywords: JSON.stringify(validated.keywords),
+      },
+      include: themeCountsInclude,
+    })
+    resetLiveGraph()
+
+    return NextResponse.json(
+      { success: true, data: toThemeResponse(created) },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid theme', details: error.flatten() },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating theme:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create theme' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Passages a vocabulary appears in (APPEARS_IN), most frequent first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { toPassageResponse } from '@/lib/ontology/passages'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await ctx.params
+    const url = new URL(request.url)
+    const first = Math.min(Math.max(parseInt(url.searchParams.get('first') || '20', 10) || 20, 1), 100)
+    const skip = Math.max(parseInt(url.searchParams.get('skip') || '0', 10) || 0, 0)
+
+    const vocabulary = await prisma.gap.findFirst({ where: { id, category: 'vocabulary' } })
+    if (!vocabulary) {
+      return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
+    }
+
+    const [appearances, total] = await Promise.all([
+      prisma.vocabularyAppearance.findMany({
+        where: { gapId: id },
+        include: { passage: true },
+        orderBy: [{ frequency: 'desc' }, { position: 'asc' }],
+        skip,
+        take: first,
+      }),
+      prisma.vocabularyAppearance.count({ where: { gapId: id } }),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: appearances.map((appearance) => ({
+        passage: toPassageResponse(appearance.passage),
+        frequency: appearance.frequency,
+        position: appearance.position,
+        discoveredAt: appearance.discoveredAt.toISOString(),
+      })),
+      pagination: { first, skip, total },
+    })
+  } catch (error) {
+    console.error('Error fetching vocabulary passages:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch vocabulary passages' },
+      { status: 500 }
+    )
+  }
+}
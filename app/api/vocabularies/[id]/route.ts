@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
+import { syncVocabularyAppearances } from '@/lib/ontology/extraction'
+import { applyGraphUpdate, resetLiveGraph, upsertVocabularyNode } from '@/lib/ontology/live-graph'
 
 const UpdateSchema = z
   .object({
@@ -36,14 +38,21 @@ function toVocabularyResponse(gap: any) {
     antonyms: Array.isArray(meta.antonyms) ? meta.antonyms : [],
     createdAt: gap.createdAt.toISOString(),
     updatedAt: gap.updatedAt.toISOString(),
-    relationships: { appearsInCount: 0, prerequisitesCount: 0, requiredByCount: 0 },
+    relationships: {
+      appearsInCount: gap._count?.appearances ?? 0,
+      prerequisitesCount: gap._count?.prerequisites ?? 0,
+      requiredByCount: gap._count?.requiredBy ?? 0,
+    },
   }
 }
 
 export async function GET(_request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
   try {
     const { id } = await ctx.params
-    const gap = await prisma.gap.findFirst({ where: { id, category: 'vocabulary' } })
+    const gap = await prisma.gap.findFirst({
+      where: { id, category: 'vocabulary' },
+      include: { _count: { select: { appearances: true, prerequisites: true, requiredBy: true } } },
+    })
     if (!gap) {
       return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
     }
@@ -79,7 +88,22 @@ export async function PUT(request: NextRequest, ctx: { params: Promise<{ id: str
       },
     })
 
-    return NextResponse.json({ success: true, data: toVocabularyResponse(updated) })
+    const termChanged = patch.term !== undefined && patch.term !== meta.term
+    const appearances = termChanged
+      ? await syncVocabularyAppearances(id)
+      : await prisma.vocabularyAppearance.count({ where: { gapId: id } })
+    // A new term can drop APPEARS_IN links, which a node update can't express.
+    if (termChanged) resetLiveGraph()
+    else await upsertVocabularyNode(updated)
+    const [prerequisites, requiredBy] = await Promise.all([
+      prisma.prerequisite.count({ where: { vocabularyId: id } }),
+      prisma.prerequisite.count({ where: { prerequisiteVocabularyId: id } }),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: toVocabularyResponse({ ...updated, _count: { appearances, prerequisites, requiredBy } }),
+    })
   } catch (error) {
     console.error('Error updating vocabulary:', error)
     return NextResponse.json({ success: false, error: 'Failed to update vocabulary' }, { status: 400 })
@@ -95,6 +119,7 @@ export async function DELETE(_request: NextRequest, ctx: { params: Promise<{ id:
     }
 
     await prisma.gap.delete({ where: { id } })
+    await applyGraphUpdate({ type: 'node_removed', nodeId: id, data: null })
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Error deleting vocabulary:', error)
@@ -3,12 +3,15 @@
  *
  * This project originally targeted Neo4j for ontology storage, but the MVP
  * uses the existing Prisma/SQLite schema. We store vocabularies as `Gap`
- * rows with `category = 'vocabulary'` and JSON in `metadata`.
+ * rows with `category = 'vocabulary'` and JSON in `metadata`. Passage links
+ * (APPEARS_IN) are stored in `VocabularyAppearance`.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
+import { syncVocabularyAppearances } from '@/lib/ontology/extraction'
+import { upsertVocabularyNode } from '@/lib/ontology/live-graph'
 
 export const dynamic = 'force-dynamic'
 
@@ -71,9 +74,9 @@ function toVocabularyResponse(gap: any) {
     createdAt: gap.createdAt.toISOString(),
     updatedAt: gap.updatedAt.toISOString(),
     relationships: {
-      appearsInCount: 0,
-      prerequisitesCount: 0,
-      requiredByCount: 0,
+      appearsInCount: gap._count?.appearances ?? 0,
+      prerequisitesCount: gap._count?.prerequisites ?? 0,
+      requiredByCount: gap._count?.requiredBy ?? 0,
     },
   }
 }
@@ -131,6 +134,7 @@ export async function GET(request: NextRequest) {
         orderBy,
         skip: query.skip,
         take: query.first,
+        include: { _count: { select: { appearances: true, prerequisites: true, requiredBy: true } } },
       }),
       prisma.gap.count({ where }),
     ])
@@ -182,8 +186,11 @@ export async function POST(request: NextRequest) {
       },
     })
 
+    const appearances = await syncVocabularyAppearances(created.id)
+    await upsertVocabularyNode(created)
+
     return NextResponse.json(
-      { success: true, data: toVocabularyResponse(created) },
+      { success: true, data: toVocabularyResponse({ ...created, _count: { appearances } }) },
       { status: 201 }
     )
   } catch (error) {
@@ -5,6 +5,8 @@ export default function HomePage() {
       <p>Next.js API endpoints are available under <code>/api</code>.</p>
       <ul>
         <li><code>/api/vocabularies</code></li>
+        <li><code>/api/passages</code></li>
+        <li><code>/api/themes</code></li>
         <li><code>/api/learning-paths</code></li>
         <li><code>/api/learning-paths/gap-analysis</code></li>
       </ul>
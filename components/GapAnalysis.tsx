@@ -1,6 +1,6 @@
 /**
  * EduOntology Gap Analysis Component
- * Analyzes learning gaps between current and target levels
+ * Analyzes the learning gaps between the student's progress and a target node
  */
 
 import React, { useState, useEffect } from 'react'
@@ -9,7 +9,6 @@ import { GapAnalysisResponse } from '@/types/gap-analysis'
 
 interface GapAnalysisProps {
   nodeId: string
-  targetLevel?: number
   onGapResolved?: (gapId: string) => void
 }
 
@@ -25,14 +24,13 @@ interface GapItem {
 
 export const GapAnalysis: React.FC<GapAnalysisProps> = ({
   nodeId,
-  targetLevel = 10,
   onGapResolved,
 }) => {
   const [gaps, setGaps] = useState<GapItem[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const { mutate: performGapAnalysis } = useGapAnalysis(nodeId, targetLevel)
+  const { mutate: performGapAnalysis } = useGapAnalysis(nodeId)
 
   useEffect(() => {
     const analyzeGaps = async () => {
@@ -56,7 +54,7 @@ export const GapAnalysis: React.FC<GapAnalysisProps> = ({
     if (nodeId) {
       analyzeGaps()
     }
-  }, [nodeId, targetLevel, performGapAnalysis])
+  }, [nodeId, performGapAnalysis])
 
   const transformGapData = (data: GapAnalysisResponse): GapItem[] => {
     const gapItems: GapItem[] = []
@@ -70,6 +70,7 @@ export const OntologyDashboard: React.FC<OntologyDashboardProps> = ({
       term: 'Advanced',
       name: null,
     },
+    found: true,
     steps: [
       {
         currentNode: {
@@ -178,7 +179,6 @@ export const OntologyDashboard: React.FC<OntologyDashboardProps> = ({
             {selectedNode ? (
               <GapAnalysis
                 nodeId={selectedNode}
-                targetLevel={8}
                 onGapResolved={handleGapResolved}
               />
             ) : (
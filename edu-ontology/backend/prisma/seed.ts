@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { initKnowledgeGraph } from '../src/db/neo4j';
+import { questionSignature } from '../src/bank/similarity';
 
 const prisma = new PrismaClient();
 
@@ -65,6 +66,72 @@ async function main() {
     ]
   });
 
+  // Seed the question bank so the placement test has items to serve
+  const bankContents = [
+    {
+      type: 'thesaurus',
+      difficulty: 'easy',
+      vocabulary: 'apple',
+      content: {
+        question: "'apple'의 뜻은?",
+        options: ['사과', '바나나', '자동차', '고양이'],
+        answer: '사과',
+        explanation: 'apple은 사과입니다.'
+      }
+    },
+    {
+      type: 'grammar_integration',
+      difficulty: 'easy',
+      vocabulary: null,
+      content: {
+        question: 'She ___ to school every day.',
+        options: ['go', 'goes', 'going', 'gone'],
+        answer: 'goes',
+        explanation: '3인칭 단수 현재형에는 -s가 붙습니다.'
+      }
+    },
+    {
+      type: 'grammar_integration',
+      difficulty: 'medium',
+      vocabulary: null,
+      content: {
+        question: 'Yesterday I ___ a letter.',
+        options: ['write', 'writes', 'wrote', 'written'],
+        answer: 'wrote',
+        explanation: 'yesterday는 과거 시제를 씁니다.'
+      }
+    },
+    {
+      type: 'thesaurus',
+      difficulty: 'medium',
+      vocabulary: 'reluctant',
+      content: {
+        question: "'reluctant'와 가장 가까운 뜻은?",
+        options: ['willing', 'hesitant', 'eager', 'certain'],
+        answer: 'hesitant',
+        explanation: 'reluctant는 내키지 않는다는 뜻입니다.'
+      }
+    },
+    {
+      type: 'grammar_integration',
+      difficulty: 'hard',
+      vocabulary: null,
+      content: {
+        question: 'If I ___ known, I would have helped.',
+        options: ['have', 'had', 'would', 'has'],
+        answer: 'had',
+        explanation: '가정법 과거완료는 if + had p.p.를 씁니다.'
+      }
+    }
+  ];
+  const bankItems = await prisma.bankItem.createMany({
+    data: bankContents.map(item => ({
+      ...item,
+      signature: questionSignature(item.content),
+      source: 'seed'
+    }))
+  });
+
   // Initialize Neo4j knowledge graph
   try {
     await initKnowledgeGraph();
@@ -77,6 +144,7 @@ async function main() {
   console.log(`📊 Created ${student1.level} student: ${student1.email}`);
   console.log(`📊 Created ${student2.level} student: ${student2.email}`);
   console.log(`📊 Created ${assignments.count} sample assignments`);
+  console.log(`📊 Created ${bankItems.count} question bank items`);
 }
 
 main()
@@ -1,29 +1,55 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { AssignmentType, Assignment, AssignmentContent, GapData, LevelAdapter } from './types';
-
-const client = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY
-});
-
+import { AssignmentType, Assignment, AssignmentContent, GapData, GenerationContext } from './types';
+import { LLMProvider, getProvider } from './providers';
+import { TYPE_REQUIREMENTS, validateAssignmentContent } from './schemas';
+import { GenerationInvalidError } from '../middleware/errors';
+
+// 검증에 실패한 응답을 오류와 함께 다시 요청하는 최대 횟수
+export const DEFAULT_MAX_REPAIRS = 2;
+
+/**
+ * 생성 → 유형별 스키마 검증 → 실패하면 오류 목록으로 수정 요청
+ * maxRepairs번 수정해도 유효하지 않으면 GENERATION_INVALID
+ */
 export async function generateAssignment(params: {
   studentLevel: string;
   gapData: GapData;
   type: AssignmentType;
+  context?: GenerationContext;
+  provider?: LLMProvider;
+  maxRepairs?: number;
 }): Promise<Assignment> {
-  const { studentLevel, gapData, type } = params;
-
-  const prompt = buildPrompt(type, studentLevel, gapData);
-  const response = await client.messages.create({
-    model: "claude-sonnet-4-20250514",
-    max_tokens: 2000,
-    messages: [{
-      role: "user",
-      content: prompt
-    }]
-  });
+  const { studentLevel, gapData, type, context, maxRepairs = DEFAULT_MAX_REPAIRS } = params;
+  const provider = params.provider ?? getProvider();
+
+  const basePrompt = buildPrompt(type, studentLevel, gapData);
+  const attempts: Array<{ errors: string[]; response: string }> = [];
+  let prompt = basePrompt;
+
+  for (let repair = 0; repair <= maxRepairs; repair++) {
+    const response = await provider.complete({
+      prompt,
+      assignment: { type, level: studentLevel, gapData, ...(context && { context }) }
+    });
+
+    const result = validateAssignmentContent(type, response);
+    if (result.success) {
+      return toAssignment(type, result.content, studentLevel, {
+        provider: provider.name,
+        model: provider.model,
+        repairs: repair
+      });
+    }
 
-  const content = response.content[0].text;
-  return parseAssignment(type, content, studentLevel);
+    attempts.push({ errors: result.errors, response: response.slice(0, 2000) });
+    prompt = buildRepairPrompt(basePrompt, response, result.errors);
+  }
+
+  throw new GenerationInvalidError(`Generated ${type} assignment failed validation`, {
+    type,
+    provider: provider.name,
+    model: provider.model,
+    attempts
+  });
 }
 
 function buildPrompt(type: AssignmentType, level: string, gapData: GapData): string {
@@ -66,6 +92,7 @@ function buildPrompt(type: AssignmentType, level: string, gapData: GapData): str
 2. 정답과 상세한 해설 포함
 3. 학생의 약점을 보완할 수 있는 콘텐츠
 4. JSON 형식으로 반환하세요
+5. 형식: ${TYPE_REQUIREMENTS[type]}
 
 예시 형식:
 {
@@ -79,66 +106,55 @@ function buildPrompt(type: AssignmentType, level: string, gapData: GapData): str
 `;
 }
 
-function parseAssignment(type: AssignmentType, content: string, level: string): Assignment {
-  try {
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response');
-    }
+function buildRepairPrompt(prompt: string, response: string, errors: string[]): string {
+  return `${prompt}
+이전 응답:
+${response}
 
-    const parsed = JSON.parse(jsonMatch[0]);
+이전 응답이 형식 검증을 통과하지 못했습니다. 아래 오류를 모두 고친 JSON 객체 하나만 다시 반환하세요.
+${errors.map(error => `- ${error}`).join('\n')}
+`;
+}
 
-    // Validate required fields
-    const requiredFields = ['question', 'answer', 'explanation'];
-    for (const field of requiredFields) {
-      if (!parsed[field]) {
-        throw new Error(`Missing required field: ${field}`);
-      }
-    }
+function toAssignment(type: AssignmentType, content: AssignmentContent, level: string, metadata: Record<string, unknown>): Assignment {
+  // Determine difficulty based on level
+  const difficultyMap = {
+    'A1': 'easy' as const,
+    'A2': 'easy' as const,
+    'B1': 'medium' as const,
+    'B2': 'medium' as const,
+    'C1': 'hard' as const,
+    'C2': 'hard' as const
+  };
 
-    // Determine difficulty based on level
-    const difficultyMap = {
-      'A1': 'easy' as const,
-      'A2': 'easy' as const,
-      'B1': 'medium' as const,
-      'B2': 'medium' as const,
-      'C1': 'hard' as const,
-      'C2': 'hard' as const
-    };
-
-    return {
-      type,
-      content: {
-        question: parsed.question,
-        options: parsed.options || undefined,
-        answer: parsed.answer,
-        explanation: parsed.explanation,
-        hint: parsed.hint || undefined,
-        example: parsed.example || undefined
-      },
-      difficulty: difficultyMap[level as keyof typeof difficultyMap] || 'medium',
-      level,
-      metadata: {
-        optionsProvided: !!parsed.options,
-        hintProvided: !!parsed.hint,
-        exampleProvided: !!parsed.example
-      }
-    };
-  } catch (error) {
-    throw new Error(`Failed to parse assignment: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+  return {
+    type,
+    content,
+    difficulty: difficultyMap[level as keyof typeof difficultyMap] || 'medium',
+    level,
+    metadata: {
+      optionsProvided: !!content.options,
+      hintProvided: !!content.hint,
+      exampleProvided: !!content.example,
+      ...metadata
+    }
+  };
 }
 
 export async function batchGenerateAssignments(params: {
   studentLevel: string;
   gapData: GapData;
   types: AssignmentType[];
+  context?: GenerationContext;
+  provider?: LLMProvider;
 }): Promise<Assignment[]> {
   const promises = params.types.map(type =>
     generateAssignment({
       studentLevel: params.studentLevel,
       gapData: params.gapData,
-      type
+      type,
+      ...(params.context && { context: params.context }),
+      ...(params.provider && { provider: params.provider })
     })
   );
 
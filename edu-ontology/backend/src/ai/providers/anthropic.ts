@@ -0,0 +1,52 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { CompletionRequest, LLMProvider, ProviderError } from './types';
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-20250514';
+
+export interface AnthropicProviderOptions {
+  apiKey?: string | undefined;
+  model?: string | undefined;
+  maxTokens?: number | undefined;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+  private client: Anthropic | null = null;
+
+  constructor(private options: AnthropicProviderOptions = {}) {
+    this.model = options.model || DEFAULT_ANTHROPIC_MODEL;
+  }
+
+  // 첫 요청 때 클라이언트 생성 — 키 없이도 모듈을 불러올 수 있다
+  private getClient(): Anthropic {
+    if (!this.client) {
+      if (!this.options.apiKey) {
+        throw new ProviderError(this.name, 'ANTHROPIC_API_KEY is not set');
+      }
+      this.client = new Anthropic({ apiKey: this.options.apiKey });
+    }
+    return this.client;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const client = this.getClient();
+
+    try {
+      const response = await client.messages.create({
+        model: this.model,
+        max_tokens: request.maxTokens ?? this.options.maxTokens ?? 2000,
+        messages: [{ role: 'user', content: request.prompt }]
+      });
+
+      return response.content
+        .map(block => (block.type === 'text' ? block.text : ''))
+        .join('');
+    } catch (error) {
+      throw new ProviderError(this.name, 'Anthropic request failed', {
+        model: this.model,
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { AnthropicProvider } from './anthropic';
+import { LocalHttpProvider } from './local';
+import { OfflineProvider } from './offline';
+import { LLMProvider, ProviderName } from './types';
+
+export * from './types';
+export { AnthropicProvider, DEFAULT_ANTHROPIC_MODEL } from './anthropic';
+export { LocalHttpProvider, DEFAULT_LOCAL_BASE_URL, DEFAULT_LOCAL_MODEL } from './local';
+export { OfflineProvider, generateOfflineContent } from './offline';
+
+const PROVIDER_NAMES: ProviderName[] = ['anthropic', 'local', 'offline'];
+
+/**
+ * 환경 변수로 제공자 선택
+ * LLM_PROVIDER가 없으면 ANTHROPIC_API_KEY가 있을 때 anthropic, 아니면 offline
+ */
+export function createProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const setting = (key: string) => env[key]?.trim() || undefined;
+  const requested = setting('LLM_PROVIDER')?.toLowerCase();
+  if (requested && !PROVIDER_NAMES.includes(requested as ProviderName)) {
+    throw new Error(`Unknown LLM_PROVIDER "${requested}" (expected ${PROVIDER_NAMES.join(', ')})`);
+  }
+  const name = (requested as ProviderName | undefined) ?? (setting('ANTHROPIC_API_KEY') ? 'anthropic' : 'offline');
+
+  switch (name) {
+    case 'anthropic':
+      return new AnthropicProvider({ apiKey: setting('ANTHROPIC_API_KEY'), model: setting('LLM_MODEL') });
+    case 'local': {
+      const timeout = setting('LLM_TIMEOUT_MS');
+      return new LocalHttpProvider({
+        baseUrl: setting('LLM_BASE_URL'),
+        model: setting('LLM_MODEL'),
+        apiKey: setting('LLM_API_KEY'),
+        timeoutMs: timeout ? parseInt(timeout) : undefined
+      });
+    }
+    case 'offline':
+      return new OfflineProvider();
+  }
+}
+
+let defaultProvider: LLMProvider | null = null;
+
+// 프로세스 전체에서 쓰는 기본 제공자 (첫 사용 때 생성)
+export function getProvider(): LLMProvider {
+  if (!defaultProvider) {
+    defaultProvider = createProvider();
+  }
+  return defaultProvider;
+}
+
+// 테스트·스크립트용 기본 제공자 교체 (null이면 환경 변수로 다시 생성)
+export function setProvider(provider: LLMProvider | null): void {
+  defaultProvider = provider;
+}
@@ -0,0 +1,68 @@
+import { CompletionRequest, LLMProvider, ProviderError } from './types';
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+export interface LocalHttpProviderOptions {
+  baseUrl?: string | undefined;
+  model?: string | undefined;
+  apiKey?: string | undefined;
+  timeoutMs?: number | undefined;
+}
+
+/**
+ * OpenAI 호환 `/chat/completions` 엔드포인트 (Ollama, llama.cpp server, vLLM 등)
+ */
+export class LocalHttpProvider implements LLMProvider {
+  readonly name = 'local' as const;
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(private options: LocalHttpProviderOptions = {}) {
+    this.model = options.model || DEFAULT_LOCAL_MODEL;
+    this.baseUrl = (options.baseUrl || DEFAULT_LOCAL_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs ?? 60000);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` })
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: request.maxTokens ?? 2000,
+          messages: [{ role: 'user', content: request.prompt }]
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new ProviderError(this.name, `Local model returned HTTP ${response.status}`, {
+          url: this.baseUrl,
+          body: (await response.text()).slice(0, 500)
+        });
+      }
+
+      const body = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+      const content = body.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new ProviderError(this.name, 'Local model response has no message content', { url: this.baseUrl });
+      }
+      return content;
+    } catch (error) {
+      if (error instanceof ProviderError) throw error;
+      throw new ProviderError(this.name, 'Local model request failed', {
+        url: this.baseUrl,
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,495 @@
+import { AssignmentContent, AssignmentType, GenerationContext } from '../types';
+import { CompletionRequest, LLMProvider } from './types';
+
+// 자료가 없는 단어를 대신할 내장 어휘 — 각 유형에 필요한 필드가 있는 항목만 쓰인다
+interface LexiconEntry {
+  word: string;
+  definition: string;
+  sentence: string;  // word가 그대로 들어 있는 문장
+  synonym?: string;
+  antonym?: string;
+  collocation?: { phrase: string; verb: string };  // phrase의 ___ 자리에 verb
+  family?: { forms: Record<string, string>; sentence: string; form: string };
+}
+
+const LEXICON: LexiconEntry[] = [
+  {
+    word: 'decide',
+    definition: '결정하다',
+    sentence: 'It is hard to decide which book to read first.',
+    synonym: 'choose',
+    antonym: 'hesitate',
+    collocation: { phrase: '___ a decision', verb: 'make' },
+    family: {
+      forms: { noun: 'decision', verb: 'decide', adjective: 'decisive', adverb: 'decisively' },
+      sentence: 'Choosing a school is an important ___.',
+      form: 'noun'
+    }
+  },
+  {
+    word: 'create',
+    definition: '새로 만들어 내다',
+    sentence: 'The students worked together to create a short film.',
+    synonym: 'produce',
+    antonym: 'destroy',
+    family: {
+      forms: { noun: 'creation', verb: 'create', adjective: 'creative', adverb: 'creatively' },
+      sentence: 'She has a very ___ mind and always finds new ideas.',
+      form: 'adjective'
+    }
+  },
+  {
+    word: 'describe',
+    definition: '묘사하다, 설명하다',
+    sentence: 'Can you describe the picture in three sentences?',
+    synonym: 'depict',
+    family: {
+      forms: { noun: 'description', verb: 'describe', adjective: 'descriptive', adverb: 'descriptively' },
+      sentence: 'Write a short ___ of your hometown.',
+      form: 'noun'
+    }
+  },
+  {
+    word: 'careful',
+    definition: '조심하는, 주의 깊은',
+    sentence: 'Be careful when you cross the street.',
+    synonym: 'cautious',
+    antonym: 'careless',
+    family: {
+      forms: { noun: 'care', adjective: 'careful', adverb: 'carefully', opposite: 'careless' },
+      sentence: 'Please read the question ___ before you answer.',
+      form: 'adverb'
+    }
+  },
+  {
+    word: 'attention',
+    definition: '주의, 관심',
+    sentence: 'Please pay attention to the last paragraph.',
+    synonym: 'focus',
+    antonym: 'neglect',
+    collocation: { phrase: '___ attention to the details', verb: 'pay' }
+  },
+  {
+    word: 'mistake',
+    definition: '실수, 잘못',
+    sentence: 'Everyone makes a mistake when learning a new language.',
+    synonym: 'error',
+    collocation: { phrase: '___ a mistake', verb: 'make' }
+  },
+  {
+    word: 'homework',
+    definition: '숙제',
+    sentence: 'I always finish my homework before dinner.',
+    synonym: 'assignment',
+    collocation: { phrase: '___ your homework', verb: 'do' }
+  },
+  {
+    word: 'photo',
+    definition: '사진',
+    sentence: 'The tourist asked me to take a photo of the river.',
+    synonym: 'picture',
+    collocation: { phrase: '___ a photo', verb: 'take' }
+  }
+];
+
+const COLLOCATION_VERBS = ['make', 'do', 'take', 'have', 'pay', 'give', 'keep'];
+
+// 담화표지 — 관계별 대표 표현과 지문에서 알아볼 표현
+const DISCOURSE_MARKERS: Array<{ relation: string; marker: string; variants: string[] }> = [
+  { relation: '대조', marker: 'However', variants: ['However', 'On the other hand', 'Nevertheless'] },
+  { relation: '결과', marker: 'Therefore', variants: ['Therefore', 'As a result', 'Consequently'] },
+  { relation: '추가', marker: 'Moreover', variants: ['Moreover', 'In addition', 'Furthermore'] },
+  { relation: '예시', marker: 'For example', variants: ['For example', 'For instance'] }
+];
+
+const DISCOURSE_PAIRS: Array<{ first: string; second: string; marker: string }> = [
+  { first: 'The plan looked simple.', second: 'it took us three weeks to finish.', marker: 'However' },
+  { first: 'It started to rain heavily.', second: 'the game was cancelled.', marker: 'Therefore' },
+  { first: 'The new library is close to my house.', second: 'it is open until midnight.', marker: 'Moreover' },
+  { first: 'Some words have several meanings.', second: "'light' can mean 'not heavy' or 'bright'.", marker: 'For example' }
+];
+
+const REGISTER_ITEMS = [
+  {
+    situation: '교수님께 보내는 이메일에서 도움을 요청할 때',
+    answer: 'Could you possibly help me with this problem?',
+    others: ['Help me with this.', 'Gimme a hand, ok?', 'You gotta help me out.']
+  },
+  {
+    situation: '친한 친구에게 문자로 저녁 약속을 제안할 때',
+    answer: 'Wanna grab dinner tonight?',
+    others: [
+      'I would like to formally invite you to dinner this evening.',
+      'Please be advised that dinner has been scheduled.',
+      'We request the pleasure of your company at dinner.'
+    ]
+  },
+  {
+    situation: '면접에서 자신의 강점을 말할 때',
+    answer: 'I am able to work well under pressure.',
+    others: ["I'm, like, super chill with stress.", 'Stress? No biggie.', 'Whatever, I can handle stuff.']
+  }
+];
+
+const PRAGMATICS_ITEMS = [
+  {
+    situation: '창문이 열린 교실에서 선생님이 말했다.',
+    utterance: "It's a bit cold in here, isn't it?",
+    answer: '창문을 닫아 달라는 부탁',
+    others: ['날씨에 대한 정보 공유', '교실 밖으로 나가자는 제안', '학생을 꾸짖는 말']
+  },
+  {
+    situation: '약속에 30분 늦게 도착한 친구에게 말했다.',
+    utterance: 'Do you know what time it is?',
+    answer: '늦은 것에 대한 불만',
+    others: ['현재 시각을 묻는 질문', '시계를 사 달라는 부탁', '약속 시간을 바꾸자는 제안']
+  },
+  {
+    situation: '동료가 주말 등산을 제안하자 대답했다.',
+    utterance: "I'd love to, but I have a lot of work this week.",
+    answer: '정중한 거절',
+    others: ['제안 수락', '일을 도와 달라는 부탁', '주말 일정에 대한 질문']
+  }
+];
+
+// 문법 주제별 문항 — 앞쪽 주제가 먼저 일치한다 ('present perfect'가 'present'보다 먼저)
+const GRAMMAR_ITEMS = [
+  {
+    topic: 'present perfect',
+    sentence: 'I ___ this book three times so far.',
+    answer: 'have read',
+    others: ['read', 'am reading', 'was read'],
+    rule: "'so far'는 과거부터 지금까지의 경험을 나타내므로 현재완료(have + p.p.)를 쓴다."
+  },
+  {
+    topic: 'present',
+    sentence: 'She ___ to school every morning.',
+    answer: 'walks',
+    others: ['walk', 'walked', 'is walk'],
+    rule: '습관은 현재시제로 나타내고, 3인칭 단수 주어에는 동사에 -s를 붙인다.'
+  },
+  {
+    topic: 'past',
+    sentence: 'We ___ the museum last Saturday.',
+    answer: 'visited',
+    others: ['visit', 'have visited', 'will visit'],
+    rule: "'last Saturday'처럼 끝난 과거 시점에는 과거시제를 쓴다."
+  },
+  {
+    topic: 'conditional',
+    sentence: 'If it ___ tomorrow, we will stay at home.',
+    answer: 'rains',
+    others: ['will rain', 'rained', 'would rain'],
+    rule: '조건의 if절은 미래의 일이라도 현재시제로 쓴다.'
+  },
+  {
+    topic: 'subjunctive',
+    sentence: 'If I ___ you, I would apologize to her.',
+    answer: 'were',
+    others: ['am', 'will be', 'have been'],
+    rule: '현재 사실과 반대되는 가정(가정법 과거)에서는 be동사로 were를 쓴다.'
+  },
+  {
+    topic: 'passive',
+    sentence: 'The letter ___ by my grandfather in 1990.',
+    answer: 'was written',
+    others: ['wrote', 'has written', 'is writing'],
+    rule: '편지가 "쓰인" 것이므로 수동태(be + p.p.)이고, 1990년이라는 과거 시점이므로 was를 쓴다.'
+  }
+];
+
+// 문자열 시드의 결정적 난수 (mulberry32)
+function seededRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result;
+}
+
+function withExample(example: string | undefined): { example?: string } {
+  return example ? { example } : {};
+}
+
+function pickOne<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)]!;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function unique(items: string[]): string[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = item.toLowerCase();
+    if (!item || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * 정답과 서로 다른 오답 3개를 섞은 4지 선다 보기
+ */
+function buildOptions(answer: string, candidates: string[], random: () => number): string[] {
+  const distractors = shuffle(
+    unique(candidates).filter(candidate => candidate.toLowerCase() !== answer.toLowerCase()),
+    random
+  ).slice(0, 3);
+  return shuffle([answer, ...distractors], random);
+}
+
+class OfflineMaterial {
+  readonly words: string[];
+  private sentences: string[];
+
+  constructor(vocabulary: string[], private context: GenerationContext = {}) {
+    this.words = unique(vocabulary.map(word => word.trim()).filter(Boolean));
+    this.sentences = (context.passages || [])
+      .flatMap(passage => passage.content.split(/(?<=[.!?])\s+/))
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0 && sentence.length <= 300);
+  }
+
+  entry(word: string): LexiconEntry | undefined {
+    return LEXICON.find(entry => entry.word === word.toLowerCase());
+  }
+
+  definition(word: string): string | undefined {
+    return this.context.definitions?.[word] ?? this.entry(word)?.definition;
+  }
+
+  // 지문에서 단어가 그대로 쓰인 첫 문장, 없으면 내장 예문
+  sentence(word: string): string | undefined {
+    const pattern = new RegExp(`\\b${escapeRegExp(word)}\\b`, 'i');
+    return this.sentences.find(sentence => pattern.test(sentence)) ?? this.entry(word)?.sentence;
+  }
+
+  // 지문에서 담화표지로 시작하는 문장과 그 앞 문장
+  discoursePair(): { first: string; second: string; marker: string } | undefined {
+    for (let i = 1; i < this.sentences.length; i++) {
+      const sentence = this.sentences[i]!;
+      for (const { variants } of DISCOURSE_MARKERS) {
+        const variant = variants.find(v => sentence.startsWith(`${v},`));
+        if (variant) {
+          return {
+            first: this.sentences[i - 1]!,
+            second: sentence.slice(variant.length + 1).trim(),
+            marker: variant
+          };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 조건을 만족하는 첫 번째 약점 어휘 — 없으면 조건을 만족하는 내장 어휘
+   */
+  pick(accepts: (word: string) => boolean, random: () => number): string {
+    const word = this.words.find(accepts);
+    if (word) return word;
+    const fallback = LEXICON.filter(entry => accepts(entry.word));
+    return pickOne(fallback, random).word;
+  }
+
+  // 오답 후보 어휘
+  otherWords(word: string): string[] {
+    return [...this.words, ...LEXICON.map(entry => entry.word)].filter(other => other !== word);
+  }
+
+  otherDefinitions(word: string): string[] {
+    const own = this.definition(word);
+    return [
+      ...Object.entries(this.context.definitions || {})
+        .filter(([other]) => other !== word)
+        .map(([, definition]) => definition),
+      ...LEXICON.filter(entry => entry.word !== word).map(entry => entry.definition)
+    ].filter(definition => definition !== own);
+  }
+}
+
+type OfflineTemplate = (
+  material: OfflineMaterial,
+  random: () => number,
+  grammar: string[]
+) => AssignmentContent;
+
+const TEMPLATES: Record<AssignmentType, OfflineTemplate> = {
+  [AssignmentType.SEMANTIC_UNIT]: (material, random) => {
+    const word = material.pick(w => !!material.definition(w) && !!material.sentence(w), random);
+    const definition = material.definition(word)!;
+    const sentence = material.sentence(word)!;
+    return {
+      question: `다음 문장에서 '${word}'의 의미로 가장 알맞은 것은?\n"${sentence}"`,
+      options: buildOptions(definition, material.otherDefinitions(word), random),
+      answer: definition,
+      explanation: `이 문장에서 '${word}'은(는) '${definition}'(이)라는 뜻으로 쓰였다.`,
+      example: sentence
+    };
+  },
+
+  [AssignmentType.DISCOURSE_MARKER]: (material, random) => {
+    const pair = material.discoursePair() ?? pickOne(DISCOURSE_PAIRS, random);
+    const relation = DISCOURSE_MARKERS.find(m => m.variants.includes(pair.marker))!;
+    const others = DISCOURSE_MARKERS.filter(m => m !== relation).map(m => m.marker);
+    return {
+      question: `빈칸에 들어갈 담화표지로 가장 알맞은 것은?\n"${pair.first} ___, ${pair.second}"`,
+      options: buildOptions(pair.marker, others, random),
+      answer: pair.marker,
+      explanation: `두 문장은 ${relation.relation} 관계이므로 '${pair.marker}'이(가) 자연스럽다.`,
+      hint: '앞 문장과 뒤 문장의 관계(대조, 결과, 추가, 예시)를 먼저 파악해 보세요.'
+    };
+  },
+
+  [AssignmentType.COLLOCATION]: (material, random) => {
+    const word = material.pick(w => !!material.entry(w)?.collocation, random);
+    const { phrase, verb } = material.entry(word)!.collocation!;
+    return {
+      question: `빈칸에 들어갈 동사로 가장 자연스러운 것은?\n"${phrase}"`,
+      options: buildOptions(verb, COLLOCATION_VERBS, random),
+      answer: verb,
+      explanation: `'${phrase.replace('___', verb)}'은(는) 함께 쓰이는 고정된 표현(collocation)이다.`,
+      ...withExample(material.sentence(word))
+    };
+  },
+
+  [AssignmentType.THESAURUS]: (material, random) => {
+    const word = material.pick(w => !!material.entry(w)?.synonym, random);
+    const { synonym, antonym } = material.entry(word)!;
+    const candidates = [
+      ...(antonym ? [antonym] : []),
+      ...LEXICON.filter(entry => entry.word !== word && entry.synonym).map(entry => entry.synonym!)
+    ];
+    return {
+      question: `'${word}'와(과) 의미가 가장 가까운 단어는?`,
+      options: buildOptions(synonym!, candidates, random),
+      answer: synonym!,
+      explanation: `'${word}'와(과) '${synonym}'은(는) 유의어이다.${antonym ? ` '${antonym}'은(는) 반의어이다.` : ''}`,
+      ...withExample(material.sentence(word))
+    };
+  },
+
+  [AssignmentType.CONTEXT_GUESS]: (material, random) => {
+    const word = material.pick(w => !!material.sentence(w), random);
+    const sentence = material.sentence(word)!;
+    const blanked = sentence.replace(new RegExp(`\\b${escapeRegExp(word)}\\b`, 'i'), '___');
+    return {
+      question: `문맥상 빈칸에 들어갈 단어로 가장 알맞은 것은?\n"${blanked}"`,
+      options: buildOptions(word, material.otherWords(word), random),
+      answer: word,
+      explanation: `앞뒤 문맥을 보면 빈칸에는 '${word}'${material.definition(word) ? `(${material.definition(word)})` : ''}이(가) 들어가야 자연스럽다.`,
+      hint: `'${word[0]}'로 시작하는 단어입니다.`,
+      example: sentence
+    };
+  },
+
+  [AssignmentType.WORD_FORMATION]: (material, random) => {
+    const word = material.pick(w => !!material.entry(w)?.family, random);
+    const { forms, sentence, form } = material.entry(word)!.family!;
+    const answer = forms[form]!;
+    return {
+      question: `빈칸에 들어갈 '${word}'의 알맞은 형태는?\n"${sentence}"`,
+      options: buildOptions(answer, Object.values(forms), random),
+      answer,
+      explanation: `빈칸에는 ${form} 형태가 필요하므로 '${answer}'이(가) 알맞다.`,
+      baseForm: word,
+      example: sentence.replace('___', answer)
+    };
+  },
+
+  [AssignmentType.REGISTER_MATCH]: (material, random) => {
+    const item = pickOne(REGISTER_ITEMS, random);
+    return {
+      question: `다음 상황에 가장 알맞은 표현은?\n상황: ${item.situation}`,
+      options: buildOptions(item.answer, item.others, random),
+      answer: item.answer,
+      explanation: `${item.situation}에는 '${item.answer}'처럼 상황의 격식에 맞는 표현을 쓴다.`
+    };
+  },
+
+  [AssignmentType.PRAGMATICS]: (material, random) => {
+    const item = pickOne(PRAGMATICS_ITEMS, random);
+    return {
+      question: `${item.situation}\n"${item.utterance}"\n말하는 사람의 의도로 가장 알맞은 것은?`,
+      options: buildOptions(item.answer, item.others, random),
+      answer: item.answer,
+      explanation: `문장의 표면적 의미와 달리, 이 상황에서 '${item.utterance}'은(는) ${item.answer}의 뜻으로 쓰인다.`
+    };
+  },
+
+  [AssignmentType.GRAMMAR_INTEGRATION]: (material, random, grammar) => {
+    const topics = grammar.map(topic => topic.toLowerCase());
+    const item = GRAMMAR_ITEMS.find(candidate =>
+      topics.some(topic => topic.includes(candidate.topic) || candidate.topic.includes(topic))
+    ) ?? pickOne(GRAMMAR_ITEMS, random);
+    return {
+      question: `빈칸에 들어갈 말로 알맞은 것은? (${item.topic})\n"${item.sentence}"`,
+      options: buildOptions(item.answer, item.others, random),
+      answer: item.answer,
+      explanation: item.rule,
+      example: item.sentence.replace('___', item.answer)
+    };
+  },
+
+  [AssignmentType.GAP_BRIDGE]: (material, random) => {
+    const word = material.pick(w => !!material.definition(w), random);
+    const definition = material.definition(word)!;
+    return {
+      question: `다음 뜻을 가진 단어는?\n"${definition}"`,
+      options: buildOptions(word, material.otherWords(word), random),
+      answer: word,
+      explanation: `'${word}'은(는) '${definition}'(이)라는 뜻이다. 약점 어휘이므로 예문과 함께 복습하세요.`,
+      hint: `'${word[0]}'로 시작하는 단어입니다.`,
+      ...withExample(material.sentence(word))
+    };
+  }
+};
+
+/**
+ * 어휘·지문 자료로 만든 결정적 문항 — 같은 요청에는 항상 같은 문항
+ */
+export function generateOfflineContent(request: CompletionRequest['assignment']): AssignmentContent {
+  const { type, level, gapData, context } = request;
+  const template = TEMPLATES[type];
+  if (!template) {
+    throw new Error(`Unsupported assignment type: ${type}`);
+  }
+
+  const vocabulary = gapData.vocabulary || [];
+  const grammar = gapData.grammar || [];
+  const random = seededRandom(`${type}|${level}|${vocabulary.join(',')}|${grammar.join(',')}`);
+  const content = template(new OfflineMaterial(vocabulary, context), random, grammar);
+
+  // 선택 필드는 값이 있을 때만 남긴다
+  return Object.fromEntries(
+    Object.entries(content).filter(([, value]) => value !== undefined)
+  ) as unknown as AssignmentContent;
+}
+
+/**
+ * 네트워크·API 키 없이 동작하는 템플릿 기반 생성기
+ */
+export class OfflineProvider implements LLMProvider {
+  readonly name = 'offline' as const;
+  readonly model = 'template-v1';
+
+  async complete(request: CompletionRequest): Promise<string> {
+    return JSON.stringify(generateOfflineContent(request.assignment));
+  }
+}
@@ -0,0 +1,36 @@
+import { AssignmentType, GapData, GenerationContext } from '../types';
+
+export type ProviderName = 'anthropic' | 'local' | 'offline';
+
+// 문제 생성 요청 — LLM 제공자는 prompt를, 오프라인 생성기는 assignment를 사용한다
+export interface CompletionRequest {
+  prompt: string;
+  assignment: {
+    type: AssignmentType;
+    level: string;
+    gapData: GapData;
+    context?: GenerationContext;
+  };
+  maxTokens?: number;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  /**
+   * 응답 원문 (JSON 문제 한 개를 포함한 텍스트)
+   */
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+export class ProviderError extends Error {
+  provider: ProviderName;
+  details?: any;
+
+  constructor(provider: ProviderName, message: string, details?: any) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.details = details;
+  }
+}
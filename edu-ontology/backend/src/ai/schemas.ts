@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { AssignmentContent, AssignmentType } from './types';
+
+const text = z.string().trim().min(1);
+
+// 선택 필드 — 모델이 흔히 돌려주는 null·빈 문자열은 생략으로 본다
+const optionalText = z.preprocess(value => (value === null || value === '' ? undefined : value), text.optional());
+
+const options = z.array(text).min(2).max(6);
+
+const baseContent = z.object({
+  question: text,
+  options: z.preprocess(value => (value === null ? undefined : value), options.optional()),
+  answer: z.union([text, z.array(text).min(1)]),
+  explanation: text,
+  hint: optionalText,
+  example: optionalText,
+  baseForm: optionalText,
+  acceptedAnswers: z.preprocess(value => (value === null ? undefined : value), z.array(text).optional())
+});
+
+type ContentShape = typeof baseContent;
+
+/**
+ * 보기가 있으면 선다형 — 보기는 서로 달라야 하고 정답은 보기 중 하나여야 한다
+ */
+function multipleChoice<T extends z.ZodType<z.infer<ContentShape>, z.ZodTypeDef, unknown>>(schema: T) {
+  return schema.superRefine((content, ctx) => {
+    if (!content.options) return;
+
+    const normalized = content.options.map(option => option.toLowerCase());
+    if (new Set(normalized).size !== normalized.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'options must be distinct' });
+    }
+
+    const answers = Array.isArray(content.answer) ? content.answer : [content.answer];
+    answers.forEach(answer => {
+      if (!normalized.includes(answer.toLowerCase())) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['answer'],
+          message: `answer "${answer}" must be one of options`
+        });
+      }
+    });
+  });
+}
+
+const choiceContent = multipleChoice(baseContent.extend({ options }));
+const openContent = multipleChoice(baseContent);
+
+export const ASSIGNMENT_SCHEMAS: Record<AssignmentType, z.ZodType<z.infer<ContentShape>, z.ZodTypeDef, unknown>> = {
+  [AssignmentType.SEMANTIC_UNIT]: choiceContent,
+  [AssignmentType.DISCOURSE_MARKER]: choiceContent,
+  [AssignmentType.COLLOCATION]: choiceContent,
+  [AssignmentType.THESAURUS]: choiceContent,
+  [AssignmentType.CONTEXT_GUESS]: choiceContent,
+  [AssignmentType.WORD_FORMATION]: multipleChoice(baseContent.extend({ baseForm: text })),
+  [AssignmentType.REGISTER_MATCH]: choiceContent,
+  [AssignmentType.PRAGMATICS]: choiceContent,
+  [AssignmentType.GRAMMAR_INTEGRATION]: openContent,
+  [AssignmentType.GAP_BRIDGE]: openContent
+};
+
+// 프롬프트에 넣는 유형별 형식 요구사항 (스키마와 같은 규칙)
+export const TYPE_REQUIREMENTS: Record<AssignmentType, string> = {
+  [AssignmentType.SEMANTIC_UNIT]: '"options" 2-6개 필수, "answer"는 options 중 하나',
+  [AssignmentType.DISCOURSE_MARKER]: '"options" 2-6개 필수, "answer"는 options 중 하나',
+  [AssignmentType.COLLOCATION]: '"options" 2-6개 필수, "answer"는 options 중 하나',
+  [AssignmentType.THESAURUS]: '"options" 2-6개 필수, "answer"는 options 중 하나',
+  [AssignmentType.CONTEXT_GUESS]: '"options" 2-6개 필수, "answer"는 options 중 하나',
+  [AssignmentType.WORD_FORMATION]: '"baseForm"(변형 전 기본형 단어) 필수, options가 있으면 "answer"는 options 중 하나',
+  [AssignmentType.REGISTER_MATCH]: '"options" 2-6개 필수, "answer"는 options 중 하나',
+  [AssignmentType.PRAGMATICS]: '"options" 2-6개 필수, "answer"는 options 중 하나',
+  [AssignmentType.GRAMMAR_INTEGRATION]: 'options가 있으면 "answer"는 options 중 하나, 없으면 정답으로 인정할 다른 표기를 "acceptedAnswers"에',
+  [AssignmentType.GAP_BRIDGE]: 'options가 있으면 "answer"는 options 중 하나, 없으면 정답으로 인정할 다른 표기를 "acceptedAnswers"에'
+};
+
+export type ContentValidation =
+  | { success: true; content: AssignmentContent }
+  | { success: false; errors: string[] };
+
+/**
+ * 응답 텍스트에서 JSON 객체 추출 — 전체, ```json 블록, 첫 `{`부터 짝이 맞는 `}`까지 순서로 시도
+ */
+function extractJson(raw: string): unknown {
+  const candidates = [raw.trim()];
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced?.[1]) candidates.push(fenced[1].trim());
+
+  const start = raw.indexOf('{');
+  if (start !== -1) {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < raw.length; i++) {
+      const char = raw[i];
+      if (inString) {
+        if (char === '\\') i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        candidates.push(raw.slice(start, i + 1));
+        break;
+      }
+    }
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // 다음 후보
+    }
+  }
+  throw new Error('response does not contain a JSON object');
+}
+
+/**
+ * 모델 응답을 유형별 스키마로 검증 — 실패 시 수정 요청에 그대로 쓸 수 있는 오류 목록
+ */
+export function validateAssignmentContent(type: AssignmentType, raw: string): ContentValidation {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(raw);
+  } catch (error) {
+    return { success: false, errors: [error instanceof Error ? error.message : 'invalid JSON'] };
+  }
+
+  const result = ASSIGNMENT_SCHEMAS[type].safeParse(parsed);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(issue =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      )
+    };
+  }
+  // 생략된 선택 필드는 키도 남기지 않는다
+  const content = Object.fromEntries(Object.entries(result.data).filter(([, value]) => value !== undefined));
+  return { success: true, content: content as unknown as AssignmentContent };
+}
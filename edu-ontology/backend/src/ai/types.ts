@@ -27,6 +27,8 @@ export interface AssignmentContent {
   explanation: string;
   hint?: string;
   example?: string;
+  baseForm?: string; // 어형 변화 문제의 기본형
+  acceptedAnswers?: string[]; // 정답으로 인정하는 변형 (철자·표기 차이)
 }
 
 export interface GapData {
@@ -38,6 +40,12 @@ export interface GapData {
   strengths: string[];
 }
 
+// 문제 생성에 쓸 어휘·지문 자료 (오프라인 생성기의 재료)
+export interface GenerationContext {
+  definitions?: Record<string, string>; // 단어 → 뜻
+  passages?: Array<{ title?: string; content: string }>;
+}
+
 export interface LevelAdapter {
   adapt: (assignment: AssignmentContent, level: string) => AssignmentContent;
 }
\ No newline at end of file
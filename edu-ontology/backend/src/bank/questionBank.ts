@@ -0,0 +1,131 @@
+import { BankItem, Prisma, PrismaClient } from '@prisma/client';
+import { Assignment, AssignmentContent, AssignmentType } from '../ai/types';
+import { findNearDuplicate, questionSignature } from './similarity';
+
+// 같은 학생에게 같은 문항을 다시 내지 않는 기간
+export const DEFAULT_UNSEEN_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DRAW_CANDIDATES = 50;
+
+export interface BankDrawParams {
+  studentId: string;
+  type: AssignmentType;
+  difficulty: Assignment['difficulty'];
+  vocabulary: string[];  // 약점 어휘 (앞쪽이 더 약함)
+  unseenDays?: number;
+  exclude?: string[];    // 이미 고른 문항
+}
+
+/**
+ * 문항에 쓰인 첫 번째 약점 어휘 — 은행의 어휘 키
+ */
+export function targetVocabulary(content: AssignmentContent, vocabulary: string[]): string | null {
+  const text = [
+    content.question,
+    ...(Array.isArray(content.answer) ? content.answer : [content.answer]),
+    ...(content.options || []),
+    content.example || '',
+    content.baseForm || ''
+  ].join('\n');
+
+  return vocabulary.find(word => {
+    const escaped = word.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return escaped && new RegExp(`\\b${escaped}\\b`, 'i').test(text);
+  }) ?? null;
+}
+
+export class QuestionBank {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * 학생이 unseenDays 안에 받지 않은 문항 하나
+   * 더 약한 어휘의 문항, 어휘와 무관한 문항, 덜 쓰인 문항 순으로 고른다.
+   */
+  async draw(params: BankDrawParams): Promise<BankItem | null> {
+    const { studentId, type, difficulty, vocabulary, unseenDays = DEFAULT_UNSEEN_DAYS, exclude = [] } = params;
+    const since = new Date(Date.now() - unseenDays * DAY_MS);
+
+    const candidates = await this.prisma.bankItem.findMany({
+      where: {
+        type,
+        difficulty,
+        id: { notIn: exclude },
+        OR: [{ vocabulary: { in: vocabulary } }, { vocabulary: null }],
+        assignments: { none: { studentId, createdAt: { gte: since } } }
+      },
+      orderBy: [{ usageCount: 'asc' }, { createdAt: 'asc' }],
+      take: DRAW_CANDIDATES
+    });
+
+    const rank = (item: BankItem) =>
+      item.vocabulary === null ? vocabulary.length : vocabulary.indexOf(item.vocabulary);
+    return candidates.sort((a, b) => rank(a) - rank(b) || a.usageCount - b.usageCount)[0] ?? null;
+  }
+
+  /**
+   * 생성한 문항을 은행에 추가
+   * 같은 키(유형·난이도·어휘)에 거의 같은 문항이 있으면 새로 만들지 않고 그 문항을 돌려준다.
+   */
+  async add(
+    assignment: Assignment,
+    vocabulary: string[]
+  ): Promise<{ item: BankItem; duplicate: boolean; similarity?: number }> {
+    const key = targetVocabulary(assignment.content, vocabulary);
+    const existing = await this.prisma.bankItem.findMany({
+      where: { type: assignment.type, difficulty: assignment.difficulty, vocabulary: key }
+    });
+
+    const duplicate = findNearDuplicate(assignment.content, existing, item => item.signature);
+    if (duplicate) {
+      return { item: duplicate.item, duplicate: true, similarity: duplicate.similarity };
+    }
+
+    const item = await this.prisma.bankItem.create({
+      data: {
+        type: assignment.type,
+        difficulty: assignment.difficulty,
+        vocabulary: key,
+        content: assignment.content as unknown as Prisma.InputJsonValue,
+        signature: questionSignature(assignment.content),
+        source: assignment.metadata?.provider ?? 'unknown'
+      }
+    });
+    return { item, duplicate: false };
+  }
+
+  // 학생이 unseenDays 안에 이 문항을 받았는지
+  async seenBy(itemId: string, studentId: string, unseenDays: number = DEFAULT_UNSEEN_DAYS): Promise<boolean> {
+    const count = await this.prisma.assignment.count({
+      where: {
+        bankItemId: itemId,
+        studentId,
+        createdAt: { gte: new Date(Date.now() - unseenDays * DAY_MS) }
+      }
+    });
+    return count > 0;
+  }
+
+  async recordUse(itemId: string): Promise<void> {
+    await this.prisma.bankItem.update({
+      where: { id: itemId },
+      data: { usageCount: { increment: 1 }, lastUsedAt: new Date() }
+    });
+  }
+
+  toAssignment(item: BankItem, level: string): Assignment {
+    const content = item.content as unknown as AssignmentContent;
+    return {
+      type: item.type as AssignmentType,
+      content,
+      difficulty: item.difficulty as Assignment['difficulty'],
+      level,
+      metadata: {
+        optionsProvided: !!content.options,
+        hintProvided: !!content.hint,
+        exampleProvided: !!content.example,
+        provider: item.source
+      }
+    };
+  }
+}
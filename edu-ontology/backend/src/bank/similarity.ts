@@ -0,0 +1,82 @@
+// 문항 중복 판정 — 정규화한 문항 텍스트의 문자 n-gram Jaccard 유사도
+
+export const NEAR_DUPLICATE_THRESHOLD = 0.85;
+const NGRAM_SIZE = 3;
+
+export interface QuestionText {
+  question: string;
+  answer: string | string[];
+  options?: string[] | null;
+}
+
+/**
+ * 대소문자·구두점·공백 차이를 없앤 텍스트
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/_{2,}/g, ' _ ')
+    .replace(/[^\p{L}\p{N}_\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 비교 대상 문자열 — 질문, 정답, 정렬한 보기 (보기 순서만 바뀐 문항은 같은 문항)
+ */
+export function questionSignature(item: QuestionText): string {
+  const answers = Array.isArray(item.answer) ? item.answer : [item.answer];
+  const options = [...(item.options || [])].map(normalizeText).sort();
+  return [normalizeText(item.question), answers.map(normalizeText).sort().join(' '), options.join(' ')]
+    .join(' | ');
+}
+
+export function characterNgrams(text: string, size: number = NGRAM_SIZE): Set<string> {
+  const grams = new Set<string>();
+  if (text.length <= size) {
+    if (text) grams.add(text);
+    return grams;
+  }
+  for (let i = 0; i <= text.length - size; i++) {
+    grams.add(text.slice(i, i + size));
+  }
+  return grams;
+}
+
+export function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(gram => {
+    if (b.has(gram)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+export function questionSimilarity(a: QuestionText, b: QuestionText): number {
+  return jaccardSimilarity(characterNgrams(questionSignature(a)), characterNgrams(questionSignature(b)));
+}
+
+/**
+ * 후보와 가장 비슷한 기존 문항 (유사도가 threshold 이상일 때만)
+ * 기존 문항은 저장해 둔 questionSignature로 비교하므로 다시 정규화하지 않는다.
+ */
+export function findNearDuplicate<T>(
+  candidate: QuestionText,
+  existing: T[],
+  signatureOf: (item: T) => string,
+  threshold: number = NEAR_DUPLICATE_THRESHOLD
+): { item: T; similarity: number } | null {
+  const signature = questionSignature(candidate);
+  const grams = characterNgrams(signature);
+  let best: { item: T; similarity: number } | null = null;
+
+  for (const item of existing) {
+    const stored = signatureOf(item);
+    const similarity = stored === signature ? 1 : jaccardSimilarity(grams, characterNgrams(stored));
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { item, similarity };
+    }
+  }
+  return best;
+}
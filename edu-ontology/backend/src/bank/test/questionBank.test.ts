@@ -0,0 +1,79 @@
+/**
+ * Question Bank Tests
+ * unseenDays 안에 받은 문항을 빼고, 약한 어휘·덜 쓰인 문항 순으로 고르는지 검증한다
+ */
+
+import { BankItem, PrismaClient } from '@prisma/client';
+import { AssignmentType } from '../../ai/types';
+import { DEFAULT_UNSEEN_DAYS, QuestionBank } from '../questionBank';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const bankItem = (id: string, vocabulary: string | null, usageCount = 0): BankItem => ({
+  id,
+  type: AssignmentType.CONTEXT_GUESS,
+  difficulty: 'medium',
+  vocabulary,
+  content: { question: id, answer: 'a', explanation: '' },
+  signature: id,
+  source: 'offline',
+  usageCount,
+  lastUsedAt: null,
+  createdAt: new Date(0)
+});
+
+// findMany 인자를 기록하고 주어진 후보를 돌려주는 가짜 클라이언트
+function fakePrisma(candidates: BankItem[]) {
+  const findMany = jest.fn().mockResolvedValue(candidates);
+  return { findMany, prisma: { bankItem: { findMany } } as unknown as PrismaClient };
+}
+
+const params = {
+  studentId: 'student-1',
+  type: AssignmentType.CONTEXT_GUESS,
+  difficulty: 'medium' as const,
+  vocabulary: ['weakest', 'weak']
+};
+
+describe('QuestionBank.draw', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-10T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should only ask for items the student has not been given in the last unseen days', async () => {
+    const { findMany, prisma } = fakePrisma([]);
+
+    await new QuestionBank(prisma).draw({ ...params, exclude: ['picked'] });
+    await new QuestionBank(prisma).draw({ ...params, unseenDays: 30 });
+
+    const [first, second] = findMany.mock.calls.map(([args]) => args.where);
+    expect(first.id).toEqual({ notIn: ['picked'] });
+    expect(first.assignments).toEqual({
+      none: { studentId: 'student-1', createdAt: { gte: new Date(Date.now() - DEFAULT_UNSEEN_DAYS * DAY_MS) } }
+    });
+    expect(second.assignments.none.createdAt.gte).toEqual(new Date(Date.now() - 30 * DAY_MS));
+  });
+
+  test('should prefer the weakest vocabulary, then items without one, then the least used', async () => {
+    const { prisma } = fakePrisma([
+      bankItem('general', null),
+      bankItem('weak', 'weak'),
+      bankItem('weakest-used', 'weakest', 3),
+      bankItem('weakest-fresh', 'weakest', 1)
+    ]);
+
+    const item = await new QuestionBank(prisma).draw(params);
+
+    expect(item?.id).toBe('weakest-fresh');
+  });
+
+  test('should return null when every item was seen', async () => {
+    const { prisma } = fakePrisma([]);
+
+    expect(await new QuestionBank(prisma).draw(params)).toBeNull();
+  });
+});
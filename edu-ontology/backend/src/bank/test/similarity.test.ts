@@ -0,0 +1,88 @@
+/**
+ * Question Similarity Tests
+ * 텍스트 정규화, n-gram Jaccard 유사도, 보기 순서 무시, 저장된 서명 비교를 검증한다
+ */
+
+import {
+  characterNgrams,
+  findNearDuplicate,
+  jaccardSimilarity,
+  normalizeText,
+  questionSignature,
+  questionSimilarity
+} from '../similarity';
+
+describe('normalizeText', () => {
+  test('should drop case, punctuation and extra whitespace', () => {
+    expect(normalizeText('  What does  "Rapid" mean?! ')).toBe('what does rapid mean');
+  });
+
+  test('should collapse blanks of any length into one marker', () => {
+    expect(normalizeText('She ___ to school.')).toBe(normalizeText('She _____ to school'));
+  });
+
+  test('should fold full-width characters', () => {
+    expect(normalizeText('ＡＢＣ１２３')).toBe('abc123');
+  });
+});
+
+describe('n-gram Jaccard similarity', () => {
+  test('should build overlapping character trigrams', () => {
+    expect([...characterNgrams('abcd')]).toEqual(['abc', 'bcd']);
+    expect([...characterNgrams('ab')]).toEqual(['ab']);
+    expect(characterNgrams('').size).toBe(0);
+  });
+
+  test('should be the shared share of all grams', () => {
+    expect(jaccardSimilarity(new Set(['a', 'b']), new Set(['b', 'c']))).toBeCloseTo(1 / 3);
+    expect(jaccardSimilarity(new Set(), new Set())).toBe(1);
+    expect(jaccardSimilarity(new Set(['a']), new Set(['b']))).toBe(0);
+  });
+});
+
+describe('questionSimilarity', () => {
+  const question = {
+    question: 'Choose the word closest in meaning to "rapid".',
+    answer: 'fast',
+    options: ['fast', 'slow', 'late', 'calm']
+  };
+
+  test('should ignore option order', () => {
+    const shuffled = { ...question, options: ['calm', 'late', 'slow', 'fast'] };
+
+    expect(questionSignature(shuffled)).toBe(questionSignature(question));
+    expect(questionSimilarity(question, shuffled)).toBe(1);
+  });
+
+  test('should match a repunctuated question but not an unrelated one', () => {
+    const repunctuated = { ...question, question: 'Choose the word closest in meaning to "rapid"' };
+    const unrelated = { question: 'What is the past tense of "go"?', answer: 'went', options: null };
+
+    expect(questionSimilarity(question, repunctuated)).toBe(1);
+    expect(questionSimilarity(question, unrelated)).toBeLessThan(0.3);
+  });
+});
+
+describe('findNearDuplicate', () => {
+  const stored = [
+    { id: 'rapid', signature: questionSignature({ question: 'Choose the synonym of "rapid".', answer: 'fast' }) },
+    { id: 'went', signature: questionSignature({ question: 'Past tense of "go"?', answer: 'went' }) }
+  ];
+
+  test('should compare against the stored signature', () => {
+    const duplicate = findNearDuplicate(
+      { question: 'choose the synonym of rapid', answer: 'Fast' },
+      stored,
+      item => item.signature
+    );
+
+    expect(duplicate).toEqual({ item: stored[0], similarity: 1 });
+  });
+
+  test('should return null below the threshold', () => {
+    const candidate = { question: 'Choose the antonym of "rapid".', answer: 'slow' };
+
+    expect(findNearDuplicate(candidate, stored, item => item.signature)).toBeNull();
+    expect(findNearDuplicate(candidate, stored, item => item.signature, 0.5)?.item.id).toBe('rapid');
+  });
+});
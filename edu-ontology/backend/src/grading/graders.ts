@@ -0,0 +1,418 @@
+import { normalizeText } from '../bank/similarity';
+import {
+  AnswerKey,
+  GradeFeedback,
+  GradeReason,
+  GradeResult,
+  GradedCriterion,
+  GradedItem,
+  Grader,
+  RubricCriterion
+} from './types';
+
+// 철자 실수로 보고 부분 점수를 주는 유사도 (짧은 단어는 제외)
+const TYPO_SIMILARITY = 0.85;
+const MIN_TYPO_LENGTH = 4;
+const PARTIAL_CREDIT = 0.5;
+
+// 서술형은 이 점수 이상이면 정답으로 본다
+export const ESSAY_PASS_SCORE = 0.7;
+
+const SUFFIXES = [
+  'ational', 'ations', 'itions', 'nesses', 'ation', 'ition', 'ments', 'ities', 'ively', 'ingly',
+  'ances', 'ences', 'ment', 'ness', 'ings', 'edly', 'ance', 'ence', 'ants', 'ents', 'ions', 'sion',
+  'tion', 'ity', 'ive', 'ing', 'ant', 'ent', 'ion', 'ers', 'ies', 'er', 'ed', 'es', 'ly', 'al', 's'
+];
+
+const STOPWORDS = new Set([
+  'that', 'this', 'with', 'from', 'have', 'there', 'their', 'which', 'would', 'about', 'because',
+  'they', 'them', 'then', 'than', 'what', 'when', 'were', 'will', 'into', 'also', 'more', 'some'
+]);
+
+export function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j]! + 1, current[j - 1]! + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+export function stringSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : (length - levenshteinDistance(a, b)) / length;
+}
+
+/**
+ * 가벼운 영어 어간 추출 — 굴절·파생 접미사 하나를 떼고 끝 글자를 정리한다
+ */
+export function stem(word: string): string {
+  let result = normalizeText(word);
+  if (result.includes(' ')) return result;
+
+  const suffix = SUFFIXES.find(candidate => result.endsWith(candidate) && result.length - candidate.length >= 3);
+  if (suffix) {
+    result = result.slice(0, -suffix.length) + (suffix === 'ies' ? 'i' : '');
+  }
+  return result.replace(/([^aeiou])\1$/, '$1').replace(/e$/, '').replace(/y$/, 'i');
+}
+
+/**
+ * 같은 단어족인지 (decide / decision, happy / happiness)
+ */
+export function sameWordFamily(a: string, b: string): boolean {
+  const first = stem(a);
+  const second = stem(b);
+  if (!first || !second) return false;
+  if (first === second) return true;
+
+  let prefix = 0;
+  while (prefix < first.length && first[prefix] === second[prefix]) prefix++;
+  return prefix >= 4 && prefix >= 0.75 * Math.min(first.length, second.length);
+}
+
+// 정답과 허용 변형
+function acceptedVariants(key: AnswerKey): string[] {
+  const answers = typeof key.answer === 'string' ? [key.answer] : Array.isArray(key.answer) ? key.answer : [];
+  return [...answers, ...(key.acceptedAnswers || [])];
+}
+
+function expectedText(key: AnswerKey): string {
+  if (typeof key.answer === 'string') return key.answer;
+  if (Array.isArray(key.answer)) return key.answer.join(', ');
+  if (key.answer) return Object.entries(key.answer).map(([left, right]) => `${left} → ${right}`).join(', ');
+  return '';
+}
+
+function sameText(a: string, b: string): boolean {
+  const first = normalizeText(a);
+  const second = normalizeText(b);
+  return first || second ? first === second : a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function responseText(response: unknown): string | null {
+  if (typeof response === 'string') return response;
+  if (typeof response === 'number') return String(response);
+  if (Array.isArray(response) && response.length === 1) return responseText(response[0]);
+  return null;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 목록 응답 — 배열, JSON 배열, 또는 줄바꿈·|·→·;·, 로 나눈 문자열
+ */
+export function toList(value: unknown): string[] | null {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim();
+  const parsed = trimmed.startsWith('[') ? parseJson(trimmed) : undefined;
+  if (Array.isArray(parsed)) return parsed.map(String);
+
+  const delimiter = [/\n/, /\|/, /->|→/, /;/, /,/].find(pattern => pattern.test(trimmed));
+  const items = delimiter ? trimmed.split(delimiter) : [trimmed];
+  return items.map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * 짝 응답 — { 왼쪽: 오른쪽 }, [왼쪽, 오른쪽] 배열, {left, right} 배열, 또는 "a → b" 줄
+ */
+export function toPairs(value: unknown): Array<[string, string]> | null {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    const parsed = /^[[{]/.test(trimmed) ? parseJson(trimmed) : undefined;
+    if (parsed !== undefined) return toPairs(parsed);
+
+    return trimmed
+      .split(/\n|;|,/)
+      .map(line => line.split(/\s*(?:->|→|=|:)\s*/))
+      .filter((parts): parts is [string, string] => parts.length === 2 && !!parts[0]?.trim() && !!parts[1]?.trim())
+      .map(([left, right]) => [left.trim(), right.trim()]);
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((pair): Array<[string, string]> => {
+      if (Array.isArray(pair) && pair.length === 2) return [[String(pair[0]), String(pair[1])]];
+      if (pair && typeof pair === 'object' && 'left' in pair && 'right' in pair) {
+        return [[String(pair.left), String(pair.right)]];
+      }
+      return [];
+    });
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.entries(value).map(([left, right]): [string, string] => [left, String(right)]);
+  }
+  return null;
+}
+
+function graded(score: number, isCorrect: boolean, feedback: Omit<GradeFeedback, 'verdict'>): GradeResult {
+  const verdict = isCorrect ? 'correct' : score > 0 ? 'partial' : 'incorrect';
+  return { score, isCorrect, feedback: { ...feedback, verdict } };
+}
+
+function unanswered(grader: string, key: AnswerKey, response: unknown, reason: GradeReason): GradeResult {
+  return graded(0, false, {
+    grader,
+    message: reason === 'no_answer' ? 'No answer was given.' : 'This question has no answer key and needs manual review.',
+    expected: key.answer,
+    given: response ?? null,
+    reason
+  });
+}
+
+function isBlank(response: unknown): boolean {
+  return response === null || response === undefined || (typeof response === 'string' && !response.trim());
+}
+
+/**
+ * 고른 답을 보기 텍스트로 — 보기 글자(A, b)나 번호(1부터)도 받는다
+ * 어느 보기와도 맞지 않으면 그대로 돌려준다.
+ */
+export function resolveOption(given: string, options: string[] | null | undefined): string {
+  if (!options?.length) return given;
+  const match = options.find(option => sameText(option, given));
+  if (match !== undefined) return match;
+
+  const trimmed = given.trim();
+  const index = /^[a-z]$/i.test(trimmed)
+    ? trimmed.toLowerCase().charCodeAt(0) - 97
+    : /^\d+$/.test(trimmed) ? parseInt(trimmed) - 1 : -1;
+  return options[index] ?? given;
+}
+
+export const gradeMultipleChoice: Grader = (key, response) => {
+  const grader = 'multiple_choice';
+  const given = responseText(response);
+  if (given === null || isBlank(given)) return unanswered(grader, key, response, 'no_answer');
+
+  const chosen = resolveOption(given, key.options);
+  const variant = acceptedVariants(key).find(candidate => sameText(candidate, chosen));
+  if (variant !== undefined) {
+    return graded(1, true, { grader, message: 'Correct.', expected: key.answer, given: chosen, matchedVariant: variant });
+  }
+  return graded(0, false, {
+    grader,
+    message: `The correct answer is: ${expectedText(key)}.`,
+    expected: key.answer,
+    given: chosen
+  });
+};
+
+export const gradeFillBlank: Grader = (key, response) => {
+  const grader = 'fill_blank';
+  const given = responseText(response);
+  if (given === null || isBlank(given)) return unanswered(grader, key, response, 'no_answer');
+
+  const variants = acceptedVariants(key);
+  if (variants.length === 0) return unanswered(grader, key, response, 'needs_review');
+
+  const variant = variants.find(candidate => sameText(candidate, given));
+  if (variant !== undefined) {
+    return graded(1, true, { grader, message: 'Correct.', expected: key.answer, given, matchedVariant: variant });
+  }
+
+  const normalized = normalizeText(given);
+  const closest = variants
+    .map(candidate => ({ candidate, similarity: stringSimilarity(normalizeText(candidate), normalized) }))
+    .sort((a, b) => b.similarity - a.similarity)[0]!;
+  if (closest.similarity >= TYPO_SIMILARITY && normalizeText(closest.candidate).length >= MIN_TYPO_LENGTH) {
+    return graded(PARTIAL_CREDIT, false, {
+      grader,
+      message: `Almost: check the spelling of "${closest.candidate}".`,
+      expected: key.answer,
+      given,
+      matchedVariant: closest.candidate,
+      reason: 'typo'
+    });
+  }
+
+  return graded(0, false, {
+    grader,
+    message: `The correct answer is: ${expectedText(key)}.`,
+    expected: key.answer,
+    given
+  });
+};
+
+/**
+ * 어형 변화 — 정확한 형태만 만점, 같은 단어족의 다른 형태는 부분 점수
+ */
+export const gradeWordFormation: Grader = (key, response) => {
+  const grader = 'word_formation';
+  const given = responseText(response);
+  if (given === null || isBlank(given)) return unanswered(grader, key, response, 'no_answer');
+
+  const variants = acceptedVariants(key);
+  if (variants.length === 0) return unanswered(grader, key, response, 'needs_review');
+
+  const variant = variants.find(candidate => sameText(candidate, given));
+  if (variant !== undefined) {
+    return graded(1, true, { grader, message: 'Correct.', expected: key.answer, given, matchedVariant: variant });
+  }
+
+  const family = [...variants, ...(key.baseForm ? [key.baseForm] : [])];
+  if (family.some(word => sameWordFamily(word, given))) {
+    return graded(PARTIAL_CREDIT, false, {
+      grader,
+      message: `"${given.trim()}" is the right word, but the sentence needs the form "${expectedText(key)}".`,
+      expected: key.answer,
+      given,
+      reason: 'wrong_form'
+    });
+  }
+
+  return graded(0, false, {
+    grader,
+    message: `The correct answer is: ${expectedText(key)}.`,
+    expected: key.answer,
+    given
+  });
+};
+
+/**
+ * 순서 배열 — 상대 순서가 맞는 항목 쌍의 비율 (빠진 항목이 든 쌍은 틀린 것으로 본다)
+ */
+export const gradeOrdering: Grader = (key, response) => {
+  const grader = 'ordering';
+  const expected = toList(key.answer) ?? [];
+  if (expected.length === 0) return unanswered(grader, key, response, 'needs_review');
+
+  const given = toList(response) ?? [];
+  if (given.length === 0) return unanswered(grader, key, response, 'no_answer');
+
+  const position = new Map<string, number>();
+  given.forEach((item, index) => {
+    const normalized = normalizeText(item);
+    if (!position.has(normalized)) position.set(normalized, index);
+  });
+
+  const items: GradedItem[] = expected.map((item, index) => ({
+    key: String(index + 1),
+    expected: item,
+    given: given[index] ?? null,
+    correct: given[index] !== undefined && sameText(given[index]!, item)
+  }));
+
+  let concordant = 0;
+  let pairs = 0;
+  for (let i = 0; i < expected.length; i++) {
+    for (let j = i + 1; j < expected.length; j++) {
+      pairs++;
+      const first = position.get(normalizeText(expected[i]!));
+      const second = position.get(normalizeText(expected[j]!));
+      if (first !== undefined && second !== undefined && first < second) concordant++;
+    }
+  }
+
+  const isCorrect = items.every(item => item.correct) && given.length === expected.length;
+  const score = isCorrect ? 1 : pairs > 0 ? concordant / pairs : 0;
+  return graded(score, isCorrect, {
+    grader,
+    message: isCorrect ? 'Correct order.' : `${concordant} of ${pairs} item pairs are in the right order.`,
+    expected: key.answer,
+    given,
+    items,
+    ...(!isCorrect && { reason: 'order' as const })
+  });
+};
+
+/**
+ * 연결 — 맞게 이은 짝의 비율
+ */
+export const gradeMatching: Grader = (key, response) => {
+  const grader = 'matching';
+  const expected = toPairs(key.answer) ?? [];
+  if (expected.length === 0) return unanswered(grader, key, response, 'needs_review');
+
+  const givenPairs = toPairs(response) ?? [];
+  if (givenPairs.length === 0) return unanswered(grader, key, response, 'no_answer');
+
+  const given = new Map(givenPairs.map(([left, right]) => [normalizeText(left), right]));
+  const items: GradedItem[] = expected.map(([left, right]) => {
+    const match = given.get(normalizeText(left)) ?? null;
+    return { key: left, expected: right, given: match, correct: match !== null && sameText(match, right) };
+  });
+
+  const correct = items.filter(item => item.correct).length;
+  const isCorrect = correct === items.length;
+  return graded(correct / items.length, isCorrect, {
+    grader,
+    message: isCorrect ? 'All pairs matched.' : `${correct} of ${items.length} pairs matched.`,
+    expected: key.answer,
+    given: Object.fromEntries(givenPairs),
+    items,
+    ...(!isCorrect && { reason: 'pairs' as const })
+  });
+};
+
+// 채점 기준이 없는 서술형 — 모범 답안의 핵심 단어를 얼마나 다뤘는지
+function modelAnswerRubric(key: AnswerKey): RubricCriterion[] | null {
+  const text = typeof key.answer === 'string' ? key.answer : Array.isArray(key.answer) ? key.answer.join(' ') : '';
+  const keywords = [...new Set(normalizeText(text).split(' '))]
+    .filter(word => word.length >= 4 && !STOPWORDS.has(word));
+  if (keywords.length === 0) return null;
+
+  return [{
+    id: 'model_answer',
+    description: 'Covers the key terms of the model answer',
+    points: 1,
+    keywords,
+    minMatches: Math.ceil(keywords.length * 0.6)
+  }];
+}
+
+function mentions(text: string, stems: Set<string>, keyword: string): boolean {
+  const normalized = normalizeText(keyword);
+  if (!normalized) return false;
+  return normalized.includes(' ') ? ` ${text} `.includes(` ${normalized} `) : stems.has(stem(normalized));
+}
+
+/**
+ * 서술형 — 기준마다 키워드 언급 수에 비례한 점수, 전체는 배점 합 대비 비율
+ */
+export const gradeEssay: Grader = (key, response) => {
+  const grader = 'essay';
+  const given = Array.isArray(response) ? response.map(String).join('\n') : responseText(response);
+  if (given === null || isBlank(given)) return unanswered(grader, key, response, 'no_answer');
+
+  const rubric = key.rubric?.length ? key.rubric : modelAnswerRubric(key);
+  if (!rubric) return unanswered(grader, key, response, 'needs_review');
+
+  const text = normalizeText(given);
+  const stems = new Set(text.split(' ').map(stem));
+  const criteria: GradedCriterion[] = rubric.map(criterion => {
+    const matched = criterion.keywords.filter(keyword => mentions(text, stems, keyword));
+    const required = Math.max(1, criterion.minMatches ?? 1);
+    return {
+      id: criterion.id,
+      description: criterion.description,
+      points: criterion.points,
+      earned: criterion.points * Math.min(1, matched.length / required),
+      matched
+    };
+  });
+
+  const total = criteria.reduce((sum, criterion) => sum + criterion.points, 0);
+  const score = total > 0 ? criteria.reduce((sum, criterion) => sum + criterion.earned, 0) / total : 0;
+  const missing = criteria.filter(criterion => criterion.earned < criterion.points).map(criterion => criterion.description);
+  return graded(score, score >= ESSAY_PASS_SCORE, {
+    grader,
+    message: `${Math.round(score * 100)}% of the rubric covered.${missing.length > 0 ? ` Missing: ${missing.join('; ')}.` : ''}`,
+    expected: key.answer,
+    given,
+    criteria,
+    reason: 'rubric'
+  });
+};
@@ -0,0 +1,38 @@
+import {
+  gradeEssay,
+  gradeFillBlank,
+  gradeMatching,
+  gradeMultipleChoice,
+  gradeOrdering,
+  gradeWordFormation
+} from './graders';
+import { AnswerKey, GradeResult, Grader } from './types';
+
+export * from './types';
+export { ESSAY_PASS_SCORE, resolveOption, sameWordFamily, stem, stringSimilarity, toList, toPairs } from './graders';
+
+// 문항 유형 → 채점기 (Question.type, AssignmentType 모두 키로 쓴다)
+const graders = new Map<string, Grader>([
+  ['multiple_choice', gradeMultipleChoice],
+  ['fill_blank', gradeFillBlank],
+  ['short_answer', gradeFillBlank],
+  ['word_formation', gradeWordFormation],
+  ['ordering', gradeOrdering],
+  ['matching', gradeMatching],
+  ['essay', gradeEssay]
+]);
+
+export function registerGrader(type: string, grader: Grader): void {
+  graders.set(type, grader);
+}
+
+/**
+ * 등록되지 않은 유형은 보기가 있으면 선다형, 없으면 빈칸 채우기로 채점
+ */
+export function resolveGrader(key: AnswerKey): Grader {
+  return graders.get(key.type) ?? (key.options?.length ? gradeMultipleChoice : gradeFillBlank);
+}
+
+export function gradeAnswer(key: AnswerKey, response: unknown): GradeResult {
+  return resolveGrader(key)(key, response);
+}
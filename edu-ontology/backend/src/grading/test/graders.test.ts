@@ -0,0 +1,181 @@
+/**
+ * Grader Tests
+ * 유형별 채점기의 점수, 부분 점수, 피드백 이유와 채점기 선택을 검증한다
+ */
+
+import {
+  gradeEssay,
+  gradeFillBlank,
+  gradeMatching,
+  gradeMultipleChoice,
+  gradeOrdering,
+  gradeWordFormation,
+  sameWordFamily,
+  toPairs
+} from '../graders';
+import { AnswerKey, gradeAnswer, resolveGrader } from '../index';
+
+const key = (type: string, answer: AnswerKey['answer'], extra: Partial<AnswerKey> = {}): AnswerKey => ({
+  type,
+  answer,
+  ...extra
+});
+
+describe('gradeMultipleChoice', () => {
+  const question = key('multiple_choice', 'rapid', { options: ['slow', 'rapid', 'late', 'calm'] });
+
+  test('should accept the option text regardless of case and punctuation', () => {
+    const result = gradeMultipleChoice(question, ' Rapid. ');
+
+    expect(result.score).toBe(1);
+    expect(result.isCorrect).toBe(true);
+    expect(result.feedback.verdict).toBe('correct');
+  });
+
+  test('should resolve option letters and 1-based numbers', () => {
+    expect(gradeMultipleChoice(question, 'B').isCorrect).toBe(true);
+    expect(gradeMultipleChoice(question, 'b').isCorrect).toBe(true);
+    expect(gradeMultipleChoice(question, '2').isCorrect).toBe(true);
+    expect(gradeMultipleChoice(question, 2).isCorrect).toBe(true);
+
+    const wrong = gradeMultipleChoice(question, 'A');
+    expect(wrong.isCorrect).toBe(false);
+    expect(wrong.feedback.given).toBe('slow');
+  });
+
+  test('should accept listed variants', () => {
+    const result = gradeMultipleChoice(key('multiple_choice', 'colour', { acceptedAnswers: ['color'] }), 'color');
+
+    expect(result.isCorrect).toBe(true);
+    expect(result.feedback.matchedVariant).toBe('color');
+  });
+
+  test('should report a blank answer', () => {
+    const result = gradeMultipleChoice(question, '  ');
+
+    expect(result.score).toBe(0);
+    expect(result.feedback.reason).toBe('no_answer');
+  });
+});
+
+describe('gradeFillBlank', () => {
+  test('should give partial credit for a near-miss spelling', () => {
+    const result = gradeFillBlank(key('fill_blank', 'necessary'), 'neccessary');
+
+    expect(result.score).toBe(0.5);
+    expect(result.isCorrect).toBe(false);
+    expect(result.feedback.verdict).toBe('partial');
+    expect(result.feedback.reason).toBe('typo');
+  });
+
+  test('should not treat a different short word as a typo', () => {
+    const result = gradeFillBlank(key('fill_blank', 'cat'), 'cut');
+
+    expect(result.score).toBe(0);
+    expect(result.feedback.verdict).toBe('incorrect');
+  });
+
+  test('should ask for review when there is no answer key', () => {
+    expect(gradeFillBlank(key('fill_blank', null), 'anything').feedback.reason).toBe('needs_review');
+  });
+});
+
+describe('gradeWordFormation', () => {
+  const question = key('word_formation', 'decision', { baseForm: 'decide' });
+
+  test('should give full credit only for the exact form', () => {
+    expect(gradeWordFormation(question, 'Decision').score).toBe(1);
+  });
+
+  test('should give partial credit for the right word in the wrong form', () => {
+    const result = gradeWordFormation(question, 'decided');
+
+    expect(result.score).toBe(0.5);
+    expect(result.feedback.reason).toBe('wrong_form');
+  });
+
+  test('should give no credit for an unrelated word', () => {
+    expect(gradeWordFormation(question, 'choice').score).toBe(0);
+  });
+
+  test('should recognize word families', () => {
+    expect(sameWordFamily('happy', 'happiness')).toBe(true);
+    expect(sameWordFamily('decide', 'decision')).toBe(true);
+    expect(sameWordFamily('happy', 'harbor')).toBe(false);
+  });
+});
+
+describe('gradeOrdering', () => {
+  const question = key('ordering', ['first', 'second', 'third']);
+
+  test('should give full credit for the right order in any list format', () => {
+    expect(gradeOrdering(question, ['first', 'second', 'third']).isCorrect).toBe(true);
+    expect(gradeOrdering(question, 'first → second → third').isCorrect).toBe(true);
+  });
+
+  test('should score the share of pairs in the right relative order', () => {
+    // (first, third), (second, third) 순서만 맞는다
+    const result = gradeOrdering(question, ['second', 'first', 'third']);
+
+    expect(result.score).toBeCloseTo(2 / 3);
+    expect(result.feedback.reason).toBe('order');
+    expect(result.feedback.items?.map(item => item.correct)).toEqual([false, false, true]);
+  });
+
+  test('should count pairs with a missing item as wrong', () => {
+    expect(gradeOrdering(question, ['first', 'third']).score).toBeCloseTo(1 / 3);
+  });
+});
+
+describe('gradeMatching', () => {
+  const question = key('matching', { big: 'large', quick: 'fast', quiet: 'silent' });
+
+  test('should score the share of correct pairs', () => {
+    const result = gradeMatching(question, { big: 'large', quick: 'silent', quiet: 'fast' });
+
+    expect(result.score).toBeCloseTo(1 / 3);
+    expect(result.feedback.reason).toBe('pairs');
+  });
+
+  test('should accept pairs written as lines', () => {
+    expect(gradeMatching(question, 'big → large\nquick → fast\nquiet → silent').isCorrect).toBe(true);
+    expect(toPairs([['a', 'b'], { left: 'c', right: 'd' }])).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
+
+describe('gradeEssay', () => {
+  const question = key('essay', null, {
+    rubric: [
+      { id: 'cause', description: 'Names the cause', points: 2, keywords: ['pollution', 'emissions'], minMatches: 1 },
+      { id: 'effect', description: 'Names the effect', points: 1, keywords: ['warming'] }
+    ]
+  });
+
+  test('should sum the rubric points earned', () => {
+    const result = gradeEssay(question, 'Emissions from cars cause the climate to change.');
+
+    expect(result.score).toBeCloseTo(2 / 3);
+    expect(result.isCorrect).toBe(false);
+    expect(result.feedback.criteria?.map(criterion => criterion.earned)).toEqual([2, 0]);
+  });
+
+  test('should pass when the essay covers the rubric', () => {
+    expect(gradeEssay(question, 'Pollution leads to global warming.').isCorrect).toBe(true);
+  });
+
+  test('should build a rubric from the model answer', () => {
+    const result = gradeEssay(key('essay', 'Photosynthesis converts sunlight into chemical energy'), 'Plants use sunlight');
+
+    expect(result.feedback.criteria?.[0]?.id).toBe('model_answer');
+    expect(result.score).toBeGreaterThan(0);
+    expect(result.score).toBeLessThan(1);
+  });
+});
+
+describe('resolveGrader', () => {
+  test('should fall back on the options for unknown types', () => {
+    expect(resolveGrader(key('context_guess', 'a', { options: ['a', 'b'] }))).toBe(gradeMultipleChoice);
+    expect(resolveGrader(key('context_guess', 'a'))).toBe(gradeFillBlank);
+    expect(gradeAnswer(key('word_formation', 'happiness', { baseForm: 'happy' }), 'happy').score).toBe(0.5);
+  });
+});
@@ -0,0 +1,64 @@
+// 채점기가 공통으로 쓰는 타입 — 루트 AssignmentService와 /:id/attempt 라우트가 함께 쓴다
+
+export interface RubricCriterion {
+  id: string;
+  description: string;
+  points: number;
+  keywords: string[];   // 답안에 언급해야 하는 표현
+  minMatches?: number;  // 만점에 필요한 키워드 수 (기본 1, 모자라면 비례 점수)
+}
+
+export type ExpectedAnswer = string | string[] | Record<string, string>;
+
+/**
+ * 문항의 정답 정보
+ * answer는 유형마다 뜻이 다르다: 정답(들), 순서대로 나열한 항목, 왼쪽 → 오른쪽 짝
+ */
+export interface AnswerKey {
+  type: string;
+  answer: ExpectedAnswer | null;
+  acceptedAnswers?: string[] | undefined; // 정답으로 인정하는 변형
+  options?: string[] | null | undefined;
+  baseForm?: string | undefined;          // 어형 변화 문제의 기본형
+  rubric?: RubricCriterion[] | undefined; // 서술형 채점 기준
+}
+
+export type GradeVerdict = 'correct' | 'partial' | 'incorrect';
+
+// 부분 점수·오답의 이유
+export type GradeReason = 'typo' | 'wrong_form' | 'order' | 'pairs' | 'rubric' | 'no_answer' | 'needs_review';
+
+export interface GradedItem {
+  key: string;             // 순서 문항은 위치(1부터), 연결 문항은 왼쪽 항목
+  expected: string;
+  given: string | null;
+  correct: boolean;
+}
+
+export interface GradedCriterion {
+  id: string;
+  description: string;
+  points: number;
+  earned: number;
+  matched: string[];
+}
+
+export interface GradeFeedback {
+  grader: string;
+  verdict: GradeVerdict;
+  message: string;
+  expected: ExpectedAnswer | null;
+  given: unknown;
+  matchedVariant?: string;
+  reason?: GradeReason;
+  items?: GradedItem[];
+  criteria?: GradedCriterion[];
+}
+
+export interface GradeResult {
+  score: number;      // 0-1
+  isCorrect: boolean; // 만점(서술형은 합격 점수 이상)
+  feedback: GradeFeedback;
+}
+
+export type Grader = (key: AnswerKey, response: unknown) => GradeResult;
@@ -7,6 +7,7 @@ import rateLimit from 'express-rate-limit';
 import { assignmentRouter } from './routes/assignments';
 import { studentRouter } from './routes/students';
 import { healthRouter } from './routes/health';
+import { placementRouter } from './routes/placement';
 
 // Import utilities
 import { env } from '../shared/config/env';
@@ -39,6 +40,7 @@ app.use(express.json({ limit: '10mb' }));
 app.use('/api/health', healthRouter);
 app.use('/api/assignments', assignmentRouter);
 app.use('/api/students', studentRouter);
+app.use('/api/placement', placementRouter);
 
 // Error handling
 app.use(handleApiError);
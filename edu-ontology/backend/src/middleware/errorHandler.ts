@@ -1,27 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime';
 import { Neo4jError } from 'neo4j-driver';
+import { ProviderError } from '../ai/providers';
+import { ApiError, ValidationError } from './errors';
 
-export interface ApiError {
-  fallback: boolean;
-  message: string;
-  code?: string;
-  details?: any;
-}
-
-export class ApiError extends Error {
-  fallback: boolean;
-  code?: string;
-  details?: any;
-
-  constructor(message: string, fallback: boolean = false, code?: string, details?: any) {
-    super(message);
-    this.name = 'ApiError';
-    this.fallback = fallback;
-    this.code = code;
-    this.details = details;
-  }
-}
+export { ApiError, ValidationError, RateLimitError, GenerationInvalidError } from './errors';
 
 export function handleApiError(error: unknown, req: Request, res: Response, next: NextFunction) {
   console.error('API Error:', error);
@@ -44,6 +27,13 @@ export function handleApiError(error: unknown, req: Request, res: Response, next
       'NEO4J_ERROR',
       { code: error.code }
     );
+  } else if (error instanceof ProviderError) {
+    apiError = new ApiError(
+      'AI generation service unavailable',
+      true,
+      'AI_PROVIDER_ERROR',
+      { provider: error.provider, message: error.message, ...error.details }
+    );
   } else if (error instanceof Error) {
     apiError = new ApiError(
       error.message || 'Internal server error',
@@ -54,7 +44,8 @@ export function handleApiError(error: unknown, req: Request, res: Response, next
     apiError = new ApiError('Unknown error occurred', false, 'UNKNOWN_ERROR');
   }
 
-  const status = apiError.fallback ? 503 : 500;
+  // 잘못된 요청은 400, 대체 가능한 외부 서비스 장애는 503
+  const status = apiError instanceof ValidationError ? 400 : apiError.fallback ? 503 : 500;
 
   res.status(status).json({
     error: apiError.message,
@@ -67,17 +58,3 @@ export function handleApiError(error: unknown, req: Request, res: Response, next
     })
   });
 }
-
-export class ValidationError extends ApiError {
-  constructor(message: string, details?: any) {
-    super(message, false, 'VALIDATION_ERROR', details);
-    this.name = 'ValidationError';
-  }
-}
-
-export class RateLimitError extends ApiError {
-  constructor(message: string = 'Rate limit exceeded') {
-    super(message, true, 'RATE_LIMIT_ERROR');
-    this.name = 'RateLimitError';
-  }
-}
\ No newline at end of file
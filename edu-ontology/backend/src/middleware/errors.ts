@@ -0,0 +1,41 @@
+export interface ApiError {
+  fallback: boolean;
+  message: string;
+  code?: string | undefined;
+  details?: any;
+}
+
+export class ApiError extends Error {
+  fallback: boolean;
+  code?: string | undefined;
+  details?: any;
+
+  constructor(message: string, fallback: boolean = false, code?: string, details?: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.fallback = fallback;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, details?: any) {
+    super(message, false, 'VALIDATION_ERROR', details);
+    this.name = 'ValidationError';
+  }
+}
+
+export class RateLimitError extends ApiError {
+  constructor(message: string = 'Rate limit exceeded') {
+    super(message, true, 'RATE_LIMIT_ERROR');
+    this.name = 'RateLimitError';
+  }
+}
+
+export class GenerationInvalidError extends ApiError {
+  constructor(message: string, details?: any) {
+    super(message, false, 'GENERATION_INVALID', details);
+    this.name = 'GenerationInvalidError';
+  }
+}
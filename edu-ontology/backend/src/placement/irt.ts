@@ -0,0 +1,202 @@
+import { Assignment, AssignmentContent, AssignmentType, GapData } from '../ai/types';
+
+// 3PL IRT 문항 파라미터
+export interface IrtItem {
+  id: string;
+  discrimination: number; // a
+  difficulty: number;     // b
+  guessing: number;       // c
+}
+
+// 배치고사에 쓰는 은행 문항 — skill·topic은 gapData 집계 단위
+export interface PlacementItem extends IrtItem {
+  skill: string;
+  topic: string;
+}
+
+// 은행 문항 난이도 → IRT 난이도 b
+// 과제 생성에서 각 난이도를 받는 CEFR 구간(A1–A2, B1–B2, C1–C2)의 중심
+export const BANK_DIFFICULTY_THETA: Record<Assignment['difficulty'], number> = {
+  easy: -1.5,
+  medium: 0.5,
+  hard: 2.0
+};
+
+export interface IrtResponse {
+  item: IrtItem;
+  correct: boolean;
+}
+
+export interface AbilityEstimate {
+  theta: number;
+  standardError: number;
+}
+
+// 배치고사 종료 조건
+export const PLACEMENT_STOP_RULES = {
+  TARGET_STANDARD_ERROR: 0.3,
+  MIN_ITEMS: 5,
+  MAX_ITEMS: 30
+} as const;
+
+// CEFR 경계 (theta, 표준정규 능력 척도)
+const CEFR_CUTOFFS: Array<[number, string]> = [
+  [-1.5, 'A1'],
+  [-0.5, 'A2'],
+  [0.5, 'B1'],
+  [1.5, 'B2'],
+  [2.25, 'C1']
+];
+
+// EAP 적분 격자: -4 ~ 4, 0.1 간격
+const QUADRATURE = Array.from({ length: 81 }, (_, i) => -4 + i * 0.1);
+
+/**
+ * 은행 문항을 IRT 문항으로 변환
+ * 변별도는 1로 두고, 추측도는 보기가 있으면 1/보기 수, 없으면 0이다.
+ * 어휘 문항은 대상 어휘를, 그 밖의 문항은 유형을 topic으로 쓴다.
+ */
+export function toPlacementItem(item: {
+  id: string;
+  type: string;
+  difficulty: string;
+  vocabulary: string | null;
+  content: AssignmentContent;
+}): PlacementItem {
+  const options = item.content.options?.length ?? 0;
+  return {
+    id: item.id,
+    discrimination: 1,
+    difficulty: BANK_DIFFICULTY_THETA[item.difficulty as Assignment['difficulty']] ?? BANK_DIFFICULTY_THETA.medium,
+    guessing: options > 0 ? 1 / options : 0,
+    skill: item.vocabulary
+      ? 'vocabulary'
+      : item.type === AssignmentType.GRAMMAR_INTEGRATION ? 'grammar' : item.type,
+    topic: item.vocabulary ?? item.type
+  };
+}
+
+/**
+ * 3PL 정답 확률 P(θ) = c + (1 - c) / (1 + e^(-1.7a(θ - b)))
+ */
+export function probabilityCorrect(theta: number, item: IrtItem): number {
+  const logistic = 1 / (1 + Math.exp(-1.7 * item.discrimination * (theta - item.difficulty)));
+  return item.guessing + (1 - item.guessing) * logistic;
+}
+
+/**
+ * θ에서의 문항 정보량 (Fisher information)
+ */
+export function itemInformation(theta: number, item: IrtItem): number {
+  const p = probabilityCorrect(theta, item);
+  const q = 1 - p;
+  const a = 1.7 * item.discrimination;
+  const c = item.guessing;
+  return (a * a * q * Math.pow(p - c, 2)) / (p * Math.pow(1 - c, 2));
+}
+
+/**
+ * EAP 능력 추정 (표준정규 사전분포)
+ * 전부 정답/오답이어도 유한한 추정치를 준다.
+ */
+export function estimateAbility(responses: IrtResponse[]): AbilityEstimate {
+  const posterior = QUADRATURE.map(theta => {
+    const prior = Math.exp(-(theta * theta) / 2);
+    const likelihood = responses.reduce((product, { item, correct }) => {
+      const p = probabilityCorrect(theta, item);
+      return product * (correct ? p : 1 - p);
+    }, 1);
+    return prior * likelihood;
+  });
+
+  const total = posterior.reduce((sum, weight) => sum + weight, 0);
+  const theta = QUADRATURE.reduce((sum, point, i) => sum + point * posterior[i], 0) / total;
+  const variance = QUADRATURE.reduce(
+    (sum, point, i) => sum + Math.pow(point - theta, 2) * posterior[i],
+    0
+  ) / total;
+
+  return { theta, standardError: Math.sqrt(variance) };
+}
+
+/**
+ * 현재 θ에서 정보량이 가장 큰 미출제 문항 선택
+ */
+export function selectNextItem<T extends IrtItem>(
+  theta: number,
+  items: T[],
+  administeredIds: Set<string>
+): T | null {
+  let best: T | null = null;
+  let bestInformation = -Infinity;
+
+  for (const item of items) {
+    if (administeredIds.has(item.id)) continue;
+    const information = itemInformation(theta, item);
+    if (information > bestInformation) {
+      best = item;
+      bestInformation = information;
+    }
+  }
+
+  return best;
+}
+
+export function shouldStop(estimate: AbilityEstimate, answered: number, remaining: number): boolean {
+  if (remaining === 0 || answered >= PLACEMENT_STOP_RULES.MAX_ITEMS) return true;
+  return answered >= PLACEMENT_STOP_RULES.MIN_ITEMS
+    && estimate.standardError <= PLACEMENT_STOP_RULES.TARGET_STANDARD_ERROR;
+}
+
+export function thetaToCefr(theta: number): string {
+  for (const [cutoff, level] of CEFR_CUTOFFS) {
+    if (theta < cutoff) return level;
+  }
+  return 'C2';
+}
+
+/**
+ * 배치고사 응답으로 초기 gapData 생성
+ * 틀린 어휘·문법 문항의 topic은 skill별 격차 목록에, topic 정답률로 약점/강점을 나눈다.
+ */
+export function buildInitialGapData(
+  responses: Array<{ skill: string; topic: string; correct: boolean }>
+): GapData {
+  const byTopic = new Map<string, { correct: number; total: number }>();
+  const vocabulary = new Set<string>();
+  const grammar = new Set<string>();
+  let totalWords = 0;
+  let mastered = 0;
+
+  for (const { skill, topic, correct } of responses) {
+    const stats = byTopic.get(topic) || { correct: 0, total: 0 };
+    stats.total++;
+    if (correct) stats.correct++;
+    byTopic.set(topic, stats);
+
+    if (skill === 'vocabulary') {
+      totalWords++;
+      if (correct) mastered++;
+      else vocabulary.add(topic);
+    } else if (skill === 'grammar' && !correct) {
+      grammar.add(topic);
+    }
+  }
+
+  const weakAreas: string[] = [];
+  const strengths: string[] = [];
+  byTopic.forEach(({ correct, total }, topic) => {
+    const accuracy = correct / total;
+    if (accuracy < 0.5) weakAreas.push(topic);
+    else if (accuracy >= 0.8) strengths.push(topic);
+  });
+
+  return {
+    vocabulary: Array.from(vocabulary),
+    grammar: Array.from(grammar),
+    totalWords,
+    mastered,
+    weakAreas,
+    strengths
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Placement IRT Tests
+ * 3PL 정답 확률, EAP 능력 추정, 문항 선택, 종료 조건, 은행 문항 변환을 검증한다
+ */
+
+import {
+  BANK_DIFFICULTY_THETA,
+  IrtItem,
+  PLACEMENT_STOP_RULES,
+  buildInitialGapData,
+  estimateAbility,
+  probabilityCorrect,
+  selectNextItem,
+  shouldStop,
+  toPlacementItem
+} from '../irt';
+
+const item = (id: string, difficulty: number, discrimination = 1, guessing = 0.2): IrtItem => ({
+  id,
+  discrimination,
+  difficulty,
+  guessing
+});
+
+describe('probabilityCorrect', () => {
+  test('should be halfway between guessing and 1 at the item difficulty', () => {
+    expect(probabilityCorrect(0.5, item('a', 0.5))).toBeCloseTo(0.6);
+    expect(probabilityCorrect(0, item('a', 0, 1, 0))).toBeCloseTo(0.5);
+  });
+
+  test('should approach the guessing floor and 1 at the extremes', () => {
+    expect(probabilityCorrect(-10, item('a', 0))).toBeCloseTo(0.2);
+    expect(probabilityCorrect(10, item('a', 0))).toBeCloseTo(1);
+  });
+
+  test('should use the 1.7 scaling constant', () => {
+    const expected = 0.2 + 0.8 / (1 + Math.exp(-1.7 * 1.5 * (1 - 0)));
+    expect(probabilityCorrect(1, item('a', 0, 1.5))).toBeCloseTo(expected, 10);
+  });
+});
+
+describe('estimateAbility', () => {
+  test('should return the prior without responses', () => {
+    const estimate = estimateAbility([]);
+
+    expect(estimate.theta).toBeCloseTo(0, 5);
+    expect(estimate.standardError).toBeCloseTo(1, 1);
+  });
+
+  test('should move up after correct answers and down after wrong ones', () => {
+    const items = [item('a', -1), item('b', 0), item('c', 1)];
+    const up = estimateAbility(items.map(i => ({ item: i, correct: true })));
+    const down = estimateAbility(items.map(i => ({ item: i, correct: false })));
+
+    expect(up.theta).toBeGreaterThan(0);
+    expect(down.theta).toBeLessThan(0);
+    // 사전분포 덕분에 전부 정답/오답이어도 유한하다
+    expect(Number.isFinite(up.theta)).toBe(true);
+    expect(Number.isFinite(down.theta)).toBe(true);
+  });
+
+  test('should shrink the standard error as responses accumulate', () => {
+    const few = estimateAbility([{ item: item('a', 0, 2), correct: true }]);
+    const many = estimateAbility(
+      Array.from({ length: 20 }, (_, i) => ({ item: item(`i${i}`, 0, 2), correct: i % 2 === 0 }))
+    );
+
+    expect(many.standardError).toBeLessThan(few.standardError);
+    expect(many.standardError).toBeLessThan(0.5);
+  });
+});
+
+describe('selectNextItem', () => {
+  test('should pick the item with the most information at theta', () => {
+    const items = [item('easy', -2), item('medium', 0), item('hard', 2)];
+
+    expect(selectNextItem(0, items, new Set())?.id).toBe('medium');
+    expect(selectNextItem(2, items, new Set())?.id).toBe('hard');
+  });
+
+  test('should skip administered items and return null when none remain', () => {
+    const items = [item('easy', -2), item('medium', 0)];
+
+    expect(selectNextItem(0, items, new Set(['medium']))?.id).toBe('easy');
+    expect(selectNextItem(0, items, new Set(['easy', 'medium']))).toBeNull();
+  });
+});
+
+describe('shouldStop', () => {
+  const precise = { theta: 0, standardError: PLACEMENT_STOP_RULES.TARGET_STANDARD_ERROR };
+  const vague = { theta: 0, standardError: 0.8 };
+
+  test('should stop once enough items give a precise estimate', () => {
+    expect(shouldStop(precise, PLACEMENT_STOP_RULES.MIN_ITEMS, 10)).toBe(true);
+    expect(shouldStop(precise, PLACEMENT_STOP_RULES.MIN_ITEMS - 1, 10)).toBe(false);
+    expect(shouldStop(vague, PLACEMENT_STOP_RULES.MIN_ITEMS, 10)).toBe(false);
+  });
+
+  test('should stop at the item limit or when the pool is empty', () => {
+    expect(shouldStop(vague, PLACEMENT_STOP_RULES.MAX_ITEMS, 10)).toBe(true);
+    expect(shouldStop(vague, 1, 0)).toBe(true);
+  });
+});
+
+describe('toPlacementItem', () => {
+  const content = { question: "'reluctant'와 가장 가까운 뜻은?", answer: 'hesitant', explanation: '' };
+
+  test('should place bank difficulty on the theta scale with a 1/options guessing floor', () => {
+    const item = toPlacementItem({
+      id: 'q1',
+      type: 'thesaurus',
+      difficulty: 'hard',
+      vocabulary: 'reluctant',
+      content: { ...content, options: ['willing', 'hesitant', 'eager', 'certain'] }
+    });
+
+    expect(item).toEqual({
+      id: 'q1',
+      discrimination: 1,
+      difficulty: BANK_DIFFICULTY_THETA.hard,
+      guessing: 0.25,
+      skill: 'vocabulary',
+      topic: 'reluctant'
+    });
+  });
+
+  test('should use the type as the topic of items without a target word', () => {
+    const grammar = toPlacementItem({
+      id: 'q2',
+      type: 'grammar_integration',
+      difficulty: 'easy',
+      vocabulary: null,
+      content
+    });
+    const pragmatics = toPlacementItem({ id: 'q3', type: 'pragmatics', difficulty: 'unknown', vocabulary: null, content });
+
+    expect(grammar).toMatchObject({ skill: 'grammar', topic: 'grammar_integration', guessing: 0 });
+    expect(pragmatics).toMatchObject({ skill: 'pragmatics', difficulty: BANK_DIFFICULTY_THETA.medium });
+  });
+});
+
+describe('buildInitialGapData', () => {
+  test('should list missed words and grammar only', () => {
+    const gapData = buildInitialGapData([
+      { skill: 'vocabulary', topic: 'reluctant', correct: false },
+      { skill: 'vocabulary', topic: 'apple', correct: true },
+      { skill: 'grammar', topic: 'grammar_integration', correct: false },
+      { skill: 'pragmatics', topic: 'pragmatics', correct: false }
+    ]);
+
+    expect(gapData.vocabulary).toEqual(['reluctant']);
+    expect(gapData.grammar).toEqual(['grammar_integration']);
+    expect(gapData.totalWords).toBe(2);
+    expect(gapData.mastered).toBe(1);
+    expect(gapData.weakAreas).toEqual(['reluctant', 'grammar_integration', 'pragmatics']);
+    expect(gapData.strengths).toEqual(['apple']);
+  });
+});
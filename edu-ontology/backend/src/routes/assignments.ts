@@ -1,12 +1,79 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { generateAssignment, batchGenerateAssignments } from '../ai/claude';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { generateAssignment } from '../ai/claude';
 import { adaptForLevel } from '../ai/levelAdapter';
-import { AssignmentType, GapData, Assignment } from '../ai/types';
-import { ApiError } from '../middleware/errorHandler';
+import { AssignmentType, GapData, Assignment, AssignmentContent } from '../ai/types';
+import { ApiError, ValidationError } from '../middleware/errorHandler';
+import { DEFAULT_UNSEEN_DAYS, QuestionBank } from '../bank/questionBank';
+import { gradeAnswer } from '../grading';
 
 const prisma = new PrismaClient();
 const router = Router();
+const questionBank = new QuestionBank(prisma);
+
+// 생성 결과가 학생이 최근에 받은 은행 문항과 겹칠 때 다시 생성하는 횟수
+const MAX_GENERATION_ATTEMPTS = 2;
+
+const DIFFICULTY_BY_LEVEL: Record<string, Assignment['difficulty']> = {
+  A1: 'easy',
+  A2: 'easy',
+  B1: 'medium',
+  B2: 'medium',
+  C1: 'hard',
+  C2: 'hard'
+};
+
+function parseUnseenDays(value: unknown): number {
+  if (value === undefined) return DEFAULT_UNSEEN_DAYS;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new ValidationError('unseenDays must be a non-negative number');
+  }
+  return value;
+}
+
+/**
+ * 은행에서 학생이 unseenDays 안에 받지 않은 문항을 먼저 고르고, 없을 때만 생성해 은행에 추가
+ */
+async function bankOrGenerate(params: {
+  studentId: string;
+  level: string;
+  gapData: GapData;
+  type: AssignmentType;
+  unseenDays: number;
+  exclude: string[];
+}): Promise<{ assignment: Assignment; bankItemId: string; source: 'bank' | 'generated' }> {
+  const { studentId, level, gapData, type, unseenDays, exclude } = params;
+  const vocabulary = gapData.vocabulary || [];
+
+  const drawn = await questionBank.draw({
+    studentId,
+    type,
+    difficulty: DIFFICULTY_BY_LEVEL[level] || 'medium',
+    vocabulary,
+    unseenDays,
+    exclude
+  });
+  if (drawn) {
+    const assignment = questionBank.toAssignment(drawn, level);
+    return {
+      assignment: { ...assignment, metadata: { ...assignment.metadata, source: 'bank' } },
+      bankItemId: drawn.id,
+      source: 'bank'
+    };
+  }
+
+  let result: { assignment: Assignment; bankItemId: string } | null = null;
+  for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+    const generated = await generateAssignment({ studentLevel: level, gapData, type });
+    const { item, duplicate } = await questionBank.add(generated, vocabulary);
+    result = { assignment: { ...generated, metadata: { ...generated.metadata, source: 'generated' } }, bankItemId: item.id };
+
+    const repeated = duplicate &&
+      (exclude.includes(item.id) || await questionBank.seenBy(item.id, studentId, unseenDays));
+    if (!repeated) break;
+  }
+  return { ...result!, source: 'generated' };
+}
 
 // Generate a single assignment
 router.post('/generate', async (req: Request, res: Response, next: NextFunction) => {
@@ -29,15 +96,18 @@ router.post('/generate', async (req: Request, res: Response, next: NextFunction)
       mastered: 0
     };
 
-    // Generate assignment with Claude
-    let assignment = await generateAssignment({
-      studentLevel: student.level,
+    // Reuse a bank item the student hasn't seen recently, otherwise generate
+    const drawn = await bankOrGenerate({
+      studentId,
+      level: student.level,
       gapData,
-      type: type as AssignmentType
+      type: type as AssignmentType,
+      unseenDays: parseUnseenDays(req.body.unseenDays),
+      exclude: []
     });
 
     // Apply level adaptation
-    assignment = adaptForLevel(assignment, student.level);
+    const assignment = adaptForLevel(drawn.assignment, student.level);
 
     // Save to database
     const savedAssignment = await prisma.assignment.create({
@@ -46,9 +116,11 @@ router.post('/generate', async (req: Request, res: Response, next: NextFunction)
         type: assignment.type,
         content: assignment.content,
         difficulty: assignment.difficulty,
-        metadata: assignment.metadata
+        metadata: assignment.metadata,
+        bankItemId: drawn.bankItemId
       }
     });
+    await questionBank.recordUse(drawn.bankItemId);
 
     // Convert to response format
     const response = {
@@ -89,16 +161,23 @@ router.post('/batch-generate', async (req: Request, res: Response, next: NextFun
       mastered: 0
     };
 
-    // Generate all assignments in parallel
-    const assignments = await batchGenerateAssignments({
-      studentLevel: student.level,
-      gapData,
-      types: types as AssignmentType[]
-    });
+    // One bank item or generated item per type, never the same item twice in a batch
+    const unseenDays = parseUnseenDays(req.body.unseenDays);
+    const drawn: Array<Awaited<ReturnType<typeof bankOrGenerate>>> = [];
+    for (const type of types as AssignmentType[]) {
+      drawn.push(await bankOrGenerate({
+        studentId,
+        level: student.level,
+        gapData,
+        type,
+        unseenDays,
+        exclude: drawn.map(item => item.bankItemId)
+      }));
+    }
 
     // Apply level adaptation and save
     const savedAssignments = await Promise.all(
-      assignments.map(async (assignment) => {
+      drawn.map(async ({ assignment, bankItemId }) => {
         const adapted = adaptForLevel(assignment, student.level);
 
         const saved = await prisma.assignment.create({
@@ -107,9 +186,11 @@ router.post('/batch-generate', async (req: Request, res: Response, next: NextFun
             type: adapted.type,
             content: adapted.content,
             difficulty: adapted.difficulty,
-            metadata: adapted.metadata
+            metadata: adapted.metadata,
+            bankItemId
           }
         });
+        await questionBank.recordUse(bankItemId);
 
         return {
           ...adapted,
@@ -204,14 +285,16 @@ router.post('/:id/attempt', async (req: Request, res: Response, next: NextFuncti
       throw new ApiError('Assignment not found', false, 'ASSIGNMENT_NOT_FOUND');
     }
 
-    // Check if answer is correct
-    const correctAnswer = assignment.content.answer;
-    const isCorrect = Array.isArray(correctAnswer)
-      ? correctAnswer.includes(answer)
-      : correctAnswer === answer;
-
-    // Calculate score (simple implementation)
-    const score = isCorrect ? 100 : calculatePartialScore(answer, correctAnswer);
+    // 과제 유형별 채점기로 채점 (부분 점수와 구조화된 피드백)
+    const content = assignment.content as unknown as AssignmentContent;
+    const { isCorrect, score: credit, feedback } = gradeAnswer({
+      type: assignment.type,
+      answer: content.answer,
+      acceptedAnswers: content.acceptedAnswers,
+      options: content.options,
+      baseForm: content.baseForm
+    }, answer);
+    const score = Math.round(credit * 100);
 
     // Save attempt
     const attempt = await prisma.assignmentAttempt.create({
@@ -221,11 +304,7 @@ router.post('/:id/attempt', async (req: Request, res: Response, next: NextFuncti
         answer,
         score,
         timeTaken,
-        feedback: {
-          isCorrect,
-          correctAnswer,
-          score
-        }
+        feedback: feedback as unknown as Prisma.InputJsonValue
       }
     });
 
@@ -244,7 +323,8 @@ router.post('/:id/attempt', async (req: Request, res: Response, next: NextFuncti
       success: true,
       data: {
         ...attempt,
-        isCorrect
+        isCorrect,
+        feedback
       }
     });
   } catch (error) {
@@ -252,51 +332,6 @@ router.post('/:id/attempt', async (req: Request, res: Response, next: NextFuncti
   }
 });
 
-// Helper function to calculate partial score
-function calculatePartialScore(answer: string, correctAnswer: string | string[]): number {
-  // Simple implementation: partial credit for partially correct answers
-  if (Array.isArray(correctAnswer)) {
-    const maxSimilarity = Math.max(...correctAnswer.map(correct =>
-      calculateStringSimilarity(answer, correct)
-    ));
-    return Math.round(maxSimilarity * 100);
-  }
-
-  return calculateStringSimilarity(answer, correctAnswer) * 100;
-}
-
-// Helper function to calculate string similarity
-function calculateStringSimilarity(a: string, b: string): number {
-  const longer = a.length > b.length ? a : b;
-  const shorter = a.length > b.length ? b : a;
-
-  if (longer.length === 0) return 1;
-
-  const editDistance = levenshteinDistance(longer, shorter);
-  return (longer.length - editDistance) / longer.length;
-}
-
-// Helper function for Levenshtein distance
-function levenshteinDistance(str1: string, str2: string): number {
-  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-
-  for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
-  for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
-
-  for (let j = 1; j <= str2.length; j++) {
-    for (let i = 1; i <= str1.length; i++) {
-      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-      matrix[j][i] = Math.min(
-        matrix[j][i - 1] + 1, // deletion
-        matrix[j - 1][i] + 1, // insertion
-        matrix[j - 1][i - 1] + indicator // substitution
-      );
-    }
-  }
-
-  return matrix[str2.length][str1.length];
-}
-
 // Helper function to update learning progress
 async function updateLearningProgress(studentId: string, assignmentType: string, score: number) {
   const progress = await prisma.learningProgress.upsert({
@@ -0,0 +1,257 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { BankItem, Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { AssignmentContent } from '../ai/types';
+import { gradeAnswer } from '../grading';
+import { ApiError, ValidationError } from '../middleware/errorHandler';
+import {
+  PlacementItem,
+  estimateAbility,
+  selectNextItem,
+  shouldStop,
+  thetaToCefr,
+  buildInitialGapData,
+  toPlacementItem
+} from '../placement/irt';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const startSchema = z.object({
+  studentId: z.string().min(1)
+});
+
+// 채점기가 받는 응답 형태: 보기·빈칸은 문자열, 순서는 배열, 연결은 왼쪽 → 오른쪽 짝
+const responseSchema = z.object({
+  itemId: z.string().min(1),
+  answer: z.union([z.string(), z.number(), z.array(z.string()), z.record(z.string())])
+});
+
+function parseBody<T>(schema: z.ZodType<T>, body: unknown): T {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+  return result.data;
+}
+
+function placementItemOf(bankItem: BankItem): PlacementItem {
+  return toPlacementItem({ ...bankItem, content: bankItem.content as unknown as AssignmentContent });
+}
+
+// 배치고사 문항은 문항 은행에서 고른다
+async function loadPlacementItems(): Promise<Map<string, { bankItem: BankItem; item: PlacementItem }>> {
+  const bankItems = await prisma.bankItem.findMany();
+  return new Map(bankItems.map(bankItem => [bankItem.id, { bankItem, item: placementItemOf(bankItem) }]));
+}
+
+// Item as shown to the student (no answer or explanation)
+function toPublicItem(bankItem: BankItem) {
+  const content = bankItem.content as unknown as AssignmentContent;
+  return {
+    id: bankItem.id,
+    type: bankItem.type,
+    question: content.question,
+    options: content.options
+  };
+}
+
+function isCorrectAnswer(bankItem: BankItem, answer: unknown): boolean {
+  const content = bankItem.content as unknown as AssignmentContent;
+  return gradeAnswer({
+    type: bankItem.type,
+    answer: content.answer,
+    acceptedAnswers: content.acceptedAnswers,
+    options: content.options,
+    baseForm: content.baseForm
+  }, answer).isCorrect;
+}
+
+// Start a placement test
+router.post('/sessions', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { studentId } = parseBody(startSchema, req.body);
+
+    const student = await prisma.student.findUnique({ where: { id: studentId } });
+    if (!student) {
+      throw new ApiError('Student not found', false, 'STUDENT_NOT_FOUND');
+    }
+
+    const pool = await loadPlacementItems();
+    const firstItem = selectNextItem(0, Array.from(pool.values(), ({ item }) => item), new Set());
+    if (!firstItem) {
+      throw new ApiError('Question bank is empty', false, 'PLACEMENT_ITEMS_MISSING');
+    }
+
+    const session = await prisma.placementSession.create({
+      data: { studentId, currentItemId: firstItem.id }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        sessionId: session.id,
+        status: session.status,
+        theta: session.theta,
+        standardError: session.standardError,
+        nextItem: toPublicItem(pool.get(firstItem.id)!.bankItem)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get placement session state
+router.get('/sessions/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const session = await prisma.placementSession.findUnique({
+      where: { id },
+      include: {
+        responses: {
+          orderBy: { answeredAt: 'asc' },
+          select: { itemId: true, correct: true, thetaAfter: true, seAfter: true, answeredAt: true }
+        }
+      }
+    });
+
+    if (!session) {
+      throw new ApiError('Placement session not found', false, 'PLACEMENT_SESSION_NOT_FOUND');
+    }
+
+    res.json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Answer the current item; returns the next item or the placement result
+router.post('/sessions/:id/responses', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { itemId, answer } = parseBody(responseSchema, req.body);
+
+    const session = await prisma.placementSession.findUnique({
+      where: { id },
+      include: { responses: { include: { item: true }, orderBy: { answeredAt: 'asc' } } }
+    });
+
+    if (!session) {
+      throw new ApiError('Placement session not found', false, 'PLACEMENT_SESSION_NOT_FOUND');
+    }
+    if (session.status !== 'in_progress') {
+      throw new ValidationError('Placement session is already completed');
+    }
+    if (session.responses.some(response => response.itemId === itemId)) {
+      throw new ValidationError('Item was already answered in this session');
+    }
+    // 출제하지 않은 문항에 답해 능력 추정을 조작하지 못하게 한다
+    if (itemId !== session.currentItemId) {
+      throw new ValidationError('Only the item currently served in this session can be answered', {
+        currentItemId: session.currentItemId
+      });
+    }
+
+    const pool = await loadPlacementItems();
+    const served = pool.get(itemId);
+    if (!served) {
+      throw new ApiError('Placement item not found', false, 'PLACEMENT_ITEM_NOT_FOUND');
+    }
+
+    const correct = isCorrectAnswer(served.bankItem, answer);
+    const answered = [
+      ...session.responses.map(response => ({ item: placementItemOf(response.item), correct: response.correct })),
+      { item: served.item, correct }
+    ];
+    const estimate = estimateAbility(answered);
+
+    await prisma.placementResponse.create({
+      data: {
+        sessionId: id,
+        itemId,
+        answer,
+        correct,
+        thetaAfter: estimate.theta,
+        seAfter: estimate.standardError
+      }
+    });
+
+    const items = Array.from(pool.values(), ({ item }) => item);
+    const administered = new Set(answered.map(response => response.item.id));
+    const remaining = items.filter(candidate => !administered.has(candidate.id)).length;
+
+    if (!shouldStop(estimate, answered.length, remaining)) {
+      const nextItem = selectNextItem(estimate.theta, items, administered);
+
+      await prisma.placementSession.update({
+        where: { id },
+        data: {
+          theta: estimate.theta,
+          standardError: estimate.standardError,
+          currentItemId: nextItem?.id ?? null
+        }
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          correct,
+          completed: false,
+          theta: estimate.theta,
+          standardError: estimate.standardError,
+          nextItem: nextItem ? toPublicItem(pool.get(nextItem.id)!.bankItem) : null
+        }
+      });
+    }
+
+    // Finished: assign the CEFR level and seed gapData from the responses
+    const level = thetaToCefr(estimate.theta);
+    const gapData = buildInitialGapData(
+      answered.map(response => ({
+        skill: response.item.skill,
+        topic: response.item.topic,
+        correct: response.correct
+      }))
+    );
+
+    await prisma.$transaction([
+      prisma.placementSession.update({
+        where: { id },
+        data: {
+          status: 'completed',
+          theta: estimate.theta,
+          standardError: estimate.standardError,
+          level,
+          currentItemId: null,
+          completedAt: new Date()
+        }
+      }),
+      prisma.student.update({
+        where: { id: session.studentId },
+        data: { level, gapData: gapData as unknown as Prisma.InputJsonValue }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        correct,
+        completed: true,
+        theta: estimate.theta,
+        standardError: estimate.standardError,
+        itemsAnswered: answered.length,
+        level,
+        gapData
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as placementRouter };
@@ -0,0 +1,178 @@
+/**
+ * EduOntology Gap Analysis Cache
+ * 사용자·목표 노드·분석 옵션별 GapAnalysisResult를 보관하는 LRU + TTL 캐시
+ */
+
+import { CacheItem, CacheKey, GapAnalysisResult } from './types'
+
+export interface GapAnalysisCacheOptions {
+  maxEntries?: number
+  ttlMs?: number
+}
+
+export interface GapAnalysisCacheStats {
+  size: number
+  hits: number
+  misses: number
+  evictions: number
+}
+
+const ANONYMOUS_USER = 'anonymous'
+
+/**
+ * 키 정렬 직렬화 — 옵션 객체의 속성 순서가 달라도 같은 키가 된다
+ */
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined'
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+  return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`
+}
+
+/**
+ * 진도 지문 (FNV-1a) — 노드별 마스터리가 하나라도 바뀌면 달라진다
+ */
+export function progressFingerprint(progress: Map<string, number>): string {
+  const text = [...progress.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([nodeId, mastery]) => `${nodeId}=${mastery}`)
+    .join(';')
+
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return `${progress.size}:${(hash >>> 0).toString(16)}`
+}
+
+export class GapAnalysisCache {
+  // Map 삽입 순서를 LRU 순서로 사용 (앞쪽이 가장 오래 전에 사용됨)
+  private items = new Map<string, CacheItem>()
+  private maxEntries: number
+  private ttlMs: number
+  private hits = 0
+  private misses = 0
+  private evictions = 0
+
+  constructor(options: GapAnalysisCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 500
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000
+  }
+
+  static keyOf(key: Omit<CacheKey, 'timestamp'>): string {
+    return stableStringify({
+      userId: key.userId ?? ANONYMOUS_USER,
+      targetNodeId: key.targetNodeId,
+      currentLevel: key.currentLevel,
+      options: key.options,
+      variant: key.variant,
+      progressVersion: key.progressVersion,
+    })
+  }
+
+  get(key: Omit<CacheKey, 'timestamp'>): GapAnalysisResult | undefined {
+    const id = GapAnalysisCache.keyOf(key)
+    const item = this.items.get(id)
+
+    if (!item || Date.parse(item.expiresAt) <= Date.now()) {
+      if (item) this.items.delete(id)
+      this.misses++
+      return undefined
+    }
+
+    // 최근 사용으로 이동
+    this.items.delete(id)
+    this.items.set(id, item)
+    item.accessCount++
+    this.hits++
+    return item.data
+  }
+
+  set(key: Omit<CacheKey, 'timestamp'>, data: GapAnalysisResult): void {
+    const id = GapAnalysisCache.keyOf(key)
+    const now = Date.now()
+
+    this.items.delete(id)
+    this.items.set(id, {
+      key: { ...key, timestamp: new Date(now).toISOString() },
+      data,
+      timestamp: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+      accessCount: 0,
+    })
+
+    while (this.items.size > this.maxEntries) {
+      const oldest = this.items.keys().next().value
+      if (oldest === undefined) break
+      this.items.delete(oldest)
+      this.evictions++
+    }
+  }
+
+  /**
+   * 사용자 진도 변경 시 해당 사용자의 결과만 무효화
+   */
+  invalidateUser(userId: string | undefined): number {
+    const target = userId ?? ANONYMOUS_USER
+    let removed = 0
+
+    for (const [id, item] of this.items) {
+      if ((item.key.userId ?? ANONYMOUS_USER) === target) {
+        this.items.delete(id)
+        removed++
+      }
+    }
+
+    return removed
+  }
+
+  /**
+   * 변경된 노드가 목표·경로·선수 조건·추천·미뤄진 항목에 포함된 결과만 무효화
+   * 새 간선이 다른 쌍의 지름길을 만드는 경우는 TTL 만료로 반영된다.
+   */
+  invalidateNodes(nodeIds: Iterable<string>): number {
+    const affected = new Set(nodeIds)
+    const touches = (node: { id: string }) => affected.has(node.id)
+    let removed = 0
+
+    for (const [id, item] of this.items) {
+      const { data } = item
+      if (
+        affected.has(data.targetNode.id) ||
+        data.recommendedPath.some(touches) ||
+        data.missingPrerequisites.some(touches) ||
+        data.recommendations.some(recommendation => affected.has(recommendation.nodeId)) ||
+        data.timeBudget?.deferred.some(item => affected.has(item.node.id))
+      ) {
+        this.items.delete(id)
+        removed++
+      }
+    }
+
+    return removed
+  }
+
+  /**
+   * 그래프 전체 재적재 등 범위를 알 수 없는 변경 시 전체 무효화
+   */
+  invalidateGraph(): void {
+    this.items.clear()
+  }
+
+  getStats(): GapAnalysisCacheStats {
+    return {
+      size: this.items.size,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    }
+  }
+}
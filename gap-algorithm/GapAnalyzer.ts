@@ -3,16 +3,54 @@
  * 3-Layer Map에서 학습 격차를 식별하고 분석하는 핵심 알고리즘
  */
 
-import { LearningNode, Layer, GapAnalysisResult, PathResult } from './types'
+import {
+  LearningNode,
+  Layer,
+  GapAnalysisResult,
+  PathResult,
+  Recommendation,
+  GapEventBus,
+  GapLevelStore,
+  GapPlugin,
+  AlgorithmPerformance,
+  GapAnalysisOptions,
+  GapUpdate,
+  GapValidationError,
+  DeferredItem,
+  TimeBudgetResult,
+  GapParameterSet,
+  GapOptimizationParams,
+  GapScoreComponents,
+  GapThresholds,
+} from './types'
+import { createGapEvent, InMemoryGapLevelStore } from './GapEventBus'
+import { GapPluginRegistry } from './GapPluginRegistry'
+import { GapAnalysisCache, progressFingerprint } from './GapAnalysisCache'
+import { LearningGraphIndex } from './LearningGraphIndex'
 
 // Gap 식별을 위한 휴리스틱 상수
-const HEURISTIC_WEIGHTS = {
+export const HEURISTIC_WEIGHTS = {
   DIFFICULTY_GAP: 0.4,
   PREREQUISITE_GAP: 0.4,
   LAYER_GAP: 0.2,
   MASTERY_THRESHOLD: 0.8,
 } as const
 
+// 보정 전 기본 파라미터 세트 (HEURISTIC_WEIGHTS와 33/66 경계)
+export const DEFAULT_GAP_PARAMETER_SET: GapParameterSet = {
+  name: 'default',
+  version: 0,
+  params: {
+    difficultyWeight: HEURISTIC_WEIGHTS.DIFFICULTY_GAP,
+    prerequisiteWeight: HEURISTIC_WEIGHTS.PREREQUISITE_GAP,
+    layerWeight: HEURISTIC_WEIGHTS.LAYER_GAP,
+    masteryThreshold: HEURISTIC_WEIGHTS.MASTERY_THRESHOLD,
+    maxPathLength: 20,
+    heuristicMode: 'linear',
+  },
+  thresholds: { lowThreshold: 33, mediumThreshold: 66 },
+}
+
 // 레이어 가중치
 const LAYER_WEIGHTS = {
   L1: { L1: 0, L2: 30, L3: 60 },
@@ -51,19 +89,187 @@ export interface GapAnalysisDetail {
   }
 }
 
+export interface GapAnalyzerOptions {
+  eventBus?: GapEventBus
+  userId?: string
+  gapLevels?: GapLevelStore  // 요청마다 분석기를 만들 때는 프로세스 공용 저장소를 넘겨야 레벨 변화가 보인다
+  plugins?: GapPlugin[]
+  cache?: GapAnalysisCache  // 키에 진도 지문이 들어가므로 프로세스 간 진도 변경도 옛 결과를 쓰지 않는다
+  parameters?: GapParameterSet  // 점수 가중치·마스터리 기준·등급 경계 (maxPathLength, heuristicMode는 PathFinder용)
+}
+
 export class GapAnalyzer {
+  private graph: LearningGraphIndex
   private nodes: Map<string, LearningNode>
   private userProgress: Map<string, number>
+  private eventBus: GapEventBus | undefined
+  private userId: string | undefined
+  private gapLevels: GapLevelStore
+  private plugins = new GapPluginRegistry()
+  private cache: GapAnalysisCache | undefined
+  private progressVersion: string | null = null
+  private parameters: GapParameterSet
+  private stats = {
+    analyses: 0,
+    succeeded: 0,
+    executionTime: 0,
+    pathCalculations: 0,
+    nodesProcessed: 0,
+    cacheHits: 0,
+    cacheMisses: 0,
+  }
 
-  constructor(nodes: LearningNode[], userProgress: Map<string, number>) {
-    this.nodes = new Map(nodes.map(node => [node.id, node]))
+  constructor(nodes: LearningNode[], userProgress: Map<string, number>, options: GapAnalyzerOptions = {}) {
+    this.graph = new LearningGraphIndex(nodes)
+    this.nodes = this.graph.nodes
     this.userProgress = new Map(userProgress)
+    this.eventBus = options.eventBus
+    this.userId = options.userId
+    this.gapLevels = options.gapLevels ?? new InMemoryGapLevelStore()
+    this.cache = options.cache
+    this.parameters = options.parameters ?? DEFAULT_GAP_PARAMETER_SET
+    this.validateParameters(this.parameters)
+    options.plugins?.forEach(plugin => this.use(plugin))
+  }
+
+  get parameterSet(): GapParameterSet {
+    return this.parameters
+  }
+
+  /**
+   * 그래프/진도 증분 갱신 — 분석기를 다시 만들지 않고 변경을 반영
+   * progress는 data.mastery, node_added는 data.node, prerequisite_updated는 data.prerequisites를 받는다.
+   * 영향받은 노드 ID를 반환하고 해당 노드가 포함된 캐시 결과만 무효화한다.
+   */
+  applyUpdate(update: GapUpdate): string[] {
+    if (update.type === 'progress') {
+      const mastery = update.data?.mastery
+      if (typeof mastery !== 'number' || !Number.isFinite(mastery)) {
+        throw new GapValidationError('progress update requires numeric data.mastery', { nodeId: update.nodeId })
+      }
+      // 현재 수준 판단이 전체 진도에 의존하므로 사용자 단위로 무효화된다
+      this.updateProgress(update.nodeId, mastery)
+      return [update.nodeId]
+    }
+
+    const { affectedNodeIds } = this.graph.apply(update)
+    if (update.type === 'node_removed') {
+      this.gapLevels.delete(this.userId, update.nodeId)
+    }
+    this.cache?.invalidateNodes(affectedNodeIds)
+
+    return affectedNodeIds
+  }
+
+  /**
+   * 플러그인 등록 (initialize 실패 시 false)
+   */
+  use(plugin: GapPlugin): boolean {
+    return this.plugins.register(plugin, {
+      analyzer: this,
+      eventBus: this.eventBus ?? null,
+      cache: this.cache ?? null,
+      logger: console,
+    })
+  }
+
+  removePlugin(name: string): boolean {
+    return this.plugins.unregister(name)
+  }
+
+  /**
+   * 분석 성능 지표 (플러그인별 실행 시간 포함)
+   */
+  getPerformance(): AlgorithmPerformance {
+    const { analyses, succeeded, executionTime, pathCalculations, nodesProcessed, cacheHits, cacheMisses } = this.stats
+
+    return {
+      executionTime,
+      memoryUsage: typeof process !== 'undefined' ? process.memoryUsage().heapUsed : 0,
+      cacheHits,
+      cacheMisses,
+      pathCalculations,
+      averageNodesProcessed: pathCalculations > 0 ? nodesProcessed / pathCalculations : 0,
+      successRate: analyses > 0 ? succeeded / analyses : 0,
+      pluginTimings: this.plugins.getTimings(),
+    }
+  }
+
+  /**
+   * 등록된 플러그인 정리
+   */
+  dispose(): void {
+    this.plugins.clear()
+  }
+
+  /**
+   * 노드 마스터리 갱신 — 이후 분석에서 Gap 레벨 변화가 이벤트로 발행된다
+   */
+  updateProgress(nodeId: string, mastery: number): void {
+    this.userProgress.set(nodeId, Math.max(0, Math.min(1, mastery)))
+    this.progressVersion = null
+    this.cache?.invalidateUser(this.userId)
   }
 
   /**
    * 단일 Gap 분석 실행
+   * 캐시가 있으면 (사용자, 진도 지문, 목표 노드, 현재 수준, 옵션, 파라미터 세트, 플러그인 구성) 단위로 재사용한다.
+   * - excludeCompleted: 마스터한 노드를 경로와 추천에서 뺀다.
+   * - timeLimit (분): 경로를 예산에 맞게 다시 고르고 남은 노드를 timeBudget.deferred로 돌려준다.
    */
-  analyzeGap(targetNodeId: string, currentLevel?: number): GapAnalysisResult {
+  analyzeGap(
+    targetNodeId: string,
+    currentLevel?: number,
+    options: GapAnalysisOptions = {}
+  ): GapAnalysisResult {
+    const start = Date.now()
+    this.stats.analyses++
+
+    try {
+      const cacheKey = {
+        ...(this.userId !== undefined && { userId: this.userId }),
+        targetNodeId,
+        ...(currentLevel !== undefined && { currentLevel }),
+        options,
+        variant: [
+          `params:${this.parameters.name}@${this.parameters.version}`,
+          ...this.plugins.list().map(plugin => `${plugin.name}@${plugin.version}`),
+        ].join(','),
+        progressVersion: this.progressVersion ??= progressFingerprint(this.userProgress),
+      }
+
+      let result = this.cache?.get(cacheKey)
+      if (result) {
+        this.stats.cacheHits++
+      } else {
+        if (this.cache) this.stats.cacheMisses++
+        result = this.runAnalysis(targetNodeId, currentLevel, options)
+        this.cache?.set(cacheKey, result)
+      }
+
+      this.publishGapLevelChange(
+        result.targetNode.id,
+        result.recommendedPath[0]?.id ?? null,
+        result.gapScore,
+        result.gapLevel
+      )
+      this.stats.succeeded++
+      return result
+    } finally {
+      this.stats.executionTime += Date.now() - start
+    }
+  }
+
+  private runAnalysis(
+    targetNodeId: string,
+    currentLevel: number | undefined,
+    options: GapAnalysisOptions
+  ): GapAnalysisResult {
+    const { timeLimit, excludeCompleted = false } = options
+    if (timeLimit !== undefined && !(Number.isFinite(timeLimit) && timeLimit > 0)) {
+      throw new GapValidationError('timeLimit must be a positive number of minutes', { timeLimit })
+    }
+
     const targetNode = this.nodes.get(targetNodeId)
     if (!targetNode) {
       throw new Error(`Target node not found: ${targetNodeId}`)
@@ -81,8 +287,28 @@ export class GapAnalyzer {
     // 선수 조분석
     const missingPrerequisites = this.findMissingPrerequisites(targetNode)
 
-    // 최적 경로 찾기
-    const recommendedPath = this.findOptimalPath(currentNode.id, targetNode.id)
+    // 최적 경로 찾기 (플러그인 후처리)
+    let recommendedPath = this.plugins.applyPath(
+      this.findOptimalPath(currentNode.id, targetNode.id),
+      { fromNodeId: currentNode.id, toNodeId: targetNode.id, userProgress: this.userProgress }
+    )
+
+    if (excludeCompleted) {
+      recommendedPath = recommendedPath.filter(node => !this.isMastered(node.id))
+    }
+
+    let recommendations = this.generateRecommendations(targetNode, missingPrerequisites, recommendedPath)
+    if (excludeCompleted) {
+      recommendations = recommendations.filter(recommendation => !this.isMastered(recommendation.nodeId))
+    }
+
+    // 시간 예산 모드
+    let timeBudget: TimeBudgetResult | undefined
+    if (timeLimit !== undefined) {
+      const fitted = this.fitToTimeLimit(recommendedPath, recommendations, targetNode, timeLimit)
+      recommendedPath = fitted.path
+      timeBudget = fitted.budget
+    }
 
     // 예상 시간 계산
     const estimatedTime = this.calculateEstimatedTime(recommendedPath)
@@ -90,10 +316,13 @@ export class GapAnalyzer {
     return {
       targetNode,
       gapScore,
+      gapLevel: this.determineGapLevel(gapScore),
       missingPrerequisites,
       recommendedPath,
       estimatedTime,
       confidence: this.calculateConfidence(gapScore, missingPrerequisites.length),
+      recommendations,
+      ...(timeBudget && { timeBudget }),
     }
   }
 
@@ -124,8 +353,8 @@ export class GapAnalyzer {
   /**
    * Gap 메트릭 수집
    */
-  collectGapMetrics(targetNodeIds: string[]): GapMetrics {
-    const analyses = this.analyzeMultipleGaps(targetNodeIds)
+  collectGapMetrics(targetNodeIds: string[], currentLevel?: number): GapMetrics {
+    const analyses = this.analyzeMultipleGaps(targetNodeIds, currentLevel)
 
     let totalGapScore = 0
     const gapDistribution = { low: 0, medium: 0, high: 0 }
@@ -158,12 +387,72 @@ export class GapAnalyzer {
     }
   }
 
+  /**
+   * 가중치 적용 전 Gap 점수 구성 요소 (임계값·가중치 보정용, 플러그인 미적용)
+   */
+  scoreComponents(targetNodeId: string, currentLevel?: number): GapScoreComponents {
+    const targetNode = this.nodes.get(targetNodeId)
+    if (!targetNode) {
+      throw new Error(`Target node not found: ${targetNodeId}`)
+    }
+    const currentNode = this.determineCurrentLevel(currentLevel)
+    if (!currentNode) {
+      throw new Error('Could not determine current level')
+    }
+
+    return {
+      fromNodeId: currentNode.id,
+      difficultyGap: this.calculateDifficultyGap(currentNode, targetNode),
+      prerequisiteGap: this.calculatePrerequisiteGap(targetNode),
+      layerGap: this.calculateLayerGap(currentNode, targetNode),
+    }
+  }
+
+  /**
+   * Gap 레벨이 'low' 경계를 넘나들면 gap_created / gap_closed 발행
+   * 처음 분석한 노드는 열린 Gap일 때만 gap_created로 알린다.
+   */
+  private publishGapLevelChange(
+    targetNodeId: string,
+    currentNodeId: string | null,
+    gapScore: number,
+    gapLevel: GapLevel
+  ): void {
+    const previousLevel = this.gapLevels.get(this.userId, targetNodeId)
+    this.gapLevels.set(this.userId, targetNodeId, gapLevel)
+
+    if (!this.eventBus) return
+
+    const wasOpen = previousLevel !== undefined && previousLevel !== 'low'
+    const isOpen = gapLevel !== 'low'
+    if (wasOpen === isOpen) return
+
+    const details = { gapScore, gapLevel, previousLevel: previousLevel ?? null, currentNodeId }
+    this.eventBus.publish(
+      isOpen
+        ? createGapEvent('gap_created', targetNodeId, details, this.userId)
+        : createGapEvent('gap_closed', targetNodeId, details, this.userId)
+    )
+  }
+
+  private validateParameters({ name, params, thresholds }: GapParameterSet): void {
+    const weights = [params.difficultyWeight, params.prerequisiteWeight, params.layerWeight]
+    if (
+      weights.some(weight => !Number.isFinite(weight) || weight < 0) ||
+      !(params.masteryThreshold > 0 && params.masteryThreshold <= 1) ||
+      !(thresholds.lowThreshold <= thresholds.mediumThreshold)
+    ) {
+      throw new GapValidationError('Invalid gap parameter set', { name, params, thresholds })
+    }
+  }
+
   /**
    * Gap 등급 판단
    */
   private determineGapLevel(gapScore: number): GapLevel {
-    if (gapScore <= 33) return 'low'
-    if (gapScore <= 66) return 'medium'
+    const { lowThreshold, mediumThreshold } = this.parameters.thresholds
+    if (gapScore <= lowThreshold) return 'low'
+    if (gapScore <= mediumThreshold) return 'medium'
     return 'high'
   }
 
@@ -192,13 +481,13 @@ export class GapAnalyzer {
           const aMastery = this.userProgress.get(a.id) || 0
           const bMastery = this.userProgress.get(b.id) || 0
           return bMastery - aMastery
-        })[0]
+        })[0] ?? null
       }
     }
 
     // 사용자 진도 기반 현재 레벨 결정
     const masteredNodes = Array.from(this.userProgress.entries())
-      .filter(([, mastery]) => mastery >= HEURISTIC_WEIGHTS.MASTERY_THRESHOLD)
+      .filter(([, mastery]) => mastery >= this.parameters.params.masteryThreshold)
 
     if (masteredNodes.length === 0) {
       // 가장 낮은 난이도 노드 선택
@@ -220,17 +509,20 @@ export class GapAnalyzer {
    * Gap 점수 계산
    */
   private calculateGapScore(fromNode: LearningNode, toNode: LearningNode): number {
-    const difficultyGap = this.calculateDifficultyGap(fromNode, toNode)
-    const prerequisiteGap = this.calculatePrerequisiteGap(toNode)
-    const layerGap = this.calculateLayerGap(fromNode, toNode)
-
-    const weightedScore = (
-      difficultyGap * HEURISTIC_WEIGHTS.DIFFICULTY_GAP +
-      prerequisiteGap * HEURISTIC_WEIGHTS.PREREQUISITE_GAP +
-      layerGap * HEURISTIC_WEIGHTS.LAYER_GAP
-    ) / 3
-
-    return Math.min(100, Math.max(0, weightedScore))
+    const weightedScore = weightGapComponents(
+      {
+        difficultyGap: this.calculateDifficultyGap(fromNode, toNode),
+        prerequisiteGap: this.calculatePrerequisiteGap(toNode),
+        layerGap: this.calculateLayerGap(fromNode, toNode),
+      },
+      this.parameters.params
+    )
+
+    return this.plugins.applyGapScore(Math.min(100, Math.max(0, weightedScore)), {
+      fromNode,
+      toNode,
+      userProgress: this.userProgress,
+    })
   }
 
   /**
@@ -254,7 +546,7 @@ export class GapAnalyzer {
     for (const prereqId of toNode.prerequisites) {
       const userMastery = this.userProgress.get(prereqId) || 0
 
-      if (userMastery >= HEURISTIC_WEIGHTS.MASTERY_THRESHOLD) {
+      if (userMastery >= this.parameters.params.masteryThreshold) {
         satisfiedCount++
       } else {
         totalGap += (1 - userMastery) * 100
@@ -281,7 +573,7 @@ export class GapAnalyzer {
       const userMastery = this.userProgress.get(prereqId) || 0
       const prerequisiteNode = this.nodes.get(prereqId)
 
-      if (userMastery < HEURISTIC_WEIGHTS.MASTERY_THRESHOLD && prerequisiteNode) {
+      if (userMastery < this.parameters.params.masteryThreshold && prerequisiteNode) {
         missing.push(prerequisiteNode)
       }
     }
@@ -307,10 +599,12 @@ export class GapAnalyzer {
     gScore.set(fromNodeId, 0)
     fScore.set(fromNodeId, this.heuristic(fromNodeId, toNodeId))
     openSet.set(fromNodeId, fScore.get(fromNodeId)!)
+    this.stats.pathCalculations++
 
     while (openSet.size > 0) {
       // fScore가 가장 낮은 노드 선택
       const current = this.findLowestFScore(openSet)
+      this.stats.nodesProcessed++
       const currentNode = this.nodes.get(current)!
 
       if (current === toNodeId) {
@@ -325,7 +619,7 @@ export class GapAnalyzer {
       for (const neighbor of neighbors) {
         const tentativeGScore = gScore.get(current)! + this.calculateTransitionCost(currentNode, neighbor)
 
-        if (tentativeGScore < (gScore.get(neighbor.id) || Infinity)) {
+        if (tentativeGScore < (gScore.get(neighbor.id) ?? Infinity)) {
           cameFrom.set(neighbor.id, current)
           gScore.set(neighbor.id, tentativeGScore)
           fScore.set(neighbor.id, tentativeGScore + this.heuristic(neighbor.id, toNodeId))
@@ -354,11 +648,7 @@ export class GapAnalyzer {
     }
 
     // 의존 노드 추가
-    for (const otherNode of this.nodes.values()) {
-      if (otherNode.prerequisites.includes(node.id)) {
-        neighbors.push(otherNode)
-      }
-    }
+    neighbors.push(...this.graph.dependentsOf(node.id))
 
     return neighbors.filter(neighbor => neighbor.id !== node.id)
   }
@@ -468,6 +758,65 @@ export class GapAnalyzer {
     }, 0)
   }
 
+  /**
+   * 경로를 시간 예산(분)에 맞게 다시 고른다
+   * 노드는 경로 안의 마스터하지 못한 선수 조건과 묶음으로만 선택되며, 묶음의 분당 영향력
+   * (추천 impact, 추천에 없으면 남은 마스터리로 추정)이 가장 큰 것부터 예산이 허락하는 만큼 담는다.
+   * 선택된 노드는 원래 경로 순서를 유지한다.
+   */
+  private fitToTimeLimit(
+    path: LearningNode[],
+    recommendations: Recommendation[],
+    targetNode: LearningNode,
+    timeLimit: number
+  ): { path: LearningNode[]; budget: TimeBudgetResult } {
+    const onPath = new Set(path.map(node => node.id))
+    const recommendationImpact = new Map(recommendations.map(recommendation => [recommendation.nodeId, recommendation.impact]))
+    const minutes = (id: string) => this.calculateEstimatedTime([this.nodes.get(id)!])
+    const impact = (id: string) => {
+      const remaining = 1 - (this.userProgress.get(id) || 0)
+      return recommendationImpact.get(id) ?? remaining * (id === targetNode.id ? 100 : 50)
+    }
+    const bundleOf = (id: string) =>
+      this.graph.prerequisiteClosure(id, prerequisiteId => !onPath.has(prerequisiteId) || this.isMastered(prerequisiteId))
+
+    const selected = new Set<string>()
+    let used = 0
+
+    while (true) {
+      let best: { ids: string[]; time: number; ratio: number } | null = null
+
+      for (const node of path) {
+        if (selected.has(node.id)) continue
+        const ids = Array.from(bundleOf(node.id)).filter(id => !selected.has(id))
+        const time = ids.reduce((sum, id) => sum + minutes(id), 0)
+        if (used + time > timeLimit) continue
+
+        const gain = ids.reduce((sum, id) => sum + impact(id), 0)
+        const ratio = time > 0 ? gain / time : Infinity
+        if (!best || ratio > best.ratio) best = { ids, time, ratio }
+      }
+
+      if (!best) break
+      best.ids.forEach(id => selected.add(id))
+      used += best.time
+    }
+
+    const deferred: DeferredItem[] = path
+      .filter(node => !selected.has(node.id))
+      .map(node => ({
+        node,
+        estimatedTime: minutes(node.id),
+        impact: impact(node.id),
+        reason: used + minutes(node.id) <= timeLimit ? 'prerequisite_deferred' : 'over_budget',
+      }))
+
+    return {
+      path: path.filter(node => selected.has(node.id)),
+      budget: { limit: timeLimit, used, deferred },
+    }
+  }
+
   /**
    * 시간 분해
    */
@@ -481,6 +830,80 @@ export class GapAnalyzer {
     }
   }
 
+  /**
+   * 추천 항목 생성
+   */
+  private generateRecommendations(
+    targetNode: LearningNode,
+    missingPrerequisites: LearningNode[],
+    recommendedPath: LearningNode[]
+  ): Recommendation[] {
+    const recommendations: Recommendation[] = []
+    const seen = new Set<string>()
+
+    const add = (
+      type: Recommendation['type'],
+      node: LearningNode,
+      reason: string,
+      priority: Recommendation['priority'],
+      impact: number
+    ) => {
+      if (seen.has(node.id)) return
+      seen.add(node.id)
+      recommendations.push({
+        type,
+        nodeId: node.id,
+        node,
+        reason,
+        priority,
+        estimatedTime: this.calculateEstimatedTime([node]),
+        impact,
+      })
+    }
+
+    // 부족한 선수 조건 우선
+    missingPrerequisites.forEach(node => {
+      const mastery = this.userProgress.get(node.id) || 0
+      add('prerequisite', node, 'Prerequisite not yet mastered', 'high', (1 - mastery) * 100)
+    })
+
+    // 일부 학습했지만 마스터리에 못 미친 경로 노드는 복습
+    recommendedPath.forEach(node => {
+      const mastery = this.userProgress.get(node.id) || 0
+      if (node.id !== targetNode.id && mastery > 0 && mastery < this.parameters.params.masteryThreshold) {
+        add('review', node, 'Partially learned node on the recommended path', 'medium', (1 - mastery) * 50)
+      }
+    })
+
+    // 같은 레이어의 유사 난이도 노드는 병행 학습
+    for (const node of this.nodes.values()) {
+      if (
+        node.id !== targetNode.id &&
+        node.layer === targetNode.layer &&
+        Math.abs(node.difficulty - targetNode.difficulty) <= 1 &&
+        (this.userProgress.get(node.id) || 0) < this.parameters.params.masteryThreshold
+      ) {
+        add('parallel', node, 'Similar difficulty in the same layer', 'low', 20)
+      }
+    }
+
+    // 목표 노드에 의존하는 다음 단계
+    for (const node of this.nodes.values()) {
+      if (node.prerequisites.includes(targetNode.id)) {
+        add('advanced', node, 'Unlocked after mastering the target', 'low', 10)
+      }
+    }
+
+    return this.plugins.applyRecommendations(
+      recommendations.sort((a, b) => b.impact - a.impact),
+      { targetNode, missingPrerequisites, recommendedPath, userProgress: this.userProgress }
+    )
+  }
+
+  private isMastered(nodeId: string): boolean {
+    return (this.userProgress.get(nodeId) || 0) >= this.parameters.params.masteryThreshold
+  }
+
   /**
    * 신뢰도 계산
    */
@@ -508,37 +931,41 @@ export function createGapAnalyzer(
   return new GapAnalyzer(nodes, userProgress)
 }
 
+/**
+ * 구성 요소에 가중치를 적용한 Gap 점수 (가중 합 / 3, 0-100)
+ */
+export function weightGapComponents(
+  components: Omit<GapScoreComponents, 'fromNodeId'>,
+  params: Pick<GapOptimizationParams, 'difficultyWeight' | 'prerequisiteWeight' | 'layerWeight'>
+): number {
+  return (
+    components.difficultyGap * params.difficultyWeight +
+    components.prerequisiteGap * params.prerequisiteWeight +
+    components.layerGap * params.layerWeight
+  ) / 3
+}
+
+/**
+ * 목표 분포(%)에 맞는 등급 경계 — 점수 분위수로 정한다
+ */
 export function optimizeGapThresholds(
-  analyses: GapAnalysisDetail[],
+  analyses: Array<Pick<GapAnalysisDetail, 'gapScore'>>,
   targetDistribution: Record<GapLevel, number>
-): {
-  lowThreshold: number
-  mediumThreshold: number
-} {
-  // 분포에 맞게 임계값 조정
-  const sorted = analyses.sort((a, b) => a.gapScore - b.gapScore)
-  const total = sorted.length
-
-  const lowTarget = total * (targetDistribution.low / 100)
-  const mediumTarget = total * ((targetDistribution.low + targetDistribution.medium) / 100)
-
-  let lowThreshold = 33
-  let mediumThreshold = 66
-
-  // 분포 기반 임계값 계산
-  let lowCount = 0
-  for (const analysis of sorted) {
-    if (lowCount >= lowTarget) break
-    lowThreshold = Math.max(lowThreshold, analysis.gapScore)
-    lowCount++
+): GapThresholds {
+  if (analyses.length === 0) {
+    return { ...DEFAULT_GAP_PARAMETER_SET.thresholds }
   }
 
-  let mediumCount = lowCount
-  for (const analysis of sorted) {
-    if (mediumCount >= mediumTarget) break
-    mediumThreshold = Math.max(mediumThreshold, analysis.gapScore)
-    mediumCount++
+  const sorted = analyses.map(analysis => analysis.gapScore).sort((a, b) => a - b)
+  const total = sorted.length
+  // 목표 누적 비율에 해당하는 마지막 점수 (0건이면 최솟값 아래로 둔다)
+  const quantile = (share: number) => {
+    const count = Math.round(total * Math.max(0, Math.min(100, share)) / 100)
+    return count === 0 ? sorted[0]! - 1 : sorted[count - 1]!
   }
 
+  const lowThreshold = quantile(targetDistribution.low)
+  const mediumThreshold = Math.max(lowThreshold, quantile(targetDistribution.low + targetDistribution.medium))
+
   return { lowThreshold, mediumThreshold }
-}
\ No newline at end of file
+}
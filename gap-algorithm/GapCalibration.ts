@@ -0,0 +1,193 @@
+/**
+ * EduOntology Gap Calibration
+ * 관측된 학습 결과에 맞춰 Gap 점수 가중치·마스터리 기준·등급 경계를 보정
+ */
+
+import {
+  GapOptimizationParams,
+  GapScoreComponents,
+  GapThresholds,
+} from './types'
+import {
+  DEFAULT_GAP_PARAMETER_SET,
+  GapLevel,
+  optimizeGapThresholds,
+  weightGapComponents,
+} from './GapAnalyzer'
+
+// 분석 시점의 점수 구성 요소와 그 뒤에 관측된 결과
+export interface CalibrationObservation {
+  components: Omit<GapScoreComponents, 'fromNodeId'>
+  success: number  // 이후 정답률 (0-1)
+}
+
+export interface CalibrationOptions {
+  weightStep?: number  // 가중치 격자 간격 (합은 항상 1)
+  // 등급별 기대 정답률 하한 — low는 대부분 해내는 구간, medium은 절반 이상 해내는 구간
+  targetSuccess?: { low: number; medium: number }
+  minObservations?: number  // 미만이면 가중치는 기본값, 등급 경계는 목표 분포로 정한다
+  fallbackDistribution?: Record<GapLevel, number>  // %
+}
+
+export interface CalibrationResult {
+  params: GapOptimizationParams
+  thresholds: GapThresholds
+  metrics: {
+    method: 'outcome' | 'distribution'
+    observations: number
+    correlation: number  // Gap 점수와 실패율(1 - 정답률)의 피어슨 상관
+    levelCounts: Record<GapLevel, number>
+    levelSuccess: Record<GapLevel, number | null>  // 등급별 평균 정답률
+  }
+}
+
+const DEFAULT_OPTIONS: Required<CalibrationOptions> = {
+  weightStep: 0.1,
+  targetSuccess: { low: 0.8, medium: 0.5 },
+  minObservations: 30,
+  fallbackDistribution: { low: 50, medium: 30, high: 20 },
+}
+
+function pearson(xs: number[], ys: number[]): number {
+  const n = xs.length
+  if (n < 2) return 0
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n
+
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  xs.forEach((x, i) => {
+    const dx = x - meanX
+    const dy = ys[i]! - meanY
+    covariance += dx * dy
+    varianceX += dx * dx
+    varianceY += dy * dy
+  })
+
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0
+}
+
+/**
+ * 합이 1인 (난이도, 선수 조건, 레이어) 가중치 격자
+ */
+function weightGrid(step: number): Array<Pick<GapOptimizationParams, 'difficultyWeight' | 'prerequisiteWeight' | 'layerWeight'>> {
+  const units = Math.round(1 / step)
+  const grid = []
+  for (let d = 0; d <= units; d++) {
+    for (let p = 0; p <= units - d; p++) {
+      grid.push({
+        difficultyWeight: d / units,
+        prerequisiteWeight: p / units,
+        layerWeight: (units - d - p) / units,
+      })
+    }
+  }
+  return grid
+}
+
+/**
+ * 관측 결과로 등급 경계 결정
+ * low 경계: 그 점수 이하 전체의 평균 정답률이 targetSuccess.low 이상인 가장 큰 점수
+ * medium 경계: low 초과 ~ 그 점수 구간의 평균 정답률이 targetSuccess.medium 이상인 가장 큰 점수
+ */
+export function thresholdsFromOutcomes(
+  scored: Array<{ gapScore: number; success: number }>,
+  targetSuccess: { low: number; medium: number }
+): GapThresholds {
+  const sorted = [...scored].sort((a, b) => a.gapScore - b.gapScore)
+  if (sorted.length === 0) return { ...DEFAULT_GAP_PARAMETER_SET.thresholds }
+
+  // 같은 점수는 한 경계에서 함께 움직여야 하므로 점수 끝 위치에서만 자른다
+  const largestCut = (from: number, target: number, fallback: number) => {
+    let cut = fallback
+    let successSum = 0
+    for (let i = from; i < sorted.length; i++) {
+      successSum += sorted[i]!.success
+      const isLastOfScore = sorted[i + 1]?.gapScore !== sorted[i]!.gapScore
+      if (isLastOfScore && successSum / (i - from + 1) >= target) cut = sorted[i]!.gapScore
+    }
+    return cut
+  }
+
+  const lowThreshold = largestCut(0, targetSuccess.low, sorted[0]!.gapScore - 1)
+  const firstMedium = sorted.findIndex(item => item.gapScore > lowThreshold)
+  const mediumThreshold = firstMedium === -1
+    ? lowThreshold
+    : largestCut(firstMedium, targetSuccess.medium, lowThreshold)
+
+  return { lowThreshold, mediumThreshold }
+}
+
+/**
+ * 마스터리 기준별 관측치로 가중치·마스터리 기준·등급 경계를 보정
+ * 1. 점수와 실패율의 상관이 가장 큰 (마스터리 기준, 가중치) 조합을 고른다 (동률이면 기본값에 가까운 쪽).
+ * 2. 그 점수로 등급별 기대 정답률을 만족하는 경계를 정한다.
+ * 관측치가 minObservations 미만이면 기본 가중치와 목표 분포 기반 경계(optimizeGapThresholds)를 쓴다.
+ */
+export function calibrateGapParameters(
+  observationsByMasteryThreshold: Map<number, CalibrationObservation[]>,
+  base: GapOptimizationParams = DEFAULT_GAP_PARAMETER_SET.params,
+  options: CalibrationOptions = {}
+): CalibrationResult {
+  const settings = { ...DEFAULT_OPTIONS, ...options }
+  const distance = (weights: Pick<GapOptimizationParams, 'difficultyWeight' | 'prerequisiteWeight' | 'layerWeight'>) =>
+    Math.abs(weights.difficultyWeight - base.difficultyWeight) +
+    Math.abs(weights.prerequisiteWeight - base.prerequisiteWeight) +
+    Math.abs(weights.layerWeight - base.layerWeight)
+
+  let best: { params: GapOptimizationParams; observations: CalibrationObservation[]; correlation: number } | null = null
+
+  for (const [masteryThreshold, observations] of observationsByMasteryThreshold) {
+    if (observations.length < settings.minObservations) continue
+    const failures = observations.map(observation => 1 - observation.success)
+
+    for (const weights of weightGrid(settings.weightStep)) {
+      const scores = observations.map(observation => weightGapComponents(observation.components, weights))
+      const correlation = pearson(scores, failures)
+      const better = !best ||
+        correlation > best.correlation + 1e-9 ||
+        (Math.abs(correlation - best.correlation) <= 1e-9 && distance(weights) < distance(best.params))
+      if (better) {
+        best = { params: { ...base, ...weights, masteryThreshold }, observations, correlation }
+      }
+    }
+  }
+
+  // 관측치가 부족하면 기본 마스터리 기준의 관측치로 분포 기반 경계만 정한다
+  const method = best ? 'outcome' : 'distribution'
+  const params = best?.params ?? base
+  const observations = best?.observations ??
+    observationsByMasteryThreshold.get(base.masteryThreshold) ??
+    []
+  const scored = observations.map(observation => ({
+    gapScore: weightGapComponents(observation.components, params),
+    success: observation.success,
+  }))
+  const thresholds = best
+    ? thresholdsFromOutcomes(scored, settings.targetSuccess)
+    : optimizeGapThresholds(scored, settings.fallbackDistribution)
+
+  const levelOf = (score: number): GapLevel =>
+    score <= thresholds.lowThreshold ? 'low' : score <= thresholds.mediumThreshold ? 'medium' : 'high'
+  const levelCounts: Record<GapLevel, number> = { low: 0, medium: 0, high: 0 }
+  const successSums: Record<GapLevel, number> = { low: 0, medium: 0, high: 0 }
+  scored.forEach(item => {
+    const level = levelOf(item.gapScore)
+    levelCounts[level]++
+    successSums[level] += item.success
+  })
+  const average = (level: GapLevel) => levelCounts[level] > 0 ? successSums[level] / levelCounts[level] : null
+
+  return {
+    params,
+    thresholds,
+    metrics: {
+      method,
+      observations: scored.length,
+      correlation: best?.correlation ?? pearson(scored.map(item => item.gapScore), scored.map(item => 1 - item.success)),
+      levelCounts,
+      levelSuccess: { low: average('low'), medium: average('medium'), high: average('high') },
+    },
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * EduOntology Gap Event Bus
+ * Gap 생성/해소, 경로 최적화 이벤트를 프로세스 내에서 전달하는 이벤트 버스
+ */
+
+import type { GapLevel } from './GapAnalyzer'
+import { GapEvent, GapEventBus, GapEventHandler, GapEventType, GapLevelStore } from './types'
+
+type AnyHandler = (event: GapEvent) => void
+
+let eventSequence = 0
+
+/**
+ * GapEvent 생성 (id, timestamp 자동 부여)
+ */
+export function createGapEvent<T extends GapEventType>(
+  type: T,
+  gapId: string,
+  details: Record<string, any> = {},
+  userId?: string
+): GapEvent & { type: T } {
+  const timestamp = new Date()
+
+  return {
+    id: `${type}-${timestamp.getTime()}-${++eventSequence}`,
+    type,
+    gapId,
+    ...(userId !== undefined && { userId }),
+    timestamp: timestamp.toISOString(),
+    details,
+  }
+}
+
+export class InMemoryGapEventBus implements GapEventBus {
+  private handlers = new Map<GapEventType | '*', Set<AnyHandler>>()
+
+  /**
+   * 이벤트 구독 — 구독 해제 함수를 반환
+   */
+  subscribe<T extends GapEventType>(eventType: T | '*', handler: GapEventHandler<T>): () => void {
+    const handlers = this.handlers.get(eventType) ?? new Set<AnyHandler>()
+    handlers.add(handler as AnyHandler)
+    this.handlers.set(eventType, handlers)
+
+    return () => this.unsubscribe(eventType, handler)
+  }
+
+  unsubscribe<T extends GapEventType>(eventType: T | '*', handler: GapEventHandler<T>): void {
+    const handlers = this.handlers.get(eventType)
+    if (!handlers) return
+
+    handlers.delete(handler as AnyHandler)
+    if (handlers.size === 0) {
+      this.handlers.delete(eventType)
+    }
+  }
+
+  /**
+   * 이벤트 발행
+   * 핸들러 예외는 기록만 하고 발행자나 다른 핸들러로 전파하지 않는다.
+   */
+  publish(event: GapEvent): void {
+    const handlers = [
+      ...(this.handlers.get(event.type) ?? []),
+      ...(this.handlers.get('*') ?? []),
+    ]
+
+    for (const handler of handlers) {
+      try {
+        handler(event)
+      } catch (error) {
+        console.error(`Gap event handler failed for ${event.type}:`, error)
+      }
+    }
+  }
+
+  /**
+   * 구독자 수 (eventType 생략 시 전체)
+   */
+  listenerCount(eventType?: GapEventType | '*'): number {
+    if (eventType) {
+      return this.handlers.get(eventType)?.size ?? 0
+    }
+    return Array.from(this.handlers.values()).reduce((sum, handlers) => sum + handlers.size, 0)
+  }
+
+  clear(): void {
+    this.handlers.clear()
+  }
+}
+
+/**
+ * 프로세스 내 Gap 레벨 저장소
+ * 가장 오래 갱신되지 않은 항목부터 maxEntries를 넘는 만큼 버린다.
+ */
+export class InMemoryGapLevelStore implements GapLevelStore {
+  private levels = new Map<string, GapLevel>()
+
+  constructor(private maxEntries = 50000) {}
+
+  get(userId: string | undefined, nodeId: string): GapLevel | undefined {
+    return this.levels.get(InMemoryGapLevelStore.keyOf(userId, nodeId))
+  }
+
+  set(userId: string | undefined, nodeId: string, level: GapLevel): void {
+    const key = InMemoryGapLevelStore.keyOf(userId, nodeId)
+    this.levels.delete(key)
+    this.levels.set(key, level)
+
+    while (this.levels.size > this.maxEntries) {
+      const oldest = this.levels.keys().next().value
+      if (oldest === undefined) break
+      this.levels.delete(oldest)
+    }
+  }
+
+  delete(userId: string | undefined, nodeId: string): void {
+    this.levels.delete(InMemoryGapLevelStore.keyOf(userId, nodeId))
+  }
+
+  get size(): number {
+    return this.levels.size
+  }
+
+  clear(): void {
+    this.levels.clear()
+  }
+
+  private static keyOf(userId: string | undefined, nodeId: string): string {
+    return `${userId ?? ''}\u0000${nodeId}`
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * EduOntology Gap Plugin Registry
+ * 학교별 점수 규칙, 경로 후처리, 추천 로직을 GapAnalyzer에 끼워 넣는 플러그인 호스트
+ */
+
+import {
+  GapPlugin,
+  GapPluginContext,
+  GapScoreHookContext,
+  LearningNode,
+  PathHookContext,
+  PluginTiming,
+  Recommendation,
+  RecommendationHookContext,
+} from './types'
+
+type HookName = 'adjustGapScore' | 'processPath' | 'adjustRecommendations'
+
+interface RegisteredPlugin {
+  plugin: GapPlugin
+  sequence: number
+  timing: PluginTiming
+}
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now())
+
+export class GapPluginRegistry {
+  private plugins: RegisteredPlugin[] = []
+  private sequence = 0
+
+  constructor(private logger: Pick<Console, 'warn' | 'error'> = console) {}
+
+  /**
+   * 플러그인 등록 — initialize가 실패하면 등록하지 않고 false 반환
+   */
+  register(plugin: GapPlugin, context: GapPluginContext): boolean {
+    if (this.plugins.some(entry => entry.plugin.name === plugin.name)) {
+      throw new Error(`Plugin already registered: ${plugin.name}`)
+    }
+
+    try {
+      plugin.initialize(context)
+    } catch (error) {
+      this.logger.error(`Gap plugin ${plugin.name}@${plugin.version} failed to initialize:`, error)
+      return false
+    }
+
+    this.plugins.push({
+      plugin,
+      sequence: this.sequence++,
+      timing: { calls: 0, totalTime: 0, averageTime: 0, errors: 0 },
+    })
+    // order 오름차순, 같으면 등록 순서
+    this.plugins.sort((a, b) =>
+      (a.plugin.order ?? 0) - (b.plugin.order ?? 0) || a.sequence - b.sequence
+    )
+    return true
+  }
+
+  unregister(name: string): boolean {
+    const index = this.plugins.findIndex(entry => entry.plugin.name === name)
+    if (index === -1) return false
+
+    const [entry] = this.plugins.splice(index, 1)
+    if (entry) this.cleanupPlugin(entry.plugin)
+    return true
+  }
+
+  has(name: string): boolean {
+    return this.plugins.some(entry => entry.plugin.name === name)
+  }
+
+  list(): GapPlugin[] {
+    return this.plugins.map(entry => entry.plugin)
+  }
+
+  /**
+   * Gap 점수 훅 체인 (결과는 0-100으로 보정)
+   */
+  applyGapScore(gapScore: number, context: GapScoreHookContext): number {
+    return this.runHook('adjustGapScore', gapScore, (plugin, value) => {
+      const adjusted = plugin.adjustGapScore!(value, context)
+      if (typeof adjusted !== 'number' || !Number.isFinite(adjusted)) {
+        throw new Error(`adjustGapScore returned ${adjusted}`)
+      }
+      return Math.min(100, Math.max(0, adjusted))
+    })
+  }
+
+  /**
+   * 경로 후처리 훅 체인
+   */
+  applyPath(path: LearningNode[], context: PathHookContext): LearningNode[] {
+    return this.runHook('processPath', path, (plugin, value) => {
+      const processed = plugin.processPath!([...value], context)
+      if (!Array.isArray(processed)) {
+        throw new Error('processPath must return an array of nodes')
+      }
+      return processed
+    })
+  }
+
+  /**
+   * 추천 항목 훅 체인
+   */
+  applyRecommendations(
+    recommendations: Recommendation[],
+    context: RecommendationHookContext
+  ): Recommendation[] {
+    return this.runHook('adjustRecommendations', recommendations, (plugin, value) => {
+      const adjusted = plugin.adjustRecommendations!([...value], context)
+      if (!Array.isArray(adjusted)) {
+        throw new Error('adjustRecommendations must return an array of recommendations')
+      }
+      return adjusted
+    })
+  }
+
+  /**
+   * 특정 플러그인의 범용 process 호출 (실패 시 undefined)
+   */
+  process(name: string, data: any): any {
+    const entry = this.plugins.find(candidate => candidate.plugin.name === name)
+    if (!entry) {
+      throw new Error(`Plugin not registered: ${name}`)
+    }
+
+    return this.timed(entry, 'process', () => entry.plugin.process(data), undefined)
+  }
+
+  /**
+   * 플러그인별 실행 통계 (AlgorithmPerformance.pluginTimings)
+   */
+  getTimings(): Record<string, PluginTiming> {
+    return Object.fromEntries(
+      this.plugins.map(entry => [entry.plugin.name, { ...entry.timing }])
+    )
+  }
+
+  clear(): void {
+    const plugins = this.plugins
+    this.plugins = []
+    plugins.forEach(entry => this.cleanupPlugin(entry.plugin))
+  }
+
+  /**
+   * 훅을 구현한 플러그인을 순서대로 실행
+   * 실패한 플러그인은 건너뛰고 직전 값을 그대로 다음 플러그인에 넘긴다.
+   */
+  private runHook<T>(
+    hook: HookName,
+    initial: T,
+    invoke: (plugin: GapPlugin, value: T) => T
+  ): T {
+    let value = initial
+
+    for (const entry of this.plugins) {
+      if (typeof entry.plugin[hook] !== 'function') continue
+      const current = value
+      value = this.timed(entry, hook, () => invoke(entry.plugin, current), current)
+    }
+
+    return value
+  }
+
+  private timed<T>(entry: RegisteredPlugin, stage: string, fn: () => T, fallback: T): T {
+    const start = now()
+    let result = fallback
+    let failure: { error: unknown } | null = null
+
+    try {
+      result = fn()
+    } catch (error) {
+      failure = { error }
+    }
+
+    // 로깅 시간은 플러그인 실행 시간에서 제외
+    entry.timing.calls++
+    entry.timing.totalTime += now() - start
+    entry.timing.averageTime = entry.timing.totalTime / entry.timing.calls
+
+    if (failure) {
+      entry.timing.errors++
+      this.logger.error(`Gap plugin ${entry.plugin.name} failed in ${stage}:`, failure.error)
+    }
+
+    return result
+  }
+
+  private cleanupPlugin(plugin: GapPlugin): void {
+    try {
+      plugin.cleanup()
+    } catch (error) {
+      this.logger.warn(`Gap plugin ${plugin.name} failed to clean up:`, error)
+    }
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * EduOntology Learning Graph Index
+ * 노드 맵과 선수 조건 역인접(의존 노드) 색인을 함께 유지하고 GapUpdate를 증분 적용
+ */
+
+import { GapUpdate, GapValidationError, LearningNode } from './types'
+
+export interface GraphUpdateResult {
+  type: GapUpdate['type']
+  nodeId: string
+  // 결과가 달라질 수 있는 노드: 변경 노드, 전후 선수 조건, 전이적 의존 노드
+  affectedNodeIds: string[]
+}
+
+export class LearningGraphIndex {
+  readonly nodes: Map<string, LearningNode>
+  private dependents = new Map<string, Set<string>>()
+
+  constructor(nodes: LearningNode[]) {
+    this.nodes = new Map(nodes.map(node => [node.id, node]))
+    for (const node of this.nodes.values()) {
+      this.link(node)
+    }
+  }
+
+  /**
+   * nodeId를 선수 조건으로 가지는 노드들
+   */
+  dependentsOf(nodeId: string): LearningNode[] {
+    const ids = this.dependents.get(nodeId)
+    if (!ids) return []
+
+    const nodes: LearningNode[] = []
+    ids.forEach(id => {
+      const node = this.nodes.get(id)
+      if (node) nodes.push(node)
+    })
+    return nodes
+  }
+
+  /**
+   * nodeId에 전이적으로 의존하는 모든 노드 ID (자기 자신 제외)
+   */
+  collectDependents(nodeId: string): Set<string> {
+    const visited = new Set<string>()
+    const queue = [nodeId]
+
+    while (queue.length > 0) {
+      const current = queue.shift()!
+      this.dependents.get(current)?.forEach(dependentId => {
+        if (dependentId !== nodeId && !visited.has(dependentId)) {
+          visited.add(dependentId)
+          queue.push(dependentId)
+        }
+      })
+    }
+
+    return visited
+  }
+
+  /**
+   * nodeId와 전이적 선수 조건 (skip이 참인 선수 조건은 제외하고 그 아래로 내려가지 않음)
+   */
+  prerequisiteClosure(nodeId: string, skip: (id: string) => boolean = () => false): Set<string> {
+    const closure = new Set<string>([nodeId])
+    const stack = [nodeId]
+
+    while (stack.length > 0) {
+      const node = this.nodes.get(stack.pop()!)
+      if (!node) continue
+
+      for (const prerequisiteId of node.prerequisites) {
+        if (closure.has(prerequisiteId) || !this.nodes.has(prerequisiteId) || skip(prerequisiteId)) continue
+        closure.add(prerequisiteId)
+        stack.push(prerequisiteId)
+      }
+    }
+
+    return closure
+  }
+
+  /**
+   * ids를 선수 조건이 먼저 오도록 위상 정렬
+   * 선행 조건이 모두 충족된 후보 중 compare(직전 노드 기준)가 가장 작은 노드를 먼저 고른다.
+   * 순환에 걸린 노드는 compare 순으로 뒤에 붙인다.
+   */
+  topologicalOrder(
+    ids: Iterable<string>,
+    compare: (a: LearningNode, b: LearningNode, previous?: LearningNode) => number
+  ): LearningNode[] {
+    const remaining = new Map<string, number>()
+    const included = new Set(Array.from(ids).filter(id => this.nodes.has(id)))
+    included.forEach(id => {
+      const node = this.nodes.get(id)!
+      const prerequisites = new Set(
+        node.prerequisites.filter(prerequisiteId => prerequisiteId !== id && included.has(prerequisiteId))
+      )
+      remaining.set(id, prerequisites.size)
+    })
+
+    const order: LearningNode[] = []
+    const ready = Array.from(remaining.entries())
+      .filter(([, count]) => count === 0)
+      .map(([id]) => this.nodes.get(id)!)
+
+    while (ready.length > 0) {
+      const previous = order[order.length - 1]
+      ready.sort((a, b) => compare(a, b, previous))
+      const next = ready.shift()!
+      order.push(next)
+      remaining.delete(next.id)
+
+      this.dependents.get(next.id)?.forEach(dependentId => {
+        const count = remaining.get(dependentId)
+        if (count === undefined) return
+        remaining.set(dependentId, count - 1)
+        if (count - 1 === 0) ready.push(this.nodes.get(dependentId)!)
+      })
+    }
+
+    const cyclic = Array.from(remaining.keys()).map(id => this.nodes.get(id)!)
+    return order.concat(cyclic.sort((a, b) => compare(a, b)))
+  }
+
+  /**
+   * 그래프 구조 변경 적용 (progress는 호출자가 처리)
+   * - node_added: data.node (같은 ID가 있으면 교체)
+   * - node_removed: 노드와 이를 가리키는 선수 조건 참조 제거
+   * - prerequisite_updated: data.prerequisites로 선수 조건 목록 교체
+   */
+  apply(update: GapUpdate): GraphUpdateResult {
+    const affected = new Set<string>([update.nodeId])
+    const addDependents = (nodeId: string) => this.collectDependents(nodeId).forEach(id => affected.add(id))
+
+    switch (update.type) {
+      case 'progress':
+        break
+
+      case 'node_added': {
+        const node = update.data?.node as LearningNode | undefined
+        if (!node || node.id !== update.nodeId || !Array.isArray(node.prerequisites)) {
+          throw new GapValidationError('node_added requires data.node matching nodeId', { nodeId: update.nodeId })
+        }
+
+        const previous = this.nodes.get(node.id)
+        if (previous) {
+          previous.prerequisites.forEach(id => affected.add(id))
+          this.unlink(previous)
+        }
+
+        const prerequisites = node.prerequisites.filter(id => id !== node.id && this.nodes.has(id))
+        this.nodes.set(node.id, {
+          ...node,
+          prerequisites,
+          dependencies: Array.from(this.dependents.get(node.id) ?? []),
+        })
+        this.link(this.nodes.get(node.id)!)
+        prerequisites.forEach(id => affected.add(id))
+        addDependents(node.id)
+        break
+      }
+
+      case 'node_removed': {
+        const node = this.nodes.get(update.nodeId)
+        if (!node) break
+
+        addDependents(node.id)
+        node.prerequisites.forEach(id => affected.add(id))
+
+        this.unlink(node)
+        this.nodes.delete(node.id)
+        this.dependentsOf(node.id).forEach(dependent => {
+          this.replaceNode({
+            ...dependent,
+            prerequisites: dependent.prerequisites.filter(id => id !== node.id),
+          })
+        })
+        this.dependents.delete(node.id)
+        break
+      }
+
+      case 'prerequisite_updated': {
+        const node = this.nodes.get(update.nodeId)
+        const prerequisites = update.data?.prerequisites
+        if (!node) {
+          throw new GapValidationError('Unknown node for prerequisite update', { nodeId: update.nodeId })
+        }
+        if (!Array.isArray(prerequisites)) {
+          throw new GapValidationError('prerequisite_updated requires data.prerequisites', { nodeId: update.nodeId })
+        }
+
+        const next = prerequisites.filter(
+          (id: unknown): id is string => typeof id === 'string' && id !== node.id && this.nodes.has(id)
+        )
+        node.prerequisites.forEach(id => affected.add(id))
+        next.forEach(id => affected.add(id))
+
+        this.unlink(node)
+        this.replaceNode({ ...node, prerequisites: next })
+        this.link(this.nodes.get(node.id)!)
+        addDependents(node.id)
+        break
+      }
+
+      default:
+        throw new GapValidationError('Unknown graph update type', { type: (update as GapUpdate).type })
+    }
+
+    return { type: update.type, nodeId: update.nodeId, affectedNodeIds: Array.from(affected) }
+  }
+
+  /**
+   * 노드 객체는 호출자 소유일 수 있으므로 수정 대신 복사본으로 교체
+   */
+  private replaceNode(node: LearningNode): void {
+    this.nodes.set(node.id, node)
+  }
+
+  private link(node: LearningNode): void {
+    for (const prerequisiteId of node.prerequisites) {
+      if (prerequisiteId === node.id) continue
+      const set = this.dependents.get(prerequisiteId) ?? new Set<string>()
+      set.add(node.id)
+      this.dependents.set(prerequisiteId, set)
+      this.syncDependencies(prerequisiteId)
+    }
+  }
+
+  private unlink(node: LearningNode): void {
+    for (const prerequisiteId of node.prerequisites) {
+      this.dependents.get(prerequisiteId)?.delete(node.id)
+      this.syncDependencies(prerequisiteId)
+    }
+  }
+
+  /**
+   * LearningNode.dependencies를 색인과 일치시킴
+   */
+  private syncDependencies(nodeId: string): void {
+    const node = this.nodes.get(nodeId)
+    if (!node) return
+
+    const dependencies = Array.from(this.dependents.get(nodeId) ?? [])
+    if (
+      dependencies.length !== node.dependencies.length ||
+      dependencies.some(id => !node.dependencies.includes(id))
+    ) {
+      this.replaceNode({ ...node, dependencies })
+    }
+  }
+}
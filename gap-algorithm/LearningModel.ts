@@ -0,0 +1,339 @@
+/**
+ * EduOntology Learning Model
+ * 학습 이력으로 학습하는 단계별 성공 확률(로지스틱 회귀)·학습 시간(로그 선형 회귀) 예측기
+ */
+
+import {
+  GapValidationError,
+  LearningModelInput,
+  LearningModelOutput,
+  LearningNode,
+  PathPredictor,
+  UserProgress,
+} from './types'
+
+// 학습 예제: 한 세션에서 한 노드를 학습한 결과
+export interface LearningModelExample {
+  input: LearningModelInput
+  success: number  // 0-1 (정답 비율 같은 연성 레이블 허용)
+  minutes?: number  // 실제 학습 시간 — 없으면 시간 모델 학습에서 제외
+}
+
+export interface LearningModelTrainingOptions {
+  iterations?: number
+  learningRate?: number
+  l2?: number  // 가중치 감쇠 (편향 제외)
+}
+
+export type LearningContext = Pick<LearningModelInput, 'timeOfDay' | 'dayOfWeek' | 'sessionDuration'>
+
+// 직렬화 가능한 학습 결과 (저장·복원용)
+export interface LearningModelWeights {
+  features: string[]
+  success: number[]
+  time: number[] | null  // 시간 레이블이 없었으면 null — 기본 공식으로 예측
+  examples: number
+  timeExamples: number
+}
+
+export interface LearningModelMetrics {
+  examples: number
+  logLoss: number
+  accuracy: number
+  timeExamples: number
+  timeMae: number | null  // 분
+}
+
+export const LEARNING_MODEL_FEATURES = [
+  'bias',
+  'targetDifficulty',
+  'difficultyStep',
+  'targetMastery',
+  'currentMastery',
+  'prerequisiteMastery',
+  'targetAttempts',
+  'hourSin',
+  'hourCos',
+  'weekend',
+  'sessionHours',
+] as const
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+const EPSILON = 1e-6
+
+/**
+ * 학습·예측에서 같은 형식을 쓰도록 시각에서 학습 맥락 생성
+ */
+export function contextAt(date: Date, sessionDuration?: number): LearningContext {
+  const hours = String(date.getHours()).padStart(2, '0')
+  const minutes = String(date.getMinutes()).padStart(2, '0')
+  return {
+    timeOfDay: `${hours}:${minutes}`,
+    dayOfWeek: DAY_NAMES[date.getDay()]!,
+    ...(sessionDuration !== undefined && { sessionDuration }),
+  }
+}
+
+function parseHour(timeOfDay?: string): number | null {
+  const match = timeOfDay?.match(/^(\d{1,2})(?::(\d{2}))?/)
+  if (!match) return null
+  const hour = Number(match[1]) + Number(match[2] ?? 0) / 60
+  return hour >= 0 && hour < 24 ? hour : null
+}
+
+function isWeekend(dayOfWeek?: string): boolean {
+  const day = dayOfWeek?.trim().toLowerCase()
+  if (!day) return false
+  return day === '0' || day === '6' || day.startsWith('sat') || day.startsWith('sun')
+}
+
+/**
+ * LEARNING_MODEL_FEATURES 순서의 특성 벡터
+ */
+export function extractFeatures(input: LearningModelInput): number[] {
+  const history = new Map(input.userHistory.map(progress => [progress.nodeId, progress]))
+  const mastery = (nodeId: string) => history.get(nodeId)?.masteryLevel ?? 0
+  const { currentNode, targetNode } = input
+
+  // 선수 조건이 없으면 빠진 것도 없으므로 1
+  const prerequisiteMastery = targetNode.prerequisites.length > 0
+    ? targetNode.prerequisites.reduce((sum, id) => sum + mastery(id), 0) / targetNode.prerequisites.length
+    : 1
+  const hour = parseHour(input.timeOfDay)
+
+  return [
+    1,
+    targetNode.difficulty / 10,
+    (targetNode.difficulty - currentNode.difficulty) / 10,
+    mastery(targetNode.id),
+    mastery(currentNode.id),
+    prerequisiteMastery,
+    Math.log1p(history.get(targetNode.id)?.attempts ?? 0) / 3,
+    hour === null ? 0 : Math.sin((2 * Math.PI * hour) / 24),
+    hour === null ? 0 : Math.cos((2 * Math.PI * hour) / 24),
+    isWeekend(input.dayOfWeek) ? 1 : 0,
+    (input.sessionDuration ?? 0) / 60,
+  ]
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value))
+}
+
+function dot(weights: number[], features: number[]): number {
+  return weights.reduce((sum, weight, i) => sum + weight * (features[i] ?? 0), 0)
+}
+
+/**
+ * 배치 경사 하강 — link가 sigmoid면 로지스틱 회귀(교차 엔트로피), 항등이면 선형 회귀(제곱 오차)
+ */
+function fitLinearModel(
+  rows: number[][],
+  targets: number[],
+  link: (value: number) => number,
+  options: Required<LearningModelTrainingOptions>
+): number[] {
+  const size = LEARNING_MODEL_FEATURES.length
+  const weights = new Array<number>(size).fill(0)
+  if (rows.length === 0) return weights
+
+  for (let iteration = 0; iteration < options.iterations; iteration++) {
+    const gradient = new Array<number>(size).fill(0)
+
+    rows.forEach((features, row) => {
+      const error = link(dot(weights, features)) - targets[row]!
+      features.forEach((value, i) => {
+        gradient[i]! += (error * value) / rows.length
+      })
+    })
+
+    for (let i = 0; i < size; i++) {
+      const decay = i === 0 ? 0 : options.l2 * weights[i]!
+      weights[i]! -= options.learningRate * (gradient[i]! + decay)
+    }
+  }
+
+  return weights
+}
+
+/**
+ * 예제가 없을 때의 학습 시간 — PathFinder와 같은 난이도 × 15분, 마스터리로 할인
+ */
+function defaultMinutes(input: LearningModelInput): number {
+  const mastery = input.userHistory.find(progress => progress.nodeId === input.targetNode.id)?.masteryLevel ?? 0
+  return input.targetNode.difficulty * 15 * (1 - mastery * 0.5)
+}
+
+export class LearningModel {
+  private constructor(private weights: LearningModelWeights) {}
+
+  /**
+   * 성공 확률은 로지스틱 회귀, 학습 시간은 log(분)에 대한 선형 회귀로 학습
+   */
+  static train(examples: LearningModelExample[], options: LearningModelTrainingOptions = {}): LearningModel {
+    if (examples.length === 0) {
+      throw new GapValidationError('Cannot train a learning model without examples')
+    }
+
+    const settings = { iterations: 500, learningRate: 0.5, l2: 0.01, ...options }
+    const rows = examples.map(example => extractFeatures(example.input))
+    const timed = examples
+      .map((example, i) => ({ features: rows[i]!, minutes: example.minutes }))
+      .filter((row): row is { features: number[]; minutes: number } => row.minutes !== undefined && row.minutes > 0)
+
+    const success = fitLinearModel(
+      rows,
+      examples.map(example => Math.max(0, Math.min(1, example.success))),
+      sigmoid,
+      settings
+    )
+    // log(분)은 특성보다 스케일이 커서 학습률을 낮춘다
+    const time = timed.length > 0
+      ? fitLinearModel(
+          timed.map(row => row.features),
+          timed.map(row => Math.log(row.minutes)),
+          value => value,
+          { ...settings, learningRate: settings.learningRate / 5, iterations: settings.iterations * 2 }
+        )
+      : null
+
+    return new LearningModel({
+      features: [...LEARNING_MODEL_FEATURES],
+      success,
+      time,
+      examples: examples.length,
+      timeExamples: timed.length,
+    })
+  }
+
+  static fromJSON(weights: LearningModelWeights): LearningModel {
+    const size = LEARNING_MODEL_FEATURES.length
+    if (
+      weights.features.join(',') !== LEARNING_MODEL_FEATURES.join(',') ||
+      weights.success.length !== size ||
+      (weights.time !== null && weights.time.length !== size)
+    ) {
+      throw new GapValidationError('Learning model weights do not match the current feature set', {
+        features: weights.features,
+      })
+    }
+    return new LearningModel(weights)
+  }
+
+  toJSON(): LearningModelWeights {
+    return this.weights
+  }
+
+  get trainingSize(): number {
+    return this.weights.examples
+  }
+
+  predictSuccess(input: LearningModelInput): number {
+    return sigmoid(dot(this.weights.success, extractFeatures(input)))
+  }
+
+  predictMinutes(input: LearningModelInput): number {
+    if (!this.weights.time) return defaultMinutes(input)
+    return Math.exp(dot(this.weights.time, extractFeatures(input)))
+  }
+
+  predict(input: LearningModelInput): LearningModelOutput {
+    const { currentNode, targetNode, userHistory, ...context } = input
+    return this.predictPath([currentNode, targetNode], userHistory, context)
+  }
+
+  /**
+   * 경로 예측 — path[0]은 현재 위치, 이후 각 노드를 한 단계로 본다.
+   * 완료한 단계의 마스터리는 예측 성공 확률로 올려 다음 단계의 입력에 반영한다.
+   */
+  predictPath(path: LearningNode[], userHistory: UserProgress[], context: LearningContext = {}): LearningModelOutput {
+    const history = new Map(userHistory.map(progress => [progress.nodeId, progress]))
+    let predictedCompletion = 1
+    let estimatedTime = 0
+    let successSum = 0
+
+    path.slice(1).forEach((targetNode, i) => {
+      const input: LearningModelInput = {
+        currentNode: path[i]!,
+        targetNode,
+        userHistory: Array.from(history.values()),
+        ...context,
+      }
+      const success = this.predictSuccess(input)
+      predictedCompletion *= success
+      successSum += success
+      estimatedTime += this.predictMinutes(input)
+
+      const previous = history.get(targetNode.id)
+      history.set(targetNode.id, {
+        nodeId: targetNode.id,
+        masteryLevel: Math.max(previous?.masteryLevel ?? 0, success),
+        timeSpent: previous?.timeSpent ?? 0,
+        lastAccessed: previous?.lastAccessed ?? new Date(0).toISOString(),
+        attempts: (previous?.attempts ?? 0) + 1,
+      })
+    })
+
+    const steps = Math.max(0, path.length - 1)
+    const averageSuccess = steps > 0 ? successSum / steps : 1
+
+    return {
+      optimalPath: path,
+      predictedCompletion,
+      difficultyEstimate: 1 + 9 * (1 - averageSuccess),
+      estimatedTime,
+      // 학습 예제 수에 따른 모델 신뢰도
+      confidence: this.weights.examples / (this.weights.examples + 100),
+    }
+  }
+
+  /**
+   * 한 학습자용 PathFinder 예측기
+   * PathFinder의 진도(마스터리)가 이력의 masteryLevel보다 우선한다.
+   */
+  forLearner(userHistory: UserProgress[], context: LearningContext = {}): PathPredictor {
+    return {
+      predictPath: (path, userProgress) => {
+        const history = new Map(userHistory.map(progress => [progress.nodeId, progress]))
+        userProgress.forEach((masteryLevel, nodeId) => {
+          const previous = history.get(nodeId)
+          history.set(nodeId, {
+            nodeId,
+            masteryLevel,
+            timeSpent: previous?.timeSpent ?? 0,
+            lastAccessed: previous?.lastAccessed ?? new Date(0).toISOString(),
+            attempts: previous?.attempts ?? 0,
+          })
+        })
+        return this.predictPath(path, Array.from(history.values()), context)
+      },
+    }
+  }
+
+  evaluate(examples: LearningModelExample[]): LearningModelMetrics {
+    let logLoss = 0
+    let correct = 0
+    let timeError = 0
+    let timeExamples = 0
+
+    examples.forEach(example => {
+      const p = Math.min(1 - EPSILON, Math.max(EPSILON, this.predictSuccess(example.input)))
+      const y = Math.max(0, Math.min(1, example.success))
+      logLoss -= y * Math.log(p) + (1 - y) * Math.log(1 - p)
+      if ((p >= 0.5) === (y >= 0.5)) correct++
+
+      if (example.minutes !== undefined && example.minutes > 0) {
+        timeError += Math.abs(this.predictMinutes(example.input) - example.minutes)
+        timeExamples++
+      }
+    })
+
+    return {
+      examples: examples.length,
+      logLoss: examples.length > 0 ? logLoss / examples.length : 0,
+      accuracy: examples.length > 0 ? correct / examples.length : 0,
+      timeExamples,
+      timeMae: timeExamples > 0 ? timeError / timeExamples : null,
+    }
+  }
+}
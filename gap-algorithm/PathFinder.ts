@@ -3,13 +3,26 @@
  * 최적 학습 경로 찾기 알고리즘 구현
  */
 
-import { LearningNode, Layer, PathResult, GapAnalysisOptions } from './types'
+import {
+  LearningNode,
+  Layer,
+  PathResult,
+  MultiTargetPathResult,
+  TargetCoverage,
+  GapAnalysisOptions,
+  GapUpdate,
+  GapValidationError,
+  PathPredictor,
+} from './types'
+import { LearningGraphIndex } from './LearningGraphIndex'
+import { HEURISTIC_WEIGHTS } from './GapAnalyzer'
 
 export interface PathNode {
   node: LearningNode
   gScore: number  // 시작 노드까지의 실제 비용
   hScore: number  // 목표 노드까지의 추정 비용
   fScore: number  // 총 비용 (gScore + hScore)
+  depth: number  // 시작 노드로부터의 단계 수
   previous: PathNode | null
   open: boolean
 }
@@ -21,18 +34,41 @@ export interface HeuristicConfig {
   masteryBonus: number
 }
 
+export interface PathFinderOptions {
+  // 지정하면 경로·단계 신뢰도를 휴리스틱 대신 학습 모델의 성공 확률로 계산
+  predictor?: PathPredictor
+}
+
+export interface HeuristicDiagnostics {
+  mode: HeuristicConfig['mode']
+  astarCost: number | null  // A*가 경로를 찾지 못했으면 null
+  optimalCost: number | null  // 도달할 수 없으면 null
+  excessCost: number  // A* 비용 - 최적 비용
+  suboptimal: boolean
+  admissible: boolean  // 목표에 도달 가능한 모든 노드에서 추정값 <= 실제 남은 비용
+  violations: Array<{ nodeId: string; estimate: number; actualCost: number }>  // 초과가 큰 순 (최대 20개)
+  nodesChecked: number
+  astarPath: string[]
+  optimalPath: string[]
+}
+
 export class PathFinder {
+  private graph: LearningGraphIndex
   private nodes: Map<string, LearningNode>
   private userProgress: Map<string, number>
   private heuristicConfig: HeuristicConfig
+  private predictor: PathPredictor | undefined
 
   constructor(
     nodes: LearningNode[],
     userProgress: Map<string, number>,
-    heuristicConfig: Partial<HeuristicConfig> = {}
+    heuristicConfig: Partial<HeuristicConfig> = {},
+    options: PathFinderOptions = {}
   ) {
-    this.nodes = new Map(nodes.map(node => [node.id, node]))
+    this.graph = new LearningGraphIndex(nodes)
+    this.nodes = this.graph.nodes
     this.userProgress = new Map(userProgress)
+    this.predictor = options.predictor
     this.heuristicConfig = {
       mode: 'linear',
       difficultyWeight: 1.0,
@@ -42,6 +78,23 @@ export class PathFinder {
     }
   }
 
+  /**
+   * 그래프/진도 증분 갱신 (GapAnalyzer.applyUpdate와 같은 페이로드)
+   * 영향받은 노드 ID 반환
+   */
+  applyUpdate(update: GapUpdate): string[] {
+    if (update.type === 'progress') {
+      const mastery = update.data?.mastery
+      if (typeof mastery !== 'number' || !Number.isFinite(mastery)) {
+        throw new GapValidationError('progress update requires numeric data.mastery', { nodeId: update.nodeId })
+      }
+      this.userProgress.set(update.nodeId, Math.max(0, Math.min(1, mastery)))
+      return [update.nodeId]
+    }
+
+    return this.graph.apply(update).affectedNodeIds
+  }
+
   /**
    * A* 알고리즘으로 최적 경로 찾기
    */
@@ -61,12 +114,15 @@ export class PathFinder {
     const allPaths: PathResult[] = []
 
     // 경로 찾기 시작
-    const mainPath = this.aStar(fromNodeId, toNodeId, maxPathLength, timeLimit, startTime)
+    const mainPath = this.aStarSearch(fromNodeId, toNodeId, maxPathLength, timeLimit, startTime)
 
-    if (mainPath) {
-      allPaths.push(mainPath)
+    // 연결된 경로가 없으면 대체 전략이 경로를 지어내지 않도록 빈 결과 반환
+    if (!mainPath) {
+      return { path: [], totalCost: 0, totalTime: 0, confidence: 0, alternativePaths: [] }
     }
 
+    allPaths.push(mainPath)
+
     // 대체 경로 찾기 (옵션에 따라)
     if (includeAlternatives) {
       const alternativePaths = this.findAlternativePaths(
@@ -92,9 +148,59 @@ export class PathFinder {
   }
 
   /**
-   * A* 알고리즘 구현
+   * 여러 목표를 한 번에 덮는 학습 경로
+   * 선수 조건은 모두 먼저 학습해야 하므로 목표를 덮는 최소 비용 부분 그래프(Steiner 트리)는
+   * 목표별로 마스터하지 못한 선수 조건 폐포의 합집합과 같다 — 공유 선수 조건은 한 번만 들어간다.
+   * 이를 위상 정렬하되, 준비된 후보 중 직전 노드에서의 전환 비용이 가장 작은 노드를 먼저 고른다.
+   * 경로 노드의 timeEstimate는 해당 단계의 예상 학습 시간(분)이다.
    */
-  private aStar(
+  findMultiTargetPath(targetNodeIds: string[]): MultiTargetPathResult {
+    const isMastered = (id: string) =>
+      (this.userProgress.get(id) || 0) >= HEURISTIC_WEIGHTS.MASTERY_THRESHOLD
+    const required = new Map<string, Set<string>>()
+    const coverage: Record<string, TargetCoverage> = {}
+
+    for (const targetId of new Set(targetNodeIds)) {
+      const status = !this.nodes.has(targetId) ? 'not_found' : isMastered(targetId) ? 'mastered' : 'planned'
+      coverage[targetId] = { status, nodeIds: [], sharedNodeIds: [], completedAtStep: -1, standaloneTime: 0 }
+      if (status === 'planned') {
+        required.set(targetId, this.graph.prerequisiteClosure(targetId, isMastered))
+      }
+    }
+
+    const planned = new Set<string>()
+    required.forEach(nodeIds => nodeIds.forEach(id => planned.add(id)))
+
+    const ordered = this.graph.topologicalOrder(planned, (a, b, previous) => {
+      if (previous) {
+        const costDiff = this.calculateTransitionCost(previous, a) - this.calculateTransitionCost(previous, b)
+        if (costDiff !== 0) return costDiff
+      }
+      return a.difficulty - b.difficulty || a.id.localeCompare(b.id)
+    })
+    const path = ordered.map(node => ({ ...node, timeEstimate: this.calculateTotalTime([node]) }))
+    const result = this.buildPathFromNodeList(path)
+
+    required.forEach((nodeIds, targetId) => {
+      const stepNodes = path.filter(node => nodeIds.has(node.id))
+      coverage[targetId] = {
+        status: 'planned',
+        nodeIds: stepNodes.map(node => node.id),
+        sharedNodeIds: stepNodes
+          .filter(node => Array.from(required).some(([otherId, other]) => otherId !== targetId && other.has(node.id)))
+          .map(node => node.id),
+        completedAtStep: path.findIndex(node => node.id === targetId),
+        standaloneTime: this.calculateTotalTime(stepNodes),
+      }
+    })
+
+    return { ...result, coverage }
+  }
+
+  /**
+   * A* 탐색 — 경로를 찾지 못하면 null
+   */
+  private aStarSearch(
     fromNodeId: string,
     toNodeId: string,
     maxPathLength: number,
@@ -116,6 +222,7 @@ export class PathFinder {
       gScore: 0,
       hScore: this.heuristic(fromNodeId, toNodeId),
       fScore: 0 + this.heuristic(fromNodeId, toNodeId),
+      depth: 0,
       previous: null,
       open: true,
     }
@@ -138,19 +245,20 @@ export class PathFinder {
         return this.buildPathResult(cameFrom, current)
       }
 
-      if (closedSet.size >= maxPathLength) {
-        break
-      }
-
       closedSet.add(currentNode.id)
 
+      // 최대 경로 길이에 도달한 노드는 더 이상 확장하지 않음
+      if (current.depth >= maxPathLength) {
+        continue
+      }
+
       // 인접 노드 탐색
       const neighbors = this.getValidNeighbors(currentNode, closedSet)
 
       for (const neighbor of neighbors) {
         if (closedSet.has(neighbor.id)) continue
 
-        const tentativeGScore = current.gScore + this.calculateTransitionCost(current, neighbor)
+        const tentativeGScore = current.gScore + this.calculateTransitionCost(currentNode, neighbor)
 
         const existingPathNode = openSet.get(neighbor.id)
 
@@ -162,6 +270,7 @@ export class PathFinder {
             gScore: tentativeGScore,
             hScore: this.heuristic(neighbor.id, toNodeId),
             fScore: tentativeGScore + this.heuristic(neighbor.id, toNodeId),
+            depth: current.depth + 1,
             previous: current,
             open: true,
           }
@@ -172,7 +281,7 @@ export class PathFinder {
     }
 
     // 경로를 찾지 못한 경우
-    return this.buildFallbackPath(fromNodeId, toNodeId)
+    return null
   }
 
   /**
@@ -243,8 +352,8 @@ export class PathFinder {
 
     for (const intermediate of intermediateNodes) {
       try {
-        const path1 = this.aStar(fromNodeId, intermediate.id, maxPathLength, timeLimit / 2, startTime)
-        const path2 = this.aStar(intermediate.id, toNodeId, maxPathLength, timeLimit / 2, startTime)
+        const path1 = this.aStarSearch(fromNodeId, intermediate.id, maxPathLength, timeLimit / 2, startTime)
+        const path2 = this.aStarSearch(intermediate.id, toNodeId, maxPathLength, timeLimit / 2, startTime)
 
         if (path1 && path2) {
           return {
@@ -279,30 +388,29 @@ export class PathFinder {
     if (!startNode || !endNode) return null
 
     const layerSequence = this.getOptimalLayerSequence(startNode.layer, endNode.layer)
-    let currentPath: PathNode[] = [startNode]
+    const currentPath: LearningNode[] = [startNode]
+    let lastNode = startNode
 
     for (const layer of layerSequence) {
       const bridgeNodes = Array.from(this.nodes.values())
-        .filter(node => node.layer === layer && node.id !== currentPath[currentPath.length - 1].id)
+        .filter(node => node.layer === layer && node.id !== lastNode.id)
 
       if (bridgeNodes.length === 0) continue
 
       // 가장 적합한 다리 노드 찾기
       const bestBridge = bridgeNodes.reduce((best, node) => {
-        const cost = this.calculateTransitionCost(
-          currentPath[currentPath.length - 1],
-          node
-        )
+        const cost = this.calculateTransitionCost(lastNode, node)
         return cost < best.cost ? { node, cost } : best
       }, { node: null as LearningNode | null, cost: Infinity })
 
       if (bestBridge.node) {
         currentPath.push(bestBridge.node)
+        lastNode = bestBridge.node
       }
     }
 
     // 마지막으로 목표 노드 추가
-    if (currentPath[currentPath.length - 1].id !== toNodeId) {
+    if (lastNode.id !== toNodeId) {
       currentPath.push(endNode)
     }
 
@@ -339,23 +447,24 @@ export class PathFinder {
       })
 
     // 경로 구성
-    const path: PathNode[] = [startNode]
+    const path: LearningNode[] = [startNode]
     const visited = new Set([fromNodeId])
+    let lastNode = startNode
 
     for (const node of sortedNodes) {
       if (visited.has(node.id) || path.length >= maxPathLength) continue
 
-      const lastNode = path[path.length - 1]
       const transitionCost = this.calculateTransitionCost(lastNode, node)
 
       if (transitionCost <= 20) {  // 합리적인 전환 비용
         path.push(node)
         visited.add(node.id)
+        lastNode = node
       }
     }
 
     // 목표 노드가 경로에 없으면 추가
-    if (path[path.length - 1].id !== toNodeId) {
+    if (lastNode.id !== toNodeId) {
       path.push(endNode)
     }
 
@@ -377,65 +486,135 @@ export class PathFinder {
     }
 
     // 의존 노드 이웃
-    for (const otherNode of this.nodes.values()) {
-      if (
-        otherNode.id !== node.id &&
-        !closedSet.has(otherNode.id) &&
-        otherNode.prerequisites.includes(node.id)
-      ) {
-        neighbors.push(otherNode)
+    for (const dependent of this.graph.dependentsOf(node.id)) {
+      if (dependent.id !== node.id && !closedSet.has(dependent.id)) {
+        neighbors.push(dependent)
       }
     }
 
-    // 난이도 기반 필터링
-    const userMastery = this.userProgress.get(node.id) || 0
-    const difficultyThreshold = 1 + (1 - userMastery) * 2
-
-    return neighbors.filter(neighbor => {
-      const difficultyDiff = Math.abs(neighbor.difficulty - node.difficulty)
-      return difficultyDiff <= difficultyThreshold
-    })
+    // 난이도 차이는 간선을 지우지 않고 calculateTransitionCost의 비용으로만 반영
+    // (걸러 내면 실제로 연결된 노드 사이에 경로가 없다고 판단하게 된다)
+    return neighbors
   }
 
   /**
-   * 휴리스틱 함수
+   * 휴리스틱 함수 — calculateTransitionCost 기준 남은 비용의 하한에 모드 변환을 적용
+   * 하한: 난이도 상승분 × 5 + 레이어 거리 × 10 + 첫 단계의 마스터리 비용 (가중치는 HeuristicConfig)
+   * - linear: 하한 그대로 — 가중치가 모두 1 이하면 허용적(admissible)이고 일관적
+   * - logarithmic: log(1 + 하한) — 항상 하한 이하라 허용적이지만 더 많이 탐색
+   * - exponential: exp(하한 / 10) - 1 — 먼 노드를 과대 추정해 탐색은 줄지만 최적 경로를 놓칠 수 있음
    */
   private heuristic(fromNodeId: string, toNodeId: string): number {
     const fromNode = this.nodes.get(fromNodeId)
     const toNode = this.nodes.get(toNodeId)
 
-    if (!fromNode || !toNode) return 0
+    if (!fromNode || !toNode || fromNodeId === toNodeId) return 0
 
-    let score = 0
+    let bound = 0
 
-    // 난이도 차이
-    const difficultyDiff = toNode.difficulty - fromNode.difficulty
-    score += Math.abs(difficultyDiff) * this.heuristicConfig.difficultyWeight
+    // 난이도 상승 (하강은 비용이 없으므로 추정하지 않음)
+    const difficultyRise = Math.max(0, toNode.difficulty - fromNode.difficulty)
+    bound += difficultyRise * 5 * this.heuristicConfig.difficultyWeight
 
-    // 레이어 차이
+    // 레이어 이동
     const layerDiff = this.getLayerDistance(fromNode.layer, toNode.layer)
-    score += layerDiff * this.heuristicConfig.layerWeight
+    bound += layerDiff * 10 * this.heuristicConfig.layerWeight
 
-    // 사용자 마스터리 보너스
+    // 출발 노드에서 나가는 첫 단계의 마스터리 비용
     const fromMastery = this.userProgress.get(fromNodeId) || 0
-    const toMastery = this.userProgress.get(toNodeId) || 0
-    score -= (fromMastery - toMastery) * this.heuristicConfig.masteryBonus
+    bound += (1 - fromMastery) * 5 * this.heuristicConfig.masteryBonus
 
-    // 휴리스틱 모드 적용
     switch (this.heuristicConfig.mode) {
       case 'exponential':
-        score = Math.exp(score / 10)
-        break
+        return Math.exp(bound / 10) - 1
       case 'logarithmic':
-        score = Math.log(1 + score)
-        break
+        return Math.log(1 + bound)
       case 'linear':
       default:
-        // 그대로 사용
-        break
+        return bound
     }
+  }
 
-    return score
+  /**
+   * 휴리스틱 진단 — A* 결과를 역방향 다익스트라(전수 탐색)로 구한 최적 비용과 비교
+   * 각 노드의 추정값이 실제 남은 비용을 넘는지(허용성 위반)도 함께 확인한다.
+   */
+  diagnoseHeuristic(
+    fromNodeId: string,
+    toNodeId: string,
+    options: GapAnalysisOptions = {}
+  ): HeuristicDiagnostics {
+    const { maxPathLength = 20, timeLimit = 30000 } = options
+    const tolerance = 1e-9
+
+    // 목표까지의 실제 최소 비용 (역방향 간선으로 다익스트라)
+    const reverse = new Map<string, Array<{ from: LearningNode; cost: number }>>()
+    for (const node of this.nodes.values()) {
+      for (const neighbor of this.getValidNeighbors(node, new Set())) {
+        const edges = reverse.get(neighbor.id) ?? []
+        edges.push({ from: node, cost: this.calculateTransitionCost(node, neighbor) })
+        reverse.set(neighbor.id, edges)
+      }
+    }
+
+    const costToGoal = new Map<string, number>()
+    const next = new Map<string, string>()
+    const frontier = new Map<string, number>()
+    if (this.nodes.has(toNodeId)) frontier.set(toNodeId, 0)
+
+    while (frontier.size > 0) {
+      let currentId = ''
+      let currentCost = Infinity
+      frontier.forEach((cost, id) => {
+        if (cost < currentCost) {
+          currentCost = cost
+          currentId = id
+        }
+      })
+      frontier.delete(currentId)
+      costToGoal.set(currentId, currentCost)
+
+      for (const { from, cost } of reverse.get(currentId) ?? []) {
+        if (costToGoal.has(from.id)) continue
+        const candidate = currentCost + cost
+        if (candidate < (frontier.get(from.id) ?? Infinity)) {
+          frontier.set(from.id, candidate)
+          next.set(from.id, currentId)
+        }
+      }
+    }
+
+    const optimalCost = costToGoal.get(fromNodeId) ?? null
+    const optimalPath: string[] = []
+    if (optimalCost !== null) {
+      let nodeId: string | undefined = fromNodeId
+      while (nodeId !== undefined) {
+        optimalPath.push(nodeId)
+        nodeId = nodeId === toNodeId ? undefined : next.get(nodeId)
+      }
+    }
+
+    const violations = Array.from(costToGoal.entries())
+      .map(([nodeId, actualCost]) => ({ nodeId, estimate: this.heuristic(nodeId, toNodeId), actualCost }))
+      .filter(violation => violation.estimate > violation.actualCost + tolerance)
+      .sort((a, b) => (b.estimate - b.actualCost) - (a.estimate - a.actualCost))
+
+    const astar = this.aStarSearch(fromNodeId, toNodeId, maxPathLength, timeLimit, performance.now())
+    const astarCost = astar?.totalCost ?? null
+    const excessCost = astarCost !== null && optimalCost !== null ? Math.max(0, astarCost - optimalCost) : 0
+
+    return {
+      mode: this.heuristicConfig.mode,
+      astarCost,
+      optimalCost,
+      excessCost,
+      suboptimal: excessCost > tolerance || (astarCost === null && optimalCost !== null),
+      admissible: violations.length === 0,
+      violations: violations.slice(0, 20),
+      nodesChecked: costToGoal.size,
+      astarPath: astar?.path.map(node => node.id) ?? [],
+      optimalPath,
+    }
   }
 
   /**
@@ -523,53 +702,18 @@ export class PathFinder {
    * 노드 리스트로부터 경로 구축
    */
   private buildPathFromNodeList(pathNodes: LearningNode[]): PathResult {
-    const path: PathNode[] = pathNodes.map(node => ({
-      node,
-      gScore: 0,
-      hScore: 0,
-      fScore: 0,
-      previous: null,
-      open: false,
-    }))
-
     // gScore 계산
-    for (let i = 1; i < path.length; i++) {
-      const cost = this.calculateTransitionCost(path[i - 1].node, path[i].node)
-      path[i].gScore = path[i - 1].gScore + cost
-      path[i].fScore = path[i].gScore
-    }
-
-    return {
-      path: path.map(p => p.node),
-      totalCost: path[path.length - 1].gScore,
-      totalTime: this.calculateTotalTime(path.map(p => p.node)),
-      confidence: this.calculatePathConfidence(path.map(p => p.node)),
-      alternativePaths: [],
-    }
-  }
-
-  /**
-   * 폴백 경로 구축
-   */
-  private buildFallbackPath(fromNodeId: string, toNodeId: string): PathResult {
-    const startNode = this.nodes.get(fromNodeId)
-    const endNode = this.nodes.get(toNodeId)
-
-    if (!startNode || !endNode) {
-      return {
-        path: [],
-        totalCost: 0,
-        totalTime: 0,
-        confidence: 0,
-        alternativePaths: [],
-      }
-    }
+    let totalCost = 0
+    pathNodes.forEach((node, i) => {
+      const previous = pathNodes[i - 1]
+      if (previous) totalCost += this.calculateTransitionCost(previous, node)
+    })
 
     return {
-      path: [startNode, endNode],
-      totalCost: 100,
-      totalTime: 120,
-      confidence: 0.3,
+      path: pathNodes,
+      totalCost,
+      totalTime: this.calculateTotalTime(pathNodes),
+      confidence: this.calculatePathConfidence(pathNodes),
       alternativePaths: [],
     }
   }
@@ -591,7 +735,7 @@ export class PathFinder {
           return a.totalCost - b.totalCost
         }
         return a.totalTime - b.totalTime
-      })[0] || paths[0]
+      })[0] ?? paths[0] ?? null
   }
 
   /**
@@ -608,37 +752,55 @@ export class PathFinder {
 
   /**
    * 경로 신뢰도 계산
+   * 예측기가 있으면 경로 전체를 완주할 확률, 없으면 단계 신뢰도 평균
    */
   private calculatePathConfidence(path: LearningNode[]): number {
     if (path.length <= 1) return 0
+    if (this.predictor) {
+      return this.predictor.predictPath(path, this.userProgress).predictedCompletion
+    }
 
     let totalConfidence = 0
     let validSteps = 0
 
-    for (let i = 1; i < path.length; i++) {
+    path.forEach((to, i) => {
       const from = path[i - 1]
-      const to = path[i]
-
-      // 난이도 비율 계산
-      const difficultyRatio = to.difficulty / from.difficulty
-      if (difficultyRatio <= 2) {  // 2배 이상 난이도 상승은 감소
-        totalConfidence += 0.8
-      } else {
-        totalConfidence += 0.5
-      }
-
-      // 마스터리 고려
-      const fromMastery = this.userProgress.get(from.id) || 0
-      if (fromMastery >= 0.7) {
-        totalConfidence += 0.2
-      }
+      if (!from) return
 
+      totalConfidence += this.calculateStepConfidence(from, to)
       validSteps++
-    }
+    })
 
     return validSteps > 0 ? totalConfidence / validSteps : 0
   }
 
+  /**
+   * 단일 전환 신뢰도 계산 (0-1)
+   */
+  calculateStepConfidence(from: LearningNode, to: LearningNode): number {
+    if (this.predictor) {
+      return this.predictor.predictPath([from, to], this.userProgress).predictedCompletion
+    }
+
+    let confidence = 0
+
+    // 난이도 비율 계산
+    const difficultyRatio = to.difficulty / from.difficulty
+    if (difficultyRatio <= 2) {  // 2배 이상 난이도 상승은 감소
+      confidence += 0.8
+    } else {
+      confidence += 0.5
+    }
+
+    // 마스터리 고려
+    const fromMastery = this.userProgress.get(from.id) || 0
+    if (fromMastery >= 0.7) {
+      confidence += 0.2
+    }
+
+    return confidence
+  }
+
   /**
    * 적합한 중간 노드 판단
    */
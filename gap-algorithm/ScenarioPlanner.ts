@@ -0,0 +1,189 @@
+/**
+ * EduOntology Scenario Planner
+ * 여러 목표 노드를 시간 예산 안에서 하나의 학습 계획으로 묶는 시나리오 실행기
+ */
+
+import {
+  GapScenario,
+  LearningNode,
+  ScenarioPlan,
+  ScenarioPlanStep,
+  UnreachableTarget,
+} from './types'
+import { HEURISTIC_WEIGHTS } from './GapAnalyzer'
+import { LearningGraphIndex } from './LearningGraphIndex'
+
+interface TargetRequirement {
+  targetId: string
+  nodeIds: Set<string>  // 목표 + 아직 마스터하지 못한 전이적 선수 조건
+  preferred: boolean
+}
+
+export class ScenarioPlanner {
+  private graph: LearningGraphIndex
+  private nodes: Map<string, LearningNode>
+
+  constructor(nodes: LearningNode[]) {
+    this.graph = new LearningGraphIndex(nodes)
+    this.nodes = this.graph.nodes
+  }
+
+  /**
+   * 시나리오 실행
+   * 1. 목표별로 마스터하지 못한 선수 조건 폐포를 구하고 제외 토픽과 충돌하는 목표를 거른다.
+   * 2. 이미 계획에 들어간 노드를 뺀 추가 비용이 가장 작은 목표부터(선호 토픽 우선) 예산에 담는다.
+   * 3. 선택된 노드를 선수 조건 순서로 정렬해 단계별 누적 시간을 매긴다.
+   */
+  plan(scenario: GapScenario): ScenarioPlan {
+    const { maxTime, preferredTopics = [], excludedTopics = [] } = scenario.constraints
+    const progress = scenario.userProgress
+    const preferred = new Set(preferredTopics.map(topic => topic.toLowerCase()))
+    const excluded = new Set(excludedTopics.map(topic => topic.toLowerCase()))
+
+    const unreachableTargets: UnreachableTarget[] = []
+    const masteredTargets: string[] = []
+    const requirements: TargetRequirement[] = []
+
+    for (const targetId of new Set(scenario.targetNodes)) {
+      const target = this.nodes.get(targetId)
+      if (!target) {
+        unreachableTargets.push({ nodeId: targetId, reason: 'not_found' })
+        continue
+      }
+      if (this.isMastered(targetId, progress)) {
+        masteredTargets.push(targetId)
+        continue
+      }
+      if (this.matchesTopic(target, excluded)) {
+        unreachableTargets.push({ nodeId: targetId, reason: 'excluded' })
+        continue
+      }
+
+      const nodeIds = this.collectRequired(targetId, progress)
+      const blockedBy = Array.from(nodeIds).filter(id =>
+        id !== targetId && this.matchesTopic(this.nodes.get(id)!, excluded)
+      )
+      if (blockedBy.length > 0) {
+        unreachableTargets.push({ nodeId: targetId, reason: 'blocked_by_exclusion', blockedBy })
+        continue
+      }
+
+      requirements.push({ targetId, nodeIds, preferred: this.matchesTopic(target, preferred) })
+    }
+
+    // 예산 안에서 목표 선택 (공유 선수 조건은 한 번만 비용 계산)
+    const planned = new Set<string>()
+    const covered: TargetRequirement[] = []
+    let usedTime = 0
+    let pending = [...requirements]
+
+    while (pending.length > 0) {
+      const ranked = pending
+        .map(requirement => ({ requirement, cost: this.marginalCost(requirement.nodeIds, planned, progress) }))
+        .sort((a, b) =>
+          Number(b.requirement.preferred) - Number(a.requirement.preferred) || a.cost - b.cost
+        )
+
+      const next = ranked.find(({ cost }) => usedTime + cost <= maxTime)
+      if (!next) {
+        ranked.forEach(({ requirement, cost }) => {
+          unreachableTargets.push({
+            nodeId: requirement.targetId,
+            reason: 'over_budget',
+            requiredTime: cost,
+          })
+        })
+        break
+      }
+
+      next.requirement.nodeIds.forEach(id => planned.add(id))
+      usedTime += next.cost
+      covered.push(next.requirement)
+      pending = pending.filter(requirement => requirement !== next.requirement)
+    }
+
+    const steps = this.orderSteps(planned, covered, progress)
+    const individualTime = covered.reduce(
+      (sum, requirement) => sum + this.marginalCost(requirement.nodeIds, new Set(), progress),
+      0
+    )
+    const totalTime = steps.reduce((sum, step) => sum + step.minutes, 0)
+
+    return {
+      scenarioId: scenario.id,
+      steps,
+      totalTime,
+      remainingTime: Math.max(0, maxTime - totalTime),
+      coveredTargets: covered.map(requirement => requirement.targetId),
+      masteredTargets,
+      unreachableTargets,
+      sharedPrerequisites: steps
+        .filter(step => step.targets.length > 1)
+        .map(step => step.node.id),
+      timeSaved: individualTime - totalTime,
+    }
+  }
+
+  /**
+   * 노드 학습 예상 시간 (정수 분) — timeEstimate가 없으면 난이도 × 15분을 마스터리로 할인
+   */
+  estimateMinutes(node: LearningNode, progress: Map<string, number>): number {
+    if (node.timeEstimate !== undefined) return Math.round(node.timeEstimate)
+    const mastery = progress.get(node.id) || 0
+    return Math.round(node.difficulty * 15 * (1 - mastery * 0.5))
+  }
+
+  /**
+   * 목표와 마스터하지 못한 전이적 선수 조건
+   * 마스터한 선수 조건 아래로는 내려가지 않는다.
+   */
+  private collectRequired(targetId: string, progress: Map<string, number>): Set<string> {
+    return this.graph.prerequisiteClosure(targetId, id => this.isMastered(id, progress))
+  }
+
+  private marginalCost(nodeIds: Set<string>, planned: Set<string>, progress: Map<string, number>): number {
+    let cost = 0
+    nodeIds.forEach(id => {
+      if (!planned.has(id)) cost += this.estimateMinutes(this.nodes.get(id)!, progress)
+    })
+    return cost
+  }
+
+  /**
+   * 선수 조건이 먼저 오도록 위상 정렬 (같은 단계에서는 난이도 오름차순)
+   */
+  private orderSteps(
+    planned: Set<string>,
+    covered: TargetRequirement[],
+    progress: Map<string, number>
+  ): ScenarioPlanStep[] {
+    const order = this.graph.topologicalOrder(planned, (a, b) =>
+      a.difficulty - b.difficulty || a.id.localeCompare(b.id)
+    )
+
+    let elapsed = 0
+    return order.map(node => {
+      const minutes = this.estimateMinutes(node, progress)
+      const step: ScenarioPlanStep = {
+        node,
+        minutes,
+        startsAt: elapsed,
+        targets: covered
+          .filter(requirement => requirement.nodeIds.has(node.id))
+          .map(requirement => requirement.targetId),
+      }
+      elapsed += minutes
+      return step
+    })
+  }
+
+  private isMastered(nodeId: string, progress: Map<string, number>): boolean {
+    return (progress.get(nodeId) || 0) >= HEURISTIC_WEIGHTS.MASTERY_THRESHOLD
+  }
+
+  private matchesTopic(node: LearningNode, topics: Set<string>): boolean {
+    if (topics.size === 0) return false
+    const nodeTopics = [node.category, ...(node.tags ?? [])]
+    return nodeTopics.some(topic => topic !== undefined && topics.has(topic.toLowerCase()))
+  }
+}
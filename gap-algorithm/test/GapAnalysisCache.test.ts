@@ -0,0 +1,120 @@
+/**
+ * EduOntology Gap Analysis Cache Tests
+ * 키 안정성, LRU 제거, TTL 만료, 무효화, 진도 지문을 검증한다
+ */
+
+import { GapAnalysisCache, progressFingerprint } from '../GapAnalysisCache'
+import { GapAnalyzer } from '../GapAnalyzer'
+import { GapAnalysisResult, LearningNode } from '../types'
+
+const node = (id: string, difficulty: number, prerequisites: string[] = []): LearningNode => ({
+  id,
+  type: 'vocabulary',
+  term: id,
+  difficulty,
+  prerequisites,
+  dependencies: [],
+  layer: difficulty <= 3 ? 'L1' : difficulty <= 7 ? 'L2' : 'L3',
+  timeEstimate: 30,
+})
+
+const result = (targetId: string, pathIds: string[] = []): GapAnalysisResult => ({
+  targetNode: node(targetId, 5),
+  gapScore: 40,
+  gapLevel: 'medium',
+  missingPrerequisites: [],
+  recommendedPath: pathIds.map(id => node(id, 3)),
+  estimatedTime: 60,
+  confidence: 50,
+  recommendations: [],
+})
+
+const key = (targetNodeId: string, userId = 'student-1') => ({ userId, targetNodeId, options: {} })
+
+describe('GapAnalysisCache', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test('should build the same key regardless of option order', () => {
+    const a = GapAnalysisCache.keyOf({ targetNodeId: 't', options: { timeLimit: 30, excludeCompleted: true } })
+    const b = GapAnalysisCache.keyOf({ targetNodeId: 't', options: { excludeCompleted: true, timeLimit: 30 } })
+    const c = GapAnalysisCache.keyOf({ targetNodeId: 't', options: { excludeCompleted: true, timeLimit: 60 } })
+
+    expect(a).toBe(b)
+    expect(a).not.toBe(c)
+  })
+
+  test('should evict the least recently used entry', () => {
+    const cache = new GapAnalysisCache({ maxEntries: 2 })
+    cache.set(key('a'), result('a'))
+    cache.set(key('b'), result('b'))
+    cache.get(key('a'))
+    cache.set(key('c'), result('c'))
+
+    expect(cache.get(key('a'))).toBeDefined()
+    expect(cache.get(key('b'))).toBeUndefined()
+    expect(cache.get(key('c'))).toBeDefined()
+    expect(cache.getStats().evictions).toBe(1)
+  })
+
+  test('should expire entries after the TTL', () => {
+    jest.useFakeTimers()
+    const cache = new GapAnalysisCache({ ttlMs: 1000 })
+    cache.set(key('a'), result('a'))
+
+    jest.advanceTimersByTime(999)
+    expect(cache.get(key('a'))).toBeDefined()
+
+    jest.advanceTimersByTime(1)
+    expect(cache.get(key('a'))).toBeUndefined()
+    expect(cache.getStats().size).toBe(0)
+  })
+
+  test('should invalidate only the given user', () => {
+    const cache = new GapAnalysisCache()
+    cache.set(key('a', 'student-1'), result('a'))
+    cache.set(key('a', 'student-2'), result('a'))
+
+    expect(cache.invalidateUser('student-1')).toBe(1)
+    expect(cache.get(key('a', 'student-1'))).toBeUndefined()
+    expect(cache.get(key('a', 'student-2'))).toBeDefined()
+  })
+
+  test('should invalidate results whose target or path touches a changed node', () => {
+    const cache = new GapAnalysisCache()
+    cache.set(key('a'), result('a', ['x']))
+    cache.set(key('b'), result('b', ['y']))
+    cache.set(key('c'), result('c'))
+
+    expect(cache.invalidateNodes(['x', 'c'])).toBe(2)
+    expect(cache.get(key('a'))).toBeUndefined()
+    expect(cache.get(key('b'))).toBeDefined()
+    expect(cache.get(key('c'))).toBeUndefined()
+  })
+
+  test('should fingerprint progress independent of insertion order', () => {
+    const a = progressFingerprint(new Map([['x', 0.5], ['y', 0.9]]))
+    const b = progressFingerprint(new Map([['y', 0.9], ['x', 0.5]]))
+    const c = progressFingerprint(new Map([['x', 0.6], ['y', 0.9]]))
+
+    expect(a).toBe(b)
+    expect(a).not.toBe(c)
+  })
+
+  test('should not serve a result computed for older progress', () => {
+    const cache = new GapAnalysisCache()
+    const nodes = [node('start', 1), node('middle', 5, ['start']), node('end', 9, ['middle'])]
+
+    // 다른 프로세스가 진도를 기록한 뒤 새 분석기가 같은 캐시를 본다
+    const before = new GapAnalyzer(nodes, new Map([['start', 0.9]]), { userId: 'student-1', cache })
+    before.analyzeGap('end', 1)
+    const after = new GapAnalyzer(nodes, new Map([['start', 0.9], ['middle', 0.9]]), { userId: 'student-1', cache })
+    after.analyzeGap('end', 1)
+    const same = new GapAnalyzer(nodes, new Map([['start', 0.9], ['middle', 0.9]]), { userId: 'student-1', cache })
+    same.analyzeGap('end', 1)
+
+    expect(after.getPerformance().cacheMisses).toBe(1)
+    expect(same.getPerformance().cacheHits).toBe(1)
+  })
+})
@@ -96,7 +96,7 @@ describe('GapAnalyzer', () => {
       expect(result.gapScore).toBeGreaterThan(0)
       expect(result.gapScore).toBeLessThanOrEqual(100)
       expect(result.confidence).toBeGreaterThan(0)
-      expect(result.confidence).toBeLessThanOrEqual(1)
+      expect(result.confidence).toBeLessThanOrEqual(100)
     })
 
     test('should have lower gap score for L1 to L2 transition', () => {
@@ -142,7 +142,7 @@ describe('GapAnalyzer', () => {
     test('should find optimal path from L1 to L3', () => {
       const result = gapAnalyzer.analyzeGap('college_concept')
 
-      expect(result.recommendedPath).toHaveLengthGreaterThan(0)
+      expect(result.recommendedPath.length).toBeGreaterThan(0)
       expect(result.estimatedTime).toBeGreaterThan(0)
 
       // 경로가 유효한지 확인 (연결성 검증)
@@ -181,7 +181,7 @@ describe('GapAnalyzer', () => {
 
       // 모든 분석에 대한 유효성 검증
       analyses.forEach(analysis => {
-        expect(analysis.targetNodeId).toBeOneOf(targetIds)
+        expect(targetIds).toContain(analysis.targetNodeId)
         expect(analysis.gapScore).toBeGreaterThan(0)
         expect(['low', 'medium', 'high']).toContain(analysis.gapLevel)
       })
@@ -198,7 +198,7 @@ describe('GapAnalyzer', () => {
       expect(metrics.gapDistribution).toHaveProperty('low')
       expect(metrics.gapDistribution).toHaveProperty('medium')
       expect(metrics.gapDistribution).toHaveProperty('high')
-      expect(metrics.mostCommonGaps).toHaveLengthLessThanOrEqual(10)
+      expect(metrics.mostCommonGaps.length).toBeLessThanOrEqual(10)
     })
   })
 
@@ -215,14 +215,14 @@ describe('GapAnalyzer', () => {
       const result = analyzer.analyzeGap('college_concept')
 
       expect(result.gapScore).toBeGreaterThan(0)
-      expect(result.missingPrerequisites).toHaveLengthGreaterThan(0)
+      expect(result.missingPrerequisites.length).toBeGreaterThan(0)
     })
 
     test('should handle nodes with no prerequisites', () => {
       const result = gapAnalyzer.analyzeGap('basic_vocabulary')
 
       expect(result.missingPrerequisites).toHaveLength(0)
-      expect(result.recommendedPath).toHaveLengthGreaterThan(0)
+      expect(result.recommendedPath.length).toBeGreaterThan(0)
     })
   })
 
@@ -274,7 +274,7 @@ describe('GapAnalyzer', () => {
 
       // Gap 점수가 낮고 선수 조건이 없을 때 신뢰도가 높아야 함
       expect(result2.confidence).toBeGreaterThan(result1.confidence)
-      expect(result2.confidence).toBeGreaterThan(0.8)
+      expect(result2.confidence).toBeGreaterThan(80)
     })
   })
 
@@ -336,10 +336,64 @@ describe('PathFinder Integration', () => {
     const pathFinder = new PathFinder(testNodes, testProgress)
     const result = pathFinder.findOptimalPath('start', 'end')
 
-    expect(result.path).toHaveLengthGreaterThan(0)
+    expect(result.path.length).toBeGreaterThan(0)
     expect(result.path[0].id).toBe('start')
     expect(result.path[result.path.length - 1].id).toBe('end')
     expect(result.confidence).toBeGreaterThan(0)
     expect(result.totalCost).toBeGreaterThan(0)
   })
-})
\ No newline at end of file
+
+  test('should return an empty path when the nodes are not connected', () => {
+    const island = (id: string, difficulty: number, layer: Layer): LearningNode => ({
+      id,
+      type: 'vocabulary',
+      term: id,
+      difficulty,
+      prerequisites: [],
+      dependencies: [],
+      layer,
+    })
+    const graph = [island('a', 1, 'L1'), island('b', 5, 'L2'), island('z', 9, 'L3')]
+    const pathFinder = new PathFinder(graph, new Map())
+
+    for (const includeAlternatives of [false, true]) {
+      const result = pathFinder.findOptimalPath('a', 'z', { includeAlternatives })
+
+      expect(result.path).toEqual([])
+      expect(result.confidence).toBe(0)
+      expect(result.alternativePaths).toEqual([])
+    }
+  })
+
+  test('should plan shared prerequisites once for multiple targets', () => {
+    const pathFinder = new PathFinder(testNodes, testProgress)
+    const result = pathFinder.findMultiTargetPath(['middle', 'end', 'start'])
+
+    expect(result.path.map(node => node.id)).toEqual(['middle', 'end'])
+    expect(result.path.every(node => node.timeEstimate! > 0)).toBe(true)
+    expect(result.coverage.end.nodeIds).toEqual(['middle', 'end'])
+    expect(result.coverage.end.sharedNodeIds).toEqual(['middle'])
+    expect(result.coverage.middle.completedAtStep).toBe(0)
+    expect(result.coverage.start.status).toBe('mastered')
+  })
+
+  test('should find the Dijkstra-optimal path with the linear heuristic', () => {
+    const node = (id: string, difficulty: number, prerequisites: string[]): LearningNode => ({
+      id,
+      type: 'vocabulary',
+      term: id,
+      difficulty,
+      prerequisites,
+      dependencies: [],
+      layer: 'L1',
+    })
+    const graph = [node('a', 1, []), node('b', 2, ['a']), node('c', 2, ['a']), node('d', 3, ['b', 'c'])]
+    const pathFinder = new PathFinder(graph, new Map([['a', 0.9], ['c', 0.5]]), { mode: 'linear' })
+    const diagnostics = pathFinder.diagnoseHeuristic('a', 'd')
+
+    expect(diagnostics.optimalCost).not.toBeNull()
+    expect(diagnostics.admissible).toBe(true)
+    expect(diagnostics.suboptimal).toBe(false)
+    expect(diagnostics.astarPath).toEqual(diagnostics.optimalPath)
+  })
+})
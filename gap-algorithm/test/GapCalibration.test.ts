@@ -0,0 +1,82 @@
+/**
+ * EduOntology Gap Calibration Tests
+ * 관측 결과 기반 등급 경계와 가중치·마스터리 기준 보정을 검증한다
+ */
+
+import { CalibrationObservation, calibrateGapParameters, thresholdsFromOutcomes } from '../GapCalibration'
+import { DEFAULT_GAP_PARAMETER_SET } from '../GapAnalyzer'
+
+const target = { low: 0.8, medium: 0.5 }
+
+describe('thresholdsFromOutcomes', () => {
+  test('should cut where the expected success drops below each target', () => {
+    const scored = [
+      { gapScore: 10, success: 1 },
+      { gapScore: 20, success: 0.9 },
+      { gapScore: 30, success: 0.8 },
+      { gapScore: 40, success: 0.6 },
+      { gapScore: 50, success: 0.5 },
+      { gapScore: 60, success: 0.2 },
+    ]
+
+    // low: 10-40 평균 0.825, medium: 50 평균 0.5
+    expect(thresholdsFromOutcomes(scored, target)).toEqual({ lowThreshold: 40, mediumThreshold: 50 })
+  })
+
+  test('should not split students with the same score', () => {
+    const scored = [
+      { gapScore: 10, success: 1 },
+      { gapScore: 10, success: 0 },
+      { gapScore: 20, success: 1 },
+    ]
+
+    expect(thresholdsFromOutcomes(scored, target).lowThreshold).toBe(9)
+    expect(thresholdsFromOutcomes(scored, { low: 0.6, medium: 0.5 }).lowThreshold).toBe(20)
+  })
+
+  test('should put everything in low when every score meets the low target', () => {
+    const scored = [
+      { gapScore: 5, success: 1 },
+      { gapScore: 80, success: 0.9 },
+    ]
+
+    expect(thresholdsFromOutcomes(scored, target)).toEqual({ lowThreshold: 80, mediumThreshold: 80 })
+  })
+
+  test('should fall back to the default thresholds without outcomes', () => {
+    expect(thresholdsFromOutcomes([], target)).toEqual(DEFAULT_GAP_PARAMETER_SET.thresholds)
+  })
+})
+
+describe('calibrateGapParameters', () => {
+  // 실패율이 선수 조건 격차에만 비례하는 관측치
+  const observations: CalibrationObservation[] = Array.from({ length: 40 }, (_, i) => ({
+    components: {
+      prerequisiteGap: i * 2.5,
+      difficultyGap: (i * 37) % 100,
+      layerGap: (i * 53) % 100,
+    },
+    success: 1 - (i * 2.5) / 100,
+  }))
+
+  test('should weight the component that predicts failure', () => {
+    const result = calibrateGapParameters(new Map([[0.7, observations]]))
+
+    expect(result.metrics.method).toBe('outcome')
+    expect(result.params.prerequisiteWeight).toBe(1)
+    expect(result.params.difficultyWeight).toBe(0)
+    expect(result.params.masteryThreshold).toBe(0.7)
+    expect(result.metrics.correlation).toBeCloseTo(1)
+    expect(result.metrics.levelSuccess.low).toBeGreaterThanOrEqual(target.low)
+    expect(result.metrics.levelSuccess.medium).toBeGreaterThanOrEqual(target.medium)
+  })
+
+  test('should keep the base weights with too few observations', () => {
+    const base = DEFAULT_GAP_PARAMETER_SET.params
+    const result = calibrateGapParameters(new Map([[base.masteryThreshold, observations.slice(0, 10)]]))
+
+    expect(result.metrics.method).toBe('distribution')
+    expect(result.params).toEqual(base)
+    expect(result.metrics.observations).toBe(10)
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * EduOntology Gap Event Tests
+ * 요청마다 새로 만든 분석기도 공용 레벨 저장소로 Gap 생성/해소를 발행하는지 검증한다
+ */
+
+import { DEFAULT_GAP_PARAMETER_SET, GapAnalyzer } from '../GapAnalyzer'
+import { InMemoryGapEventBus, InMemoryGapLevelStore } from '../GapEventBus'
+import { GapEvent, LearningNode } from '../types'
+
+const node = (id: string, difficulty: number, prerequisites: string[] = []): LearningNode => ({
+  id,
+  type: 'vocabulary',
+  term: id,
+  difficulty,
+  prerequisites,
+  dependencies: [],
+  layer: difficulty <= 3 ? 'L1' : difficulty <= 7 ? 'L2' : 'L3',
+  timeEstimate: 30,
+})
+
+const nodes = [node('start', 1), node('middle', 5, ['start']), node('end', 10, ['middle'])]
+
+// 작은 그래프라 점수가 낮으므로 'low' 경계를 낮춘다
+const parameters = { ...DEFAULT_GAP_PARAMETER_SET, thresholds: { lowThreshold: 20, mediumThreshold: 40 } }
+
+describe('Gap level events', () => {
+  test('should publish gap_closed when a later analyzer sees the gap close', () => {
+    const eventBus = new InMemoryGapEventBus()
+    const gapLevels = new InMemoryGapLevelStore()
+    const events: GapEvent[] = []
+    eventBus.subscribe('*', event => events.push(event))
+
+    const analyze = (progress: Array<[string, number]>, currentLevel: number) =>
+      new GapAnalyzer(nodes, new Map(progress), { userId: 'student-1', eventBus, gapLevels, parameters })
+        .analyzeGap('end', currentLevel)
+
+    const open = analyze([], 1)
+    expect(open.gapLevel).not.toBe('low')
+    expect(events.map(event => event.type)).toEqual(['gap_created'])
+
+    // 같은 레벨로 다시 분석하면 새 이벤트가 없다
+    analyze([], 1)
+    expect(events).toHaveLength(1)
+
+    const closed = analyze([['start', 1], ['middle', 1], ['end', 1]], 10)
+    expect(closed.gapLevel).toBe('low')
+    expect(events.map(event => event.type)).toEqual(['gap_created', 'gap_closed'])
+    expect(events[1]!.userId).toBe('student-1')
+    expect(events[1]!.details['previousLevel']).toBe(open.gapLevel)
+  })
+
+  test('should keep levels per user', () => {
+    const gapLevels = new InMemoryGapLevelStore()
+    gapLevels.set('student-1', 'end', 'high')
+
+    expect(gapLevels.get('student-1', 'end')).toBe('high')
+    expect(gapLevels.get('student-2', 'end')).toBeUndefined()
+  })
+
+  test('should drop the least recently updated levels past the limit', () => {
+    const gapLevels = new InMemoryGapLevelStore(2)
+    gapLevels.set('student-1', 'a', 'high')
+    gapLevels.set('student-1', 'b', 'high')
+    gapLevels.set('student-1', 'a', 'medium')
+    gapLevels.set('student-1', 'c', 'low')
+
+    expect(gapLevels.size).toBe(2)
+    expect(gapLevels.get('student-1', 'a')).toBe('medium')
+    expect(gapLevels.get('student-1', 'b')).toBeUndefined()
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * EduOntology Learning Model Tests
+ * 특성 추출, 성공 확률·학습 시간 학습, 경로 예측, 직렬화를 검증한다
+ */
+
+import { LEARNING_MODEL_FEATURES, LearningModel, LearningModelExample, contextAt, extractFeatures } from '../LearningModel'
+import { GapValidationError, LearningModelInput, LearningNode, UserProgress } from '../types'
+
+const node = (id: string, difficulty: number, prerequisites: string[] = []): LearningNode => ({
+  id,
+  type: 'vocabulary',
+  term: id,
+  difficulty,
+  prerequisites,
+  dependencies: [],
+  layer: difficulty <= 3 ? 'L1' : difficulty <= 7 ? 'L2' : 'L3',
+  timeEstimate: 30,
+})
+
+const progress = (nodeId: string, masteryLevel: number, attempts = 1): UserProgress => ({
+  nodeId,
+  masteryLevel,
+  timeSpent: 0,
+  lastAccessed: new Date(0).toISOString(),
+  attempts,
+})
+
+const feature = (features: number[], name: (typeof LEARNING_MODEL_FEATURES)[number]) =>
+  features[LEARNING_MODEL_FEATURES.indexOf(name)]
+
+const start = node('start', 2)
+const target = node('target', 5, ['prereq'])
+
+// 선수 노드를 익힌 학습자는 성공하고 더 빨리 끝낸다
+const examples: LearningModelExample[] = Array.from({ length: 40 }, (_, i) => {
+  const prepared = i % 2 === 0
+  return {
+    input: { currentNode: start, targetNode: target, userHistory: [progress('prereq', prepared ? 0.9 : 0.1)] },
+    success: prepared ? 1 : 0,
+    minutes: prepared ? 20 : 60,
+  }
+})
+
+const inputWith = (prerequisiteMastery: number): LearningModelInput => ({
+  currentNode: start,
+  targetNode: target,
+  userHistory: [progress('prereq', prerequisiteMastery)],
+})
+
+describe('extractFeatures', () => {
+  test('should describe difficulty, mastery and context', () => {
+    const features = extractFeatures({
+      ...inputWith(0.5),
+      userHistory: [progress('prereq', 0.5), progress('target', 0.2, 3)],
+      timeOfDay: '18:00',
+      dayOfWeek: 'Saturday',
+      sessionDuration: 30,
+    })
+
+    expect(features).toHaveLength(LEARNING_MODEL_FEATURES.length)
+    expect(feature(features, 'bias')).toBe(1)
+    expect(feature(features, 'difficultyStep')).toBeCloseTo(0.3)
+    expect(feature(features, 'targetMastery')).toBe(0.2)
+    expect(feature(features, 'prerequisiteMastery')).toBe(0.5)
+    expect(feature(features, 'hourSin')).toBeCloseTo(-1)
+    expect(feature(features, 'weekend')).toBe(1)
+    expect(feature(features, 'sessionHours')).toBe(0.5)
+  })
+
+  test('should treat a node without prerequisites as fully prepared', () => {
+    const features = extractFeatures({ currentNode: start, targetNode: node('free', 3), userHistory: [] })
+
+    expect(feature(features, 'prerequisiteMastery')).toBe(1)
+    expect(feature(features, 'hourSin')).toBe(0)
+  })
+
+  test('should build the context from a date', () => {
+    expect(contextAt(new Date(2026, 2, 14, 9, 5), 45)).toEqual({
+      timeOfDay: '09:05',
+      dayOfWeek: 'saturday',
+      sessionDuration: 45,
+    })
+  })
+})
+
+describe('LearningModel', () => {
+  test('should learn that prepared learners succeed', () => {
+    const model = LearningModel.train(examples)
+
+    expect(model.predictSuccess(inputWith(0.9))).toBeGreaterThan(0.7)
+    expect(model.predictSuccess(inputWith(0.1))).toBeLessThan(0.3)
+    expect(model.evaluate(examples).accuracy).toBe(1)
+  })
+
+  test('should learn shorter study times for prepared learners', () => {
+    const model = LearningModel.train(examples)
+
+    expect(model.predictMinutes(inputWith(0.9))).toBeLessThan(model.predictMinutes(inputWith(0.1)))
+    expect(model.evaluate(examples).timeMae).toBeLessThan(20)
+  })
+
+  test('should fall back to the difficulty formula without time labels', () => {
+    const model = LearningModel.train(examples.map(({ minutes, ...example }) => example))
+
+    expect(model.toJSON().time).toBeNull()
+    expect(model.predictMinutes(inputWith(0.5))).toBe(5 * 15)
+  })
+
+  test('should multiply step success along a path', () => {
+    const model = LearningModel.train(examples)
+    const path = [start, node('prereq', 3), target]
+    const output = model.predictPath(path, [])
+
+    const first = model.predictSuccess({ currentNode: start, targetNode: path[1]!, userHistory: [] })
+    expect(output.predictedCompletion).toBeLessThanOrEqual(first)
+    expect(output.optimalPath).toBe(path)
+    expect(output.confidence).toBeCloseTo(40 / 140)
+  })
+
+  test('should let the path finder progress override the stored history', () => {
+    const model = LearningModel.train(examples)
+    const predictor = model.forLearner([progress('prereq', 0.1)])
+
+    const prepared = predictor.predictPath([start, target], new Map([['prereq', 0.9]]))
+    const unprepared = predictor.predictPath([start, target], new Map())
+    expect(prepared.predictedCompletion).toBeGreaterThan(unprepared.predictedCompletion)
+  })
+
+  test('should round-trip its weights and reject a different feature set', () => {
+    const model = LearningModel.train(examples)
+    const restored = LearningModel.fromJSON(JSON.parse(JSON.stringify(model.toJSON())))
+
+    expect(restored.predictSuccess(inputWith(0.9))).toBeCloseTo(model.predictSuccess(inputWith(0.9)))
+    expect(() => LearningModel.fromJSON({ ...model.toJSON(), features: ['bias'] })).toThrow(GapValidationError)
+  })
+
+  test('should refuse to train without examples', () => {
+    expect(() => LearningModel.train([])).toThrow(GapValidationError)
+  })
+})
@@ -3,6 +3,8 @@
  * 3-Layer Map Gap 식별 알고리즘을 위한 타입 정의
  */
 
+import type { GapAnalyzer, GapLevel } from './GapAnalyzer'
+
 // 기본 노드 타입
 export interface LearningNode {
   id: string
@@ -52,6 +54,21 @@ export interface GapAnalysisResult {
   estimatedTime: number
   confidence: number
   recommendations: Recommendation[]
+  timeBudget?: TimeBudgetResult  // GapAnalysisOptions.timeLimit 지정 시
+}
+
+// 시간 예산 모드 결과
+export interface TimeBudgetResult {
+  limit: number  // 분
+  used: number  // 분
+  deferred: DeferredItem[]  // 예산에 담지 못한 경로 노드 (경로 순서)
+}
+
+export interface DeferredItem {
+  node: LearningNode
+  estimatedTime: number
+  impact: number
+  reason: 'over_budget' | 'prerequisite_deferred'
 }
 
 // 학습 경로 결과
@@ -63,6 +80,19 @@ export interface PathResult {
   alternativePaths: LearningNode[][]
 }
 
+// 다중 목표 학습 경로 — 목표별 커버리지
+export interface TargetCoverage {
+  status: 'planned' | 'mastered' | 'not_found'
+  nodeIds: string[]  // 이 목표에 필요한 경로 노드 (경로 순서)
+  sharedNodeIds: string[]  // 그중 다른 목표와 공유하는 노드
+  completedAtStep: number  // 목표 노드의 경로 인덱스 (계획되지 않았으면 -1)
+  standaloneTime: number  // 이 목표만 따로 공부할 때의 시간 (분)
+}
+
+export interface MultiTargetPathResult extends PathResult {
+  coverage: Record<string, TargetCoverage>
+}
+
 // 추천 타입
 export interface Recommendation {
   type: 'prerequisite' | 'parallel' | 'review' | 'advanced'
@@ -94,8 +124,8 @@ export interface GapAnalysisOptions {
   maxPathLength?: number
   includeAlternatives?: boolean
   confidenceThreshold?: number
-  timeLimit?: number
-  excludeCompleted?: boolean
+  timeLimit?: number  // GapAnalyzer.analyzeGap: 학습 시간 예산(분), PathFinder: 탐색 시간 제한(ms)
+  excludeCompleted?: boolean  // 마스터한 노드를 경로·추천에서 제외
 }
 
 // 시나리오 타입
@@ -113,6 +143,33 @@ export interface GapScenario {
   }
 }
 
+// 시나리오 학습 계획
+export interface ScenarioPlanStep {
+  node: LearningNode
+  minutes: number
+  startsAt: number  // 계획 시작부터 누적 분
+  targets: string[]  // 이 단계가 필요한 목표 노드
+}
+
+export interface UnreachableTarget {
+  nodeId: string
+  reason: 'not_found' | 'excluded' | 'blocked_by_exclusion' | 'over_budget'
+  requiredTime?: number  // over_budget: 남은 예산으로 추가하려면 필요한 분
+  blockedBy?: string[]  // blocked_by_exclusion: 제외 토픽에 속한 선수 조건
+}
+
+export interface ScenarioPlan {
+  scenarioId: string
+  steps: ScenarioPlanStep[]
+  totalTime: number
+  remainingTime: number
+  coveredTargets: string[]
+  masteredTargets: string[]
+  unreachableTargets: UnreachableTarget[]
+  sharedPrerequisites: string[]  // 둘 이상의 목표가 공유해 한 번만 배치된 노드
+  timeSaved: number  // 목표별 개별 계획 대비 절약된 분
+}
+
 // 알고리즘 성능 메트릭
 export interface AlgorithmPerformance {
   executionTime: number
@@ -122,6 +179,15 @@ export interface AlgorithmPerformance {
   pathCalculations: number
   averageNodesProcessed: number
   successRate: number
+  pluginTimings?: Record<string, PluginTiming>
+}
+
+// 플러그인별 실행 통계
+export interface PluginTiming {
+  calls: number
+  totalTime: number  // ms
+  averageTime: number  // ms
+  errors: number
 }
 
 // 시각화 데이터
@@ -157,6 +223,29 @@ export interface GapOptimizationParams {
   heuristicMode: 'linear' | 'exponential' | 'logarithmic'
 }
 
+// 이름·버전이 붙은 파라미터 세트 (보정 작업이 생성, GapAnalyzer가 로드)
+export interface GapParameterSet {
+  name: string
+  version: number
+  params: GapOptimizationParams
+  thresholds: GapThresholds
+  fittedAt?: string
+}
+
+// Gap 점수 → 등급 경계 (score <= lowThreshold: low, <= mediumThreshold: medium, 그 외 high)
+export interface GapThresholds {
+  lowThreshold: number
+  mediumThreshold: number
+}
+
+// 가중치 적용 전 Gap 점수 구성 요소 (각 0-100)
+export interface GapScoreComponents {
+  fromNodeId: string
+  difficultyGap: number
+  prerequisiteGap: number
+  layerGap: number
+}
+
 // 학습 모델 입력
 export interface LearningModelInput {
   currentNode: LearningNode
@@ -176,6 +265,11 @@ export interface LearningModelOutput {
   confidence: number
 }
 
+// 학습 모델 기반 경로 예측기 (PathFinder 신뢰도에 사용)
+export interface PathPredictor {
+  predictPath(path: LearningNode[], userProgress: Map<string, number>): LearningModelOutput
+}
+
 // 실시간 Gap 업데이트
 export interface GapUpdate {
   type: 'progress' | 'node_added' | 'node_removed' | 'prerequisite_updated'
@@ -202,6 +296,7 @@ export interface GapAPIResponse<T> {
   metrics?: {
     executionTime: number
     cacheHits: number
+    cacheMisses: number
   }
 }
 
@@ -209,7 +304,10 @@ export interface GapAPIResponse<T> {
 export interface CacheKey {
   userId?: string
   targetNodeId: string
+  currentLevel?: number
   options: GapAnalysisOptions
+  variant?: string  // 결과에 영향을 주는 분석기 구성 (플러그인 목록 등)
+  progressVersion?: string  // 진도 지문 — 다른 프로세스에서 진도가 바뀌어도 옛 결과를 쓰지 않는다
   timestamp: string
 }
 
@@ -257,55 +355,101 @@ export type RequiredFields<T, K extends keyof T> = T & Required<Pick<T, K>>
 export type OptionalFields<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>
 
 // 이벤트 핸들러 타입
-export type GapEventHandler = (event: GapEvent) => void
+export type GapEventType = GapEvent['type']
+
+export type GapEventHandler<T extends GapEventType = GapEventType> = (
+  event: GapEvent & { type: T }
+) => void
 
-// 이벤트 버스 인터페이스
+// 이벤트 버스 인터페이스 ('*'는 모든 이벤트 구독)
 export interface GapEventBus {
-  subscribe(eventType: string, handler: GapEventHandler): void
-  unsubscribe(eventType: string, handler: GapEventHandler): void
+  subscribe<T extends GapEventType>(eventType: T | '*', handler: GapEventHandler<T>): () => void
+  unsubscribe<T extends GapEventType>(eventType: T | '*', handler: GapEventHandler<T>): void
   publish(event: GapEvent): void
 }
 
+// 사용자·노드별 마지막 Gap 레벨 — 요청마다 분석기를 새로 만들어도 'low' 경계 이동을 감지하도록 분석기 밖에 둔다
+export interface GapLevelStore {
+  get(userId: string | undefined, nodeId: string): GapLevel | undefined
+  set(userId: string | undefined, nodeId: string, level: GapLevel): void
+  delete(userId: string | undefined, nodeId: string): void
+}
+
 // 플러그인 인터페이스
 export interface GapPlugin {
   name: string
   version: string
+  order?: number  // 낮을수록 먼저 실행 (기본 0)
   initialize(context: GapPluginContext): void
   process(data: any): any
   cleanup(): void
+
+  // 분석 단계 훅 — 이전 플러그인의 결과를 받아 변경된 값을 반환
+  adjustGapScore?(gapScore: number, context: GapScoreHookContext): number
+  processPath?(path: LearningNode[], context: PathHookContext): LearningNode[]
+  adjustRecommendations?(
+    recommendations: Recommendation[],
+    context: RecommendationHookContext
+  ): Recommendation[]
+}
+
+export interface GapScoreHookContext {
+  fromNode: LearningNode
+  toNode: LearningNode
+  userProgress: ReadonlyMap<string, number>
+}
+
+export interface PathHookContext {
+  fromNodeId: string
+  toNodeId: string
+  userProgress: ReadonlyMap<string, number>
+}
+
+export interface RecommendationHookContext {
+  targetNode: LearningNode
+  missingPrerequisites: LearningNode[]
+  recommendedPath: LearningNode[]
+  userProgress: ReadonlyMap<string, number>
 }
 
 export interface GapPluginContext {
   analyzer: GapAnalyzer
-  eventBus: GapEventBus
+  eventBus: GapEventBus | null  // 분석기에 eventBus를 넘기지 않았으면 null
   cache: any
   logger: any
 }
 
 // 에러 타입
-export interface GapError extends Error {
+export class GapError extends Error {
   code: string
   severity: 'low' | 'medium' | 'high' | 'critical'
   details?: any
+
+  constructor(
+    message: string,
+    code: string,
+    severity: 'low' | 'medium' | 'high' | 'critical',
+    details?: any
+  ) {
+    super(message)
+    this.name = 'GapError'
+    this.code = code
+    this.severity = severity
+    this.details = details
+  }
 }
 
 export class GapValidationError extends GapError {
   constructor(message: string, details?: any) {
-    super(message)
+    super(message, 'VALIDATION_ERROR', 'medium', details)
     this.name = 'GapValidationError'
-    this.code = 'VALIDATION_ERROR'
-    this.severity = 'medium'
-    this.details = details
   }
 }
 
 export class GapCalculationError extends GapError {
   constructor(message: string, details?: any) {
-    super(message)
+    super(message, 'CALCULATION_ERROR', 'high', details)
     this.name = 'GapCalculationError'
-    this.code = 'CALCULATION_ERROR'
-    this.severity = 'high'
-    this.details = details
   }
 }
 
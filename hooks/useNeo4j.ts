@@ -16,6 +16,7 @@ export const NEO4J_QUERY_KEYS = {
   theme: ['theme'] as const,
   learningPaths: ['learning-paths'] as const,
   gapAnalysis: ['gap-analysis'] as const,
+  prerequisites: ['prerequisites'] as const,
 } as const
 
 // Base query options
@@ -90,7 +91,17 @@ export function usePassages(options?: BaseQueryOptions & {
   orderDirection?: string
 }) {
   return useQuery({
-    queryKey: NEO4J_QUERY_KEYS.passages,
+    queryKey: [
+      ...NEO4J_QUERY_KEYS.passages,
+      options?.first,
+      options?.skip,
+      options?.title_contains,
+      options?.readingLevel_gte,
+      options?.readingLevel_lte,
+      options?.genre,
+      options?.orderBy,
+      options?.orderDirection,
+    ],
     queryFn: async () => {
       const url = new URL('/api/passages', window.location.origin)
 
@@ -113,6 +124,21 @@ export function usePassages(options?: BaseQueryOptions & {
   })
 }
 
+export function usePassage(id: string, options?: BaseQueryOptions) {
+  return useQuery({
+    queryKey: [...NEO4J_QUERY_KEYS.passage, id],
+    queryFn: async () => {
+      const response = await fetch(`/api/passages/${id}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch passage')
+      }
+      return response.json()
+    },
+    enabled: options?.enabled !== false && !!id,
+    ...options,
+  })
+}
+
 // Theme hooks
 export function useThemes(options?: BaseQueryOptions & {
   first?: number
@@ -125,7 +151,17 @@ export function useThemes(options?: BaseQueryOptions & {
   orderDirection?: string
 }) {
   return useQuery({
-    queryKey: NEO4J_QUERY_KEYS.themes,
+    queryKey: [
+      ...NEO4J_QUERY_KEYS.themes,
+      options?.first,
+      options?.skip,
+      options?.name_contains,
+      options?.category,
+      options?.complexity_gte,
+      options?.complexity_lte,
+      options?.orderBy,
+      options?.orderDirection,
+    ],
     queryFn: async () => {
       const url = new URL('/api/themes', window.location.origin)
 
@@ -148,17 +184,58 @@ export function useThemes(options?: BaseQueryOptions & {
   })
 }
 
+export function useTheme(id: string, options?: BaseQueryOptions) {
+  return useQuery({
+    queryKey: [...NEO4J_QUERY_KEYS.theme, id],
+    queryFn: async () => {
+      const response = await fetch(`/api/themes/${id}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch theme')
+      }
+      return response.json()
+    },
+    enabled: options?.enabled !== false && !!id,
+    ...options,
+  })
+}
+
+export function useThemePrerequisites(id: string, options?: BaseQueryOptions) {
+  return useQuery({
+    queryKey: [...NEO4J_QUERY_KEYS.theme, id, 'prerequisites'],
+    queryFn: async () => {
+      const response = await fetch(`/api/themes/${id}/prerequisites`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch theme prerequisites')
+      }
+      return response.json()
+    },
+    enabled: options?.enabled !== false && !!id,
+    ...options,
+  })
+}
+
 // Learning path hooks
 export function useLearningPath(startNodeId: string, endNodeId: string, options?: BaseQueryOptions & {
   maxSteps?: number
+  studentId?: string
+  heuristicMode?: 'linear' | 'exponential' | 'logarithmic'
 }) {
   return useQuery({
-    queryKey: [...NEO4J_QUERY_KEYS.learningPaths, startNodeId, endNodeId],
+    queryKey: [
+      ...NEO4J_QUERY_KEYS.learningPaths,
+      startNodeId,
+      endNodeId,
+      options?.maxSteps,
+      options?.studentId,
+      options?.heuristicMode,
+    ],
     queryFn: async () => {
       const url = new URL('/api/learning-paths', window.location.origin)
       url.searchParams.set('startNodeId', startNodeId)
       url.searchParams.set('endNodeId', endNodeId)
       if (options?.maxSteps) url.searchParams.set('maxSteps', options.maxSteps.toString())
+      if (options?.studentId) url.searchParams.set('studentId', options.studentId)
+      if (options?.heuristicMode) url.searchParams.set('heuristicMode', options.heuristicMode)
 
       const response = await fetch(url.toString())
       if (!response.ok) {
@@ -171,9 +248,11 @@ export function useLearningPath(startNodeId: string, endNodeId: string, options?
   })
 }
 
-export function useGapAnalysis(nodeId: string, targetLevel?: number, options?: BaseQueryOptions) {
+export function useGapAnalysis(nodeId: string, currentLevel?: number, options?: BaseQueryOptions & {
+  studentId?: string
+}) {
   return useMutation({
-    mutationKey: [...NEO4J_QUERY_KEYS.gapAnalysis, nodeId],
+    mutationKey: [...NEO4J_QUERY_KEYS.gapAnalysis, nodeId, currentLevel, options?.studentId],
     mutationFn: async () => {
       const response = await fetch('/api/learning-paths/gap-analysis', {
         method: 'POST',
@@ -182,7 +261,8 @@ export function useGapAnalysis(nodeId: string, targetLevel?: number, options?: B
         },
         body: JSON.stringify({
           nodeId,
-          targetLevel,
+          currentLevel,
+          studentId: options?.studentId,
         }),
       })
 
@@ -195,6 +275,34 @@ export function useGapAnalysis(nodeId: string, targetLevel?: number, options?: B
   })
 }
 
+export function useGapMetrics(targetNodeIds: string[], options?: BaseQueryOptions & {
+  studentId?: string
+  currentLevel?: number
+}) {
+  return useMutation({
+    mutationKey: [...NEO4J_QUERY_KEYS.gapAnalysis, 'metrics', ...targetNodeIds, options?.studentId],
+    mutationFn: async () => {
+      const response = await fetch('/api/learning-paths/gap-analysis', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          targetNodeIds,
+          currentLevel: options?.currentLevel,
+          studentId: options?.studentId,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to collect gap metrics')
+      }
+      return response.json()
+    },
+    ...options,
+  })
+}
+
 // Mutations hooks
 export function useCreateVocabulary() {
   const queryClient = useQueryClient()
@@ -273,6 +381,232 @@ export function useDeleteVocabulary() {
   })
 }
 
+export function useCreatePassage() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: any) => {
+      const response = await fetch('/api/passages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to create passage')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: NEO4J_QUERY_KEYS.passages,
+      })
+    },
+  })
+}
+
+export function useUpdatePassage() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: any }) => {
+      const response = await fetch(`/api/passages/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to update passage')
+      }
+      return response.json()
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: NEO4J_QUERY_KEYS.passages,
+      })
+      queryClient.invalidateQueries({
+        queryKey: [...NEO4J_QUERY_KEYS.passage, variables.id],
+      })
+    },
+  })
+}
+
+export function useDeletePassage() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/passages/${id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete passage')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: NEO4J_QUERY_KEYS.passages,
+      })
+    },
+  })
+}
+
+export function useCreateTheme() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: any) => {
+      const response = await fetch('/api/themes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to create theme')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: NEO4J_QUERY_KEYS.themes,
+      })
+    },
+  })
+}
+
+export function useUpdateTheme() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: any }) => {
+      const response = await fetch(`/api/themes/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to update theme')
+      }
+      return response.json()
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: NEO4J_QUERY_KEYS.themes,
+      })
+      queryClient.invalidateQueries({
+        queryKey: [...NEO4J_QUERY_KEYS.theme, variables.id],
+      })
+    },
+  })
+}
+
+export function useDeleteTheme() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/themes/${id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete theme')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: NEO4J_QUERY_KEYS.themes,
+      })
+    },
+  })
+}
+
+// Prerequisite edge hooks
+export function usePrerequisites(options?: BaseQueryOptions & {
+  nodeId?: string
+  prerequisiteId?: string
+}) {
+  return useQuery({
+    queryKey: [...NEO4J_QUERY_KEYS.prerequisites, options?.nodeId, options?.prerequisiteId],
+    queryFn: async () => {
+      const url = new URL('/api/prerequisites', window.location.origin)
+      if (options?.nodeId) url.searchParams.set('nodeId', options.nodeId)
+      if (options?.prerequisiteId) url.searchParams.set('prerequisiteId', options.prerequisiteId)
+
+      const response = await fetch(url.toString())
+      if (!response.ok) {
+        throw new Error('Failed to fetch prerequisites')
+      }
+      return response.json()
+    },
+    ...options,
+  })
+}
+
+export function useCreatePrerequisite() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: any) => {
+      const response = await fetch('/api/prerequisites', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      })
+
+      // 409 bodies carry the offending cycle path in `details.cycle`.
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to create prerequisite')
+      }
+      return body
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: NEO4J_QUERY_KEYS.prerequisites,
+      })
+    },
+  })
+}
+
+export function useDeletePrerequisite() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/prerequisites/${id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete prerequisite')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: NEO4J_QUERY_KEYS.prerequisites,
+      })
+    },
+  })
+}
+
 // Custom utility hooks
 export function useNeo4jHealth() {
   return useQuery({
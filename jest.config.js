@@ -0,0 +1,16 @@
+/**
+ * Jest Configuration
+ *
+ * TypeScript tests live next to their modules in `test/` directories
+ * (src, lib, gap-algorithm, edu-ontology/backend) and run through ts-jest.
+ */
+
+/** @type {import('jest').Config} */
+const jestConfig = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  testMatch: ['**/test/**/*.test.ts'],
+  testPathIgnorePatterns: ['/node_modules/', '/dist/', '/.next/'],
+}
+
+module.exports = jestConfig
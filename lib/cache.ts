@@ -0,0 +1,16 @@
+import { GapAnalysisCache } from '../gap-algorithm/GapAnalysisCache'
+
+const globalForCache = globalThis as unknown as { gapAnalysisCache?: GapAnalysisCache }
+
+/**
+ * Process-wide gap analysis cache. Entries are keyed by a fingerprint of the
+ * student's mastery, so answers recorded in another process (the engine) make
+ * the old entries unreachable on the next analysis; `invalidateUser` only
+ * frees them early in the process that recorded the answers. Invalidate
+ * everything when graph nodes or prerequisite edges change.
+ */
+export const gapAnalysisCache = globalForCache.gapAnalysisCache || new GapAnalysisCache()
+
+if (process.env['NODE_ENV'] !== 'production') {
+  globalForCache.gapAnalysisCache = gapAnalysisCache
+}
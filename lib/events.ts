@@ -0,0 +1,20 @@
+import { InMemoryGapEventBus, InMemoryGapLevelStore } from '../gap-algorithm/GapEventBus'
+
+const globalForEvents = globalThis as unknown as {
+  gapEventBus?: InMemoryGapEventBus
+  gapLevelStore?: InMemoryGapLevelStore
+}
+
+/** Process-wide gap event bus; notification and analytics handlers subscribe here. */
+export const gapEventBus = globalForEvents.gapEventBus || new InMemoryGapEventBus()
+
+/**
+ * Last gap level per student and node. Analyzers are created per request, so
+ * they share this store to notice a gap opening or closing between requests.
+ */
+export const gapLevelStore = globalForEvents.gapLevelStore || new InMemoryGapLevelStore()
+
+if (process.env['NODE_ENV'] !== 'production') {
+  globalForEvents.gapEventBus = gapEventBus
+  globalForEvents.gapLevelStore = gapLevelStore
+}
@@ -0,0 +1,169 @@
+/**
+ * Versioned gap-analysis parameter sets.
+ *
+ * `calibrateGapParameterSet` replays every student's answer history: the
+ * first part (BKT-traced) is the mastery the analyzer sees, and the accuracy
+ * on each gap answered afterwards is the observed outcome for that gap's
+ * score. The fitted weights, mastery threshold and level cutoffs are stored as
+ * the next version of the named set, so a gap level keeps meaning the same
+ * expected success rate whichever cohort it is computed for.
+ */
+
+import type { GapParameterSet } from '../../gap-algorithm/types'
+import { DEFAULT_GAP_PARAMETER_SET, GapAnalyzer } from '../../gap-algorithm/GapAnalyzer'
+import {
+  CalibrationObservation,
+  CalibrationOptions,
+  CalibrationResult,
+  calibrateGapParameters,
+} from '../../gap-algorithm/GapCalibration'
+import { prisma } from '../prisma'
+import { loadLearningGraph } from '../ontology/graph'
+import { DEFAULT_BKT_PARAMETERS, bktUpdate } from '../mastery/bkt'
+import { loadTracingParameters } from '../mastery/store'
+
+export const DEFAULT_MASTERY_THRESHOLDS = [0.6, 0.7, 0.8, 0.9]
+
+export interface GapCalibrationOptions extends CalibrationOptions {
+  masteryThresholds?: number[]
+  historyShare?: number // share of each student's answers used as prior history
+}
+
+export interface GapCalibrationSummary {
+  parameterSet: GapParameterSet
+  metrics: CalibrationResult['metrics']
+  students: number
+}
+
+/** Score components before and observed accuracy after each student's cutoff, per mastery threshold. */
+export async function collectCalibrationObservations(
+  masteryThresholds: number[],
+  historyShare = 0.7
+): Promise<{ observations: Map<number, CalibrationObservation[]>; students: number }> {
+  const [answers, nodes] = await Promise.all([
+    prisma.sessionQuestion.findMany({
+      where: { isCorrect: { not: null } },
+      select: {
+        isCorrect: true,
+        session: { select: { studentId: true } },
+        question: { select: { gapId: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    loadLearningGraph(),
+  ])
+  const known = new Set(nodes.map(node => node.id))
+  const parameters = await loadTracingParameters([...new Set(answers.map(answer => answer.question.gapId))])
+
+  const byStudent = new Map<string, Array<{ gapId: string; isCorrect: boolean }>>()
+  for (const answer of answers) {
+    const list = byStudent.get(answer.session.studentId) || []
+    list.push({ gapId: answer.question.gapId, isCorrect: answer.isCorrect === true })
+    byStudent.set(answer.session.studentId, list)
+  }
+
+  const observations = new Map<number, CalibrationObservation[]>(masteryThresholds.map(threshold => [threshold, []]))
+  let students = 0
+
+  for (const list of byStudent.values()) {
+    if (list.length < 2) continue
+    const cutoff = Math.min(list.length - 1, Math.max(1, Math.floor(list.length * historyShare)))
+
+    const progress = new Map<string, number>()
+    for (const { gapId, isCorrect } of list.slice(0, cutoff)) {
+      const params = parameters.get(gapId) || DEFAULT_BKT_PARAMETERS
+      progress.set(gapId, bktUpdate(progress.get(gapId) ?? params.pInit, isCorrect, params))
+    }
+
+    const outcomes = new Map<string, { correct: number; total: number }>()
+    for (const { gapId, isCorrect } of list.slice(cutoff)) {
+      if (!known.has(gapId)) continue
+      const outcome = outcomes.get(gapId) || { correct: 0, total: 0 }
+      outcome.total++
+      if (isCorrect) outcome.correct++
+      outcomes.set(gapId, outcome)
+    }
+    if (outcomes.size === 0) continue
+    students++
+
+    for (const masteryThreshold of masteryThresholds) {
+      const analyzer = new GapAnalyzer(nodes, progress, {
+        parameters: {
+          ...DEFAULT_GAP_PARAMETER_SET,
+          params: { ...DEFAULT_GAP_PARAMETER_SET.params, masteryThreshold },
+        },
+      })
+      for (const [gapId, outcome] of outcomes) {
+        try {
+          const { fromNodeId, ...components } = analyzer.scoreComponents(gapId)
+          observations.get(masteryThreshold)!.push({ components, success: outcome.correct / outcome.total })
+        } catch {
+          // No starting node for this student's level; nothing to calibrate against.
+        }
+      }
+    }
+  }
+
+  return { observations, students }
+}
+
+/** Calibrates against all students and stores the result as the next version of `name`. */
+export async function calibrateGapParameterSet(
+  name: string,
+  options: GapCalibrationOptions = {}
+): Promise<GapCalibrationSummary> {
+  const { masteryThresholds = DEFAULT_MASTERY_THRESHOLDS, historyShare, ...calibration } = options
+  const { observations, students } = await collectCalibrationObservations(masteryThresholds, historyShare)
+  const result = calibrateGapParameters(observations, DEFAULT_GAP_PARAMETER_SET.params, calibration)
+
+  const latest = await prisma.gapParameterVersion.findFirst({
+    where: { name },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  })
+  const row = await prisma.gapParameterVersion.create({
+    data: {
+      name,
+      version: (latest?.version ?? 0) + 1,
+      params: JSON.stringify(result.params),
+      lowThreshold: result.thresholds.lowThreshold,
+      mediumThreshold: result.thresholds.mediumThreshold,
+      metrics: JSON.stringify(result.metrics),
+    },
+  })
+
+  return {
+    parameterSet: {
+      name: row.name,
+      version: row.version,
+      params: result.params,
+      thresholds: result.thresholds,
+      fittedAt: row.createdAt.toISOString(),
+    },
+    metrics: result.metrics,
+    students,
+  }
+}
+
+/**
+ * A named parameter set, newest version unless `version` is given. The
+ * built-in `default` set is returned while nothing was calibrated under that
+ * name; otherwise null when not found.
+ */
+export async function loadGapParameterSet(name: string, version?: number): Promise<GapParameterSet | null> {
+  const row = await prisma.gapParameterVersion.findFirst({
+    where: { name, ...(version !== undefined && { version }) },
+    orderBy: { version: 'desc' },
+  })
+  if (!row) {
+    return name === DEFAULT_GAP_PARAMETER_SET.name && version === undefined ? DEFAULT_GAP_PARAMETER_SET : null
+  }
+
+  return {
+    name: row.name,
+    version: row.version,
+    params: JSON.parse(row.params),
+    thresholds: { lowThreshold: row.lowThreshold, mediumThreshold: row.mediumThreshold },
+    fittedAt: row.createdAt.toISOString(),
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Classical item analysis
+ *
+ * Per-question statistics from students' first attempts: p-value (share
+ * correct), point-biserial discrimination against the student's score on the
+ * other questions, average answer time and, for multiple choice, how often
+ * each option was picked. Items outside the thresholds get flags, and the
+ * p-value gives an empirical 1-10 difficulty.
+ */
+
+import { resolveOption } from '../../edu-ontology/backend/src/grading'
+
+export interface ItemResponse {
+  studentId: string
+  isCorrect: boolean
+  answer: string | null
+  timeTaken: number | null // seconds
+}
+
+/** First attempts of a student over all questions, for rest scores. */
+export interface StudentTotals {
+  answered: number
+  correct: number
+}
+
+export interface ItemKey {
+  options: string[] | null
+  answer: string | null
+}
+
+export interface OptionRate {
+  option: string
+  count: number
+  rate: number
+  isAnswer: boolean
+}
+
+export type ItemFlag = 'too_easy' | 'too_hard' | 'low_discrimination' | 'non_functioning_distractor'
+
+export interface ItemStatistics {
+  responses: number
+  pValue: number | null
+  discrimination: number | null
+  averageTimeTaken: number | null
+  optionRates: OptionRate[] | null
+  nonFunctioningDistractors: string[]
+  flags: ItemFlag[]
+  empiricalDifficulty: number | null
+}
+
+export interface ItemAnalysisThresholds {
+  minResponses: number // below this, statistics are reported but nothing is flagged
+  easyPValue: number
+  hardPValue: number
+  minDiscrimination: number
+  minDistractorRate: number // distractors picked less often than this don't work
+}
+
+export const DEFAULT_ITEM_THRESHOLDS: ItemAnalysisThresholds = {
+  minResponses: 20,
+  easyPValue: 0.9,
+  hardPValue: 0.2,
+  minDiscrimination: 0.2,
+  minDistractorRate: 0.05,
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
+
+/**
+ * Point-biserial correlation between a dichotomous item score and a
+ * continuous score; null when either side has no variance.
+ */
+export function pointBiserial(correct: boolean[], scores: number[]): number | null {
+  const n = Math.min(correct.length, scores.length)
+  if (n < 2) return null
+
+  const right: number[] = []
+  const wrong: number[] = []
+  for (let i = 0; i < n; i++) {
+    if (correct[i]) right.push(scores[i]!)
+    else wrong.push(scores[i]!)
+  }
+  if (right.length === 0 || wrong.length === 0) return null
+
+  const all = scores.slice(0, n)
+  const overall = mean(all)!
+  const sd = Math.sqrt(all.reduce((sum, score) => sum + (score - overall) ** 2, 0) / n)
+  if (sd === 0) return null
+
+  const p = right.length / n
+  return ((mean(right)! - mean(wrong)!) / sd) * Math.sqrt(p * (1 - p))
+}
+
+/**
+ * Share of responses per option. Answers are resolved the way the grader does
+ * (option text, letter or 1-based number); answers matching no option are
+ * left out.
+ */
+export function optionSelectionRates(answers: Array<string | null>, key: ItemKey): OptionRate[] | null {
+  const { options } = key
+  if (!options || options.length === 0) return null
+
+  const counts = options.map(() => 0)
+  for (const answer of answers) {
+    if (answer === null) continue
+    const index = options.indexOf(resolveOption(answer, options))
+    if (index >= 0) counts[index]!++
+  }
+
+  const correct = key.answer !== null ? resolveOption(key.answer, options) : null
+  return options.map((option, index) => ({
+    option,
+    count: counts[index]!,
+    rate: answers.length > 0 ? counts[index]! / answers.length : 0,
+    isAnswer: option === correct,
+  }))
+}
+
+/** Maps a p-value to the 1-10 difficulty scale used by `Question.difficulty`. */
+export function difficultyFromPValue(pValue: number): number {
+  return Math.min(10, Math.max(1, Math.round(1 + 9 * (1 - pValue))))
+}
+
+/**
+ * Empirical difficulty shrunk toward the generator's guess: the guess counts
+ * as `priorWeight` responses, so a few answers move it only a little.
+ */
+export function recalibrateDifficulty(
+  priorDifficulty: number,
+  pValue: number,
+  responses: number,
+  priorWeight = 10
+): number {
+  const empirical = 1 + 9 * (1 - pValue)
+  const blended = (empirical * responses + priorDifficulty * priorWeight) / (responses + priorWeight)
+  return Math.min(10, Math.max(1, Math.round(blended)))
+}
+
+export function analyzeItem(
+  responses: ItemResponse[],
+  key: ItemKey,
+  totals: Map<string, StudentTotals>,
+  thresholds: ItemAnalysisThresholds = DEFAULT_ITEM_THRESHOLDS
+): ItemStatistics {
+  const correct = responses.filter(response => response.isCorrect).length
+  const pValue = responses.length > 0 ? correct / responses.length : null
+
+  // Rest score: share correct on the student's other questions, so the item
+  // isn't correlated with itself
+  const paired = responses.flatMap(response => {
+    const total = totals.get(response.studentId)
+    if (!total || total.answered < 2) return []
+    const rest = (total.correct - (response.isCorrect ? 1 : 0)) / (total.answered - 1)
+    return [{ isCorrect: response.isCorrect, rest }]
+  })
+  const discrimination = pointBiserial(
+    paired.map(pair => pair.isCorrect),
+    paired.map(pair => pair.rest)
+  )
+
+  const times = responses.flatMap(response => (response.timeTaken !== null ? [response.timeTaken] : []))
+  const optionRates = optionSelectionRates(responses.map(response => response.answer), key)
+  const nonFunctioningDistractors = (optionRates || [])
+    .filter(rate => !rate.isAnswer && rate.rate < thresholds.minDistractorRate)
+    .map(rate => rate.option)
+
+  const flags: ItemFlag[] = []
+  if (pValue !== null && responses.length >= thresholds.minResponses) {
+    if (pValue > thresholds.easyPValue) flags.push('too_easy')
+    if (pValue < thresholds.hardPValue) flags.push('too_hard')
+    if (discrimination !== null && discrimination < thresholds.minDiscrimination) flags.push('low_discrimination')
+    if (nonFunctioningDistractors.length > 0) flags.push('non_functioning_distractor')
+  }
+
+  return {
+    responses: responses.length,
+    pValue,
+    discrimination,
+    averageTimeTaken: mean(times),
+    optionRates,
+    nonFunctioningDistractors,
+    flags,
+    empiricalDifficulty: pValue !== null ? difficultyFromPValue(pValue) : null,
+  }
+}
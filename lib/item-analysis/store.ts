@@ -0,0 +1,183 @@
+/**
+ * Item analysis over the `SessionQuestion` history.
+ *
+ * `analyzeItems` takes every student's first attempt at each question,
+ * stores the statistics per question in `QuestionStatistics` and replaces
+ * `Question.difficulty` (the generator's guess) with the recalibrated
+ * empirical difficulty once a question has enough responses. The guess is
+ * kept as `priorDifficulty` so repeated runs don't compound.
+ */
+
+import type { Question, QuestionStatistics } from '@prisma/client'
+import { prisma } from '../prisma'
+import {
+  DEFAULT_ITEM_THRESHOLDS,
+  ItemAnalysisThresholds,
+  ItemFlag,
+  ItemResponse,
+  ItemStatistics,
+  OptionRate,
+  StudentTotals,
+  analyzeItem,
+  recalibrateDifficulty,
+} from './statistics'
+
+export interface ItemAnalysisOptions {
+  thresholds?: Partial<ItemAnalysisThresholds>
+  recalibrate?: boolean
+}
+
+export interface ItemAnalysisSummary {
+  questions: number
+  responses: number
+  analyzed: number // questions with at least `minResponses` responses
+  flagged: Record<ItemFlag, number>
+  recalibrated: number
+}
+
+export interface StoredItemStatistics extends ItemStatistics {
+  questionId: string
+  gapId: string
+  type: string
+  difficulty: number
+  priorDifficulty: number
+  analyzedAt: string
+}
+
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+function parseOptions(value: string | null): string[] | null {
+  const parsed = parseJson<unknown>(value, null)
+  return Array.isArray(parsed) ? parsed.map(String) : null
+}
+
+export async function analyzeItems(options: ItemAnalysisOptions = {}): Promise<ItemAnalysisSummary> {
+  const thresholds = { ...DEFAULT_ITEM_THRESHOLDS, ...options.thresholds }
+  const { recalibrate = true } = options
+
+  const answers = await prisma.sessionQuestion.findMany({
+    where: { isCorrect: { not: null } },
+    select: {
+      questionId: true,
+      answer: true,
+      isCorrect: true,
+      timeTaken: true,
+      session: { select: { studentId: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  // questionId -> studentId -> first attempt
+  const firstAttempts = new Map<string, Map<string, ItemResponse>>()
+  const totals = new Map<string, StudentTotals>()
+  for (const answer of answers) {
+    const studentId = answer.session.studentId
+    const byStudent = firstAttempts.get(answer.questionId) || new Map<string, ItemResponse>()
+    if (byStudent.has(studentId)) continue
+
+    const isCorrect = answer.isCorrect === true
+    byStudent.set(studentId, { studentId, isCorrect, answer: answer.answer, timeTaken: answer.timeTaken })
+    firstAttempts.set(answer.questionId, byStudent)
+
+    const total = totals.get(studentId) || { answered: 0, correct: 0 }
+    total.answered++
+    if (isCorrect) total.correct++
+    totals.set(studentId, total)
+  }
+
+  const questions = await prisma.question.findMany({
+    where: { id: { in: [...firstAttempts.keys()] } },
+    include: { statistics: { select: { priorDifficulty: true } } },
+  })
+
+  const summary: ItemAnalysisSummary = {
+    questions: questions.length,
+    responses: 0,
+    analyzed: 0,
+    flagged: { too_easy: 0, too_hard: 0, low_discrimination: 0, non_functioning_distractor: 0 },
+    recalibrated: 0,
+  }
+
+  for (const question of questions) {
+    const responses = [...(firstAttempts.get(question.id)?.values() ?? [])]
+    const key = { options: parseOptions(question.options), answer: question.answer }
+    const stats = analyzeItem(responses, key, totals, thresholds)
+    const priorDifficulty = question.statistics?.priorDifficulty ?? question.difficulty
+
+    summary.responses += stats.responses
+    for (const flag of stats.flags) summary.flagged[flag]++
+
+    const data = {
+      responses: stats.responses,
+      pValue: stats.pValue,
+      discrimination: stats.discrimination,
+      averageTimeTaken: stats.averageTimeTaken,
+      optionRates: stats.optionRates ? JSON.stringify(stats.optionRates) : null,
+      weakDistractors: stats.nonFunctioningDistractors.length > 0 ? JSON.stringify(stats.nonFunctioningDistractors) : null,
+      flags: JSON.stringify(stats.flags),
+      priorDifficulty,
+      empiricalDifficulty: stats.empiricalDifficulty,
+      analyzedAt: new Date(),
+    }
+    await prisma.questionStatistics.upsert({
+      where: { questionId: question.id },
+      create: { questionId: question.id, ...data },
+      update: data,
+    })
+
+    if (stats.pValue === null || stats.responses < thresholds.minResponses) continue
+    summary.analyzed++
+
+    if (!recalibrate) continue
+    const difficulty = recalibrateDifficulty(priorDifficulty, stats.pValue, stats.responses)
+    if (difficulty !== question.difficulty) {
+      await prisma.question.update({ where: { id: question.id }, data: { difficulty } })
+      summary.recalibrated++
+    }
+  }
+
+  return summary
+}
+
+function toStoredStatistics(
+  row: QuestionStatistics & { question: Pick<Question, 'gapId' | 'type' | 'difficulty'> }
+): StoredItemStatistics {
+  return {
+    questionId: row.questionId,
+    gapId: row.question.gapId,
+    type: row.question.type,
+    difficulty: row.question.difficulty,
+    priorDifficulty: row.priorDifficulty,
+    responses: row.responses,
+    pValue: row.pValue,
+    discrimination: row.discrimination,
+    averageTimeTaken: row.averageTimeTaken,
+    optionRates: parseJson<OptionRate[] | null>(row.optionRates, null),
+    nonFunctioningDistractors: parseJson<string[]>(row.weakDistractors, []),
+    flags: parseJson<ItemFlag[]>(row.flags, []),
+    empiricalDifficulty: row.empiricalDifficulty,
+    analyzedAt: row.analyzedAt.toISOString(),
+  }
+}
+
+/** Stored statistics, optionally for one gap or only flagged items; worst discrimination first. */
+export async function loadItemStatistics(
+  filter: { gapId?: string; flaggedOnly?: boolean } = {}
+): Promise<StoredItemStatistics[]> {
+  const rows = await prisma.questionStatistics.findMany({
+    where: {
+      ...(filter.gapId && { question: { gapId: filter.gapId } }),
+      ...(filter.flaggedOnly && { NOT: { flags: '[]' } }),
+    },
+    include: { question: { select: { gapId: true, type: true, difficulty: true } } },
+    orderBy: [{ discrimination: 'asc' }, { responses: 'desc' }],
+  })
+  return rows.map(toStoredStatistics)
+}
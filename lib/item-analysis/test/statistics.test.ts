@@ -0,0 +1,120 @@
+/**
+ * Item analysis statistics tests
+ */
+
+import {
+  DEFAULT_ITEM_THRESHOLDS,
+  ItemResponse,
+  StudentTotals,
+  analyzeItem,
+  optionSelectionRates,
+  pointBiserial,
+  recalibrateDifficulty,
+} from '../statistics'
+
+const key = { options: ['slow', 'rapid', 'late', 'calm'], answer: 'rapid' }
+
+describe('pointBiserial', () => {
+  test('should be positive when stronger students answer correctly', () => {
+    const r = pointBiserial([true, true, false, false], [0.9, 0.8, 0.3, 0.2])
+
+    expect(r).toBeGreaterThan(0.9)
+    expect(pointBiserial([false, false, true, true], [0.9, 0.8, 0.3, 0.2])).toBeCloseTo(-r!)
+  })
+
+  test('should be null without variance on either side', () => {
+    expect(pointBiserial([true, true], [0.5, 0.8])).toBeNull()
+    expect(pointBiserial([true, false], [0.5, 0.5])).toBeNull()
+    expect(pointBiserial([true], [0.5])).toBeNull()
+  })
+})
+
+describe('optionSelectionRates', () => {
+  test('should count option text, letters and numbers alike', () => {
+    const rates = optionSelectionRates(['rapid', 'B', '2', 'a', 'Calm', 'maybe'], key)!
+
+    expect(rates.map(rate => rate.count)).toEqual([1, 3, 0, 1])
+    expect(rates[1]).toEqual({ option: 'rapid', count: 3, rate: 0.5, isAnswer: true })
+  })
+
+  test('should resolve an answer key given as a letter', () => {
+    const rates = optionSelectionRates(['rapid'], { ...key, answer: 'B' })!
+
+    expect(rates.filter(rate => rate.isAnswer).map(rate => rate.option)).toEqual(['rapid'])
+  })
+
+  test('should skip questions without options', () => {
+    expect(optionSelectionRates(['x'], { options: null, answer: 'x' })).toBeNull()
+  })
+})
+
+describe('recalibrateDifficulty', () => {
+  test('should stay near the prior with few responses', () => {
+    expect(recalibrateDifficulty(5, 0, 1)).toBe(5)
+  })
+
+  test('should follow the p-value with many responses', () => {
+    expect(recalibrateDifficulty(5, 0, 1000)).toBe(10)
+    expect(recalibrateDifficulty(5, 1, 1000)).toBe(1)
+  })
+
+  test('should weigh the prior as priorWeight responses', () => {
+    // empirical 10, prior 2, equal weight → 6
+    expect(recalibrateDifficulty(2, 0, 10, 10)).toBe(6)
+  })
+})
+
+describe('analyzeItem', () => {
+  const students = (count: number) => Array.from({ length: count }, (_, i) => `s${i}`)
+
+  const totalsFor = (ids: string[], strong: Set<string>) =>
+    new Map<string, StudentTotals>(ids.map(id => [id, { answered: 10, correct: strong.has(id) ? 9 : 2 }]))
+
+  test('should flag an item almost everyone answers correctly', () => {
+    const ids = students(20)
+    const responses: ItemResponse[] = ids.map(studentId => ({
+      studentId,
+      isCorrect: true,
+      answer: 'B',
+      timeTaken: 10,
+    }))
+
+    const stats = analyzeItem(responses, key, totalsFor(ids, new Set(ids)))
+
+    expect(stats.pValue).toBe(1)
+    expect(stats.flags).toContain('too_easy')
+    expect(stats.flags).toContain('non_functioning_distractor')
+    expect(stats.nonFunctioningDistractors).toEqual(['slow', 'late', 'calm'])
+    expect(stats.averageTimeTaken).toBe(10)
+    expect(stats.empiricalDifficulty).toBe(1)
+  })
+
+  test('should flag an item the weaker students answer correctly', () => {
+    const ids = students(20)
+    const strong = new Set(ids.slice(0, 10))
+    // Only the weaker students get it right: negative discrimination
+    const responses: ItemResponse[] = ids.map((studentId, i) => ({
+      studentId,
+      isCorrect: !strong.has(studentId),
+      answer: strong.has(studentId) ? ['slow', 'late', 'calm'][i % 3]! : 'rapid',
+      timeTaken: null,
+    }))
+
+    const stats = analyzeItem(responses, key, totalsFor(ids, strong))
+
+    expect(stats.pValue).toBe(0.5)
+    expect(stats.discrimination).toBeLessThan(0)
+    expect(stats.flags).toEqual(['low_discrimination'])
+    expect(stats.averageTimeTaken).toBeNull()
+  })
+
+  test('should not flag anything below the minimum number of responses', () => {
+    const responses: ItemResponse[] = [{ studentId: 's0', isCorrect: false, answer: 'A', timeTaken: 5 }]
+
+    const stats = analyzeItem(responses, key, new Map(), DEFAULT_ITEM_THRESHOLDS)
+
+    expect(stats.pValue).toBe(0)
+    expect(stats.flags).toEqual([])
+    expect(stats.discrimination).toBeNull()
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Persistence and training data for the learning model.
+ *
+ * Every (session, gap) pair in the `SessionQuestion` history becomes one
+ * example: the share of correct answers is the success label, the summed
+ * `timeTaken` the study time. Features only use what was known before the
+ * session: the student's BKT mastery replayed from earlier answers, the
+ * previously studied gap as the current node and the session's start time.
+ * `fitLearningModel` stores a `LearningModelSnapshot`; `loadLearningModel`
+ * returns the newest one for `PathFinder` confidence.
+ */
+
+import type { UserProgress } from '../../gap-algorithm/types'
+import {
+  LearningModel,
+  LearningModelExample,
+  LearningModelMetrics,
+  contextAt,
+} from '../../gap-algorithm/LearningModel'
+import { prisma } from '../prisma'
+import { loadLearningGraph, vocabularyNode } from '../ontology/graph'
+import { DEFAULT_BKT_PARAMETERS, bktUpdate } from '../mastery/bkt'
+import { loadTracingParameters } from '../mastery/store'
+
+export interface LearningModelFitSummary {
+  examples: number
+  timeExamples: number
+  holdout: LearningModelMetrics | null
+  snapshotId: string
+}
+
+/** Builds training examples from the answered session history, oldest first. */
+export async function buildLearningModelExamples(): Promise<LearningModelExample[]> {
+  const [answers, graph] = await Promise.all([
+    prisma.sessionQuestion.findMany({
+      where: { isCorrect: { not: null } },
+      select: {
+        isCorrect: true,
+        timeTaken: true,
+        createdAt: true,
+        session: { select: { id: true, studentId: true, startTime: true, duration: true } },
+        question: { select: { gap: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    loadLearningGraph(),
+  ])
+  const nodes = new Map(graph.map(node => [node.id, node]))
+  const parameters = await loadTracingParameters([...new Set(answers.map(answer => answer.question.gap.id))])
+
+  // (session, gap) groups in order of their first answer
+  const groups = new Map<string, typeof answers>()
+  for (const answer of answers) {
+    const key = `${answer.session.id}:${answer.question.gap.id}`
+    const group = groups.get(key) || []
+    group.push(answer)
+    groups.set(key, group)
+  }
+
+  const histories = new Map<string, Map<string, UserProgress>>()
+  const lastGap = new Map<string, string>()
+  const examples: LearningModelExample[] = []
+
+  for (const group of groups.values()) {
+    const { session, question } = group[0]!
+    const gap = question.gap
+    const targetNode = nodes.get(gap.id) ?? vocabularyNode(gap)
+    const history = histories.get(session.studentId) || new Map<string, UserProgress>()
+    const previousGapId = lastGap.get(session.studentId)
+    const currentNode = (previousGapId && nodes.get(previousGapId)) || targetNode
+
+    const correct = group.filter(answer => answer.isCorrect).length
+    const seconds = group.map(answer => answer.timeTaken)
+    const timed = seconds.every((value): value is number => value !== null && value > 0)
+
+    examples.push({
+      input: {
+        currentNode,
+        targetNode,
+        userHistory: Array.from(history.values()).map(progress => ({ ...progress })),
+        ...contextAt(session.startTime, session.duration ?? undefined),
+      },
+      success: correct / group.length,
+      ...(timed && { minutes: seconds.reduce((sum, value) => sum + value, 0) / 60 }),
+    })
+
+    // Replay the answers into the student's history for later examples.
+    const params = parameters.get(gap.id) || DEFAULT_BKT_PARAMETERS
+    const previous = history.get(gap.id)
+    history.set(gap.id, {
+      nodeId: gap.id,
+      masteryLevel: group.reduce(
+        (pKnown, answer) => bktUpdate(pKnown, answer.isCorrect === true, params),
+        previous?.masteryLevel ?? params.pInit
+      ),
+      timeSpent: (previous?.timeSpent ?? 0) + seconds.reduce<number>((sum, value) => sum + (value ?? 0), 0) / 60,
+      lastAccessed: group[group.length - 1]!.createdAt.toISOString(),
+      attempts: (previous?.attempts ?? 0) + group.length,
+    })
+    histories.set(session.studentId, history)
+    lastGap.set(session.studentId, gap.id)
+  }
+
+  return examples
+}
+
+/**
+ * Offline fit over the full history. With at least `minHoldout` examples the
+ * newest 20% are first held out to report metrics, then the model is refit on
+ * everything.
+ */
+export async function fitLearningModel(
+  options: { minHoldout?: number } = {}
+): Promise<LearningModelFitSummary> {
+  const { minHoldout = 50 } = options
+  const examples = await buildLearningModelExamples()
+  if (examples.length === 0) {
+    throw new Error('No answered session questions to train the learning model on')
+  }
+
+  let holdout: LearningModelMetrics | null = null
+  if (examples.length >= minHoldout) {
+    const split = Math.floor(examples.length * 0.8)
+    holdout = LearningModel.train(examples.slice(0, split)).evaluate(examples.slice(split))
+  }
+
+  const model = LearningModel.train(examples)
+  const weights = model.toJSON()
+  const snapshot = await prisma.learningModelSnapshot.create({
+    data: {
+      weights: JSON.stringify(weights),
+      examples: weights.examples,
+      timeExamples: weights.timeExamples,
+      logLoss: holdout?.logLoss ?? null,
+      accuracy: holdout?.accuracy ?? null,
+      timeMae: holdout?.timeMae ?? null,
+    },
+  })
+
+  return {
+    examples: weights.examples,
+    timeExamples: weights.timeExamples,
+    holdout,
+    snapshotId: snapshot.id,
+  }
+}
+
+/** Newest fitted model, or null when none was fitted (or it no longer loads). */
+export async function loadLearningModel(): Promise<LearningModel | null> {
+  const snapshot = await prisma.learningModelSnapshot.findFirst({ orderBy: { trainedAt: 'desc' } })
+  if (!snapshot) return null
+
+  try {
+    return LearningModel.fromJSON(JSON.parse(snapshot.weights))
+  } catch (error) {
+    console.error('Ignoring unusable learning model snapshot:', snapshot.id, error)
+    return null
+  }
+}
+
+/** A student's knowledge states as the model's `userHistory`. */
+export async function loadLearnerHistory(studentId: string): Promise<UserProgress[]> {
+  const states = await prisma.knowledgeState.findMany({ where: { studentId } })
+  return states.map(state => ({
+    nodeId: state.gapId,
+    masteryLevel: state.pKnown,
+    timeSpent: 0,
+    lastAccessed: (state.lastAttemptAt ?? state.updatedAt).toISOString(),
+    attempts: state.attempts,
+  }))
+}
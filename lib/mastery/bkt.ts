@@ -0,0 +1,121 @@
+/**
+ * Bayesian Knowledge Tracing
+ *
+ * Standard four-parameter BKT (Corbett & Anderson): the probability that a
+ * student knows a concept is updated after every answer, then the student may
+ * learn it with probability `pLearn` before the next attempt.
+ */
+
+export interface BktParameters {
+  pInit: number
+  pLearn: number
+  pSlip: number
+  pGuess: number
+}
+
+/** Used for concepts that have not been fitted yet. */
+export const DEFAULT_BKT_PARAMETERS: BktParameters = {
+  pInit: 0.3,
+  pLearn: 0.1,
+  pSlip: 0.1,
+  pGuess: 0.2,
+}
+
+export interface BktFitResult {
+  parameters: BktParameters
+  logLikelihood: number
+  observations: number
+}
+
+export interface BktFitOptions {
+  step?: number
+  // Upper bounds keep the fit away from degenerate "known but always slips"
+  // solutions (Baker et al. 2008).
+  maxGuess?: number
+  maxSlip?: number
+}
+
+const EPSILON = 1e-6
+
+function clampProbability(p: number): number {
+  return Math.min(1 - EPSILON, Math.max(EPSILON, p))
+}
+
+/** P(correct) for the next answer given P(known). */
+export function predictCorrect(pKnown: number, params: BktParameters): number {
+  return pKnown * (1 - params.pSlip) + (1 - pKnown) * params.pGuess
+}
+
+/** Posterior P(known) after observing one answer, including the learn step. */
+export function bktUpdate(pKnown: number, isCorrect: boolean, params: BktParameters): number {
+  const posterior = isCorrect
+    ? (pKnown * (1 - params.pSlip)) / predictCorrect(pKnown, params)
+    : (pKnown * params.pSlip) / (1 - predictCorrect(pKnown, params))
+
+  return clampProbability(posterior + (1 - posterior) * params.pLearn)
+}
+
+/** Replays a sequence of answers from the prior. */
+export function traceSequence(answers: boolean[], params: BktParameters): number {
+  return answers.reduce((pKnown, isCorrect) => bktUpdate(pKnown, isCorrect, params), params.pInit)
+}
+
+export function sequenceLogLikelihood(answers: boolean[], params: BktParameters): number {
+  let pKnown = params.pInit
+  let logLikelihood = 0
+
+  for (const isCorrect of answers) {
+    const pCorrect = clampProbability(predictCorrect(pKnown, params))
+    logLikelihood += Math.log(isCorrect ? pCorrect : 1 - pCorrect)
+    pKnown = bktUpdate(pKnown, isCorrect, params)
+  }
+
+  return logLikelihood
+}
+
+function grid(from: number, to: number, step: number): number[] {
+  const values: number[] = []
+  for (let value = from; value <= to + EPSILON; value += step) {
+    values.push(Math.round(value * 1000) / 1000)
+  }
+  return values
+}
+
+/**
+ * Fits BKT parameters to per-student answer sequences by maximising the
+ * log-likelihood over a parameter grid. Each sequence is one student's
+ * answers for the same concept, oldest first.
+ */
+export function fitBktParameters(sequences: boolean[][], options: BktFitOptions = {}): BktFitResult {
+  const { step = 0.05, maxGuess = 0.3, maxSlip = 0.1 } = options
+  const observations = sequences.reduce((sum, answers) => sum + answers.length, 0)
+
+  if (observations === 0) {
+    return { parameters: { ...DEFAULT_BKT_PARAMETERS }, logLikelihood: 0, observations }
+  }
+
+  let best: BktFitResult = {
+    parameters: { ...DEFAULT_BKT_PARAMETERS },
+    logLikelihood: -Infinity,
+    observations,
+  }
+
+  for (const pInit of grid(step, 1 - step, step)) {
+    for (const pLearn of grid(step, 0.5, step)) {
+      for (const pGuess of grid(step, maxGuess, step)) {
+        for (const pSlip of grid(step, maxSlip, step)) {
+          const parameters = { pInit, pLearn, pSlip, pGuess }
+          const logLikelihood = sequences.reduce(
+            (sum, answers) => sum + sequenceLogLikelihood(answers, parameters),
+            0
+          )
+          if (logLikelihood > best.logLikelihood) {
+            best = { parameters, logLikelihood, observations }
+          }
+        }
+      }
+    }
+  }
+
+  return best
+}
@@ -0,0 +1,96 @@
+/**
+ * Spaced-repetition review scheduling (SM-2).
+ *
+ * Each submitted session grades every gap it touched with an SM-2 response
+ * quality (0-5) derived from answer accuracy, then moves that gap's
+ * `ReviewSchedule` forward: successful reviews grow the interval by the ease
+ * factor, failed ones reset it to one day.
+ */
+
+import type { ReviewSchedule } from '@prisma/client'
+import { prisma } from '../prisma'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MIN_EASE_FACTOR = 1.3
+
+export interface Sm2State {
+  easeFactor: number
+  interval: number
+  repetitions: number
+}
+
+export const INITIAL_SM2_STATE: Sm2State = {
+  easeFactor: 2.5,
+  interval: 0,
+  repetitions: 0,
+}
+
+/** Maps the share of correct answers to an SM-2 quality grade. */
+export function qualityFromAccuracy(correct: number, total: number): number {
+  if (total <= 0) return 0
+  const accuracy = correct / total
+  if (accuracy >= 1) return 5
+  if (accuracy >= 0.8) return 4
+  if (accuracy >= 0.6) return 3
+  if (accuracy >= 0.4) return 2
+  if (accuracy > 0) return 1
+  return 0
+}
+
+export function nextSm2State(state: Sm2State, quality: number): Sm2State {
+  const q = Math.min(5, Math.max(0, Math.round(quality)))
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+  )
+
+  if (q < 3) {
+    return { easeFactor, interval: 1, repetitions: 0 }
+  }
+
+  const interval =
+    state.repetitions === 0 ? 1 : state.repetitions === 1 ? 6 : Math.round(state.interval * state.easeFactor)
+
+  return { easeFactor, interval, repetitions: state.repetitions + 1 }
+}
+
+/** Start of the next local day after `date`; reviews due before it are "due today". */
+export function endOfDay(date: Date): Date {
+  const end = new Date(date)
+  end.setHours(0, 0, 0, 0)
+  return new Date(end.getTime() + DAY_MS)
+}
+
+/**
+ * Records one review per gap for a student and returns the updated schedules.
+ * `outcomes` holds the answers given for each gap in the session.
+ */
+export async function scheduleReviews(
+  studentId: string,
+  outcomes: Array<{ gapId: string; correct: number; total: number }>,
+  reviewedAt: Date = new Date()
+): Promise<ReviewSchedule[]> {
+  const existing = await prisma.reviewSchedule.findMany({
+    where: { studentId, gapId: { in: outcomes.map(outcome => outcome.gapId) } },
+  })
+  const byGap = new Map(existing.map(schedule => [schedule.gapId, schedule]))
+
+  return prisma.$transaction(
+    outcomes.map(({ gapId, correct, total }) => {
+      const quality = qualityFromAccuracy(correct, total)
+      const next = nextSm2State(byGap.get(gapId) ?? INITIAL_SM2_STATE, quality)
+      const data = {
+        ...next,
+        lastQuality: quality,
+        lastReviewedAt: reviewedAt,
+        dueAt: new Date(reviewedAt.getTime() + next.interval * DAY_MS),
+      }
+
+      return prisma.reviewSchedule.upsert({
+        where: { studentId_gapId: { studentId, gapId } },
+        create: { studentId, gapId, ...data },
+        update: data,
+      })
+    })
+  )
+}
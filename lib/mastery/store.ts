@@ -0,0 +1,204 @@
+/**
+ * Persistence for the knowledge-tracing model.
+ *
+ * `KnowledgeTracingParameters` holds the fitted BKT parameters per concept
+ * (gap) and `KnowledgeState` the per-student P(known). States are updated
+ * online as answers come in; `fitKnowledgeTracing` refits the parameters from
+ * the whole `SessionQuestion` history and replays every student's answers.
+ */
+
+import type { KnowledgeState } from '@prisma/client'
+import { prisma } from '../prisma'
+import { gapAnalysisCache } from '../cache'
+import {
+  BktParameters,
+  DEFAULT_BKT_PARAMETERS,
+  bktUpdate,
+  fitBktParameters,
+  traceSequence,
+} from './bkt'
+
+export interface AnswerObservation {
+  gapId: string
+  isCorrect: boolean
+  answeredAt?: Date
+}
+
+export interface KnowledgeTracingFitSummary {
+  concepts: number
+  fitted: number
+  pooled: number
+  states: number
+  globalParameters: BktParameters
+}
+
+export async function loadTracingParameters(gapIds: string[]): Promise<Map<string, BktParameters>> {
+  const rows = await prisma.knowledgeTracingParameters.findMany({
+    where: { gapId: { in: gapIds } },
+  })
+  return new Map(
+    rows.map(row => [
+      row.gapId,
+      { pInit: row.pInit, pLearn: row.pLearn, pSlip: row.pSlip, pGuess: row.pGuess },
+    ])
+  )
+}
+
+/**
+ * Applies a student's answers, in order, to their knowledge states and
+ * returns the updated state per gap.
+ */
+export async function recordAnswers(
+  studentId: string,
+  answers: AnswerObservation[]
+): Promise<Map<string, KnowledgeState>> {
+  const byGap = new Map<string, AnswerObservation[]>()
+  for (const answer of answers) {
+    const list = byGap.get(answer.gapId) || []
+    list.push(answer)
+    byGap.set(answer.gapId, list)
+  }
+
+  const gapIds = [...byGap.keys()]
+  const [parameters, existing] = await Promise.all([
+    loadTracingParameters(gapIds),
+    prisma.knowledgeState.findMany({ where: { studentId, gapId: { in: gapIds } } }),
+  ])
+  const statesByGap = new Map(existing.map(state => [state.gapId, state]))
+
+  const updated = await prisma.$transaction(
+    gapIds.map(gapId => {
+      const gapAnswers = byGap.get(gapId) || []
+      const params = parameters.get(gapId) || DEFAULT_BKT_PARAMETERS
+      const state = statesByGap.get(gapId)
+
+      const pKnown = gapAnswers.reduce(
+        (p, answer) => bktUpdate(p, answer.isCorrect, params),
+        state?.pKnown ?? params.pInit
+      )
+      const correct = gapAnswers.filter(answer => answer.isCorrect).length
+      const lastAttemptAt = gapAnswers[gapAnswers.length - 1]?.answeredAt ?? new Date()
+
+      return prisma.knowledgeState.upsert({
+        where: { studentId_gapId: { studentId, gapId } },
+        create: {
+          studentId,
+          gapId,
+          pKnown,
+          attempts: gapAnswers.length,
+          correct,
+          lastAttemptAt,
+        },
+        update: {
+          pKnown,
+          attempts: { increment: gapAnswers.length },
+          correct: { increment: correct },
+          lastAttemptAt,
+        },
+      })
+    })
+  )
+  gapAnalysisCache.invalidateUser(studentId)
+
+  return new Map(updated.map(state => [state.gapId, state]))
+}
+
+/** P(known) per gap for a student, as fed to the gap algorithms. */
+export async function loadMasteryMap(studentId: string): Promise<Map<string, number>> {
+  const states = await prisma.knowledgeState.findMany({
+    where: { studentId },
+    select: { gapId: true, pKnown: true },
+  })
+  return new Map(states.map(state => [state.gapId, state.pKnown]))
+}
+
+/**
+ * Offline refit over the full answer history.
+ * Concepts with fewer than `minObservations` answers share the parameters
+ * fitted on all answers pooled together.
+ */
+export async function fitKnowledgeTracing(
+  options: { minObservations?: number } = {}
+): Promise<KnowledgeTracingFitSummary> {
+  const { minObservations = 20 } = options
+
+  const answers = await prisma.sessionQuestion.findMany({
+    where: { isCorrect: { not: null } },
+    select: {
+      isCorrect: true,
+      createdAt: true,
+      session: { select: { studentId: true } },
+      question: { select: { gapId: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  // gapId -> studentId -> answers, oldest first
+  const sequences = new Map<string, Map<string, Array<{ isCorrect: boolean; at: Date }>>>()
+  for (const answer of answers) {
+    const gapId = answer.question.gapId
+    const studentId = answer.session.studentId
+    const byStudent = sequences.get(gapId) || new Map()
+    const list = byStudent.get(studentId) || []
+    list.push({ isCorrect: answer.isCorrect === true, at: answer.createdAt })
+    byStudent.set(studentId, list)
+    sequences.set(gapId, byStudent)
+  }
+
+  const toBooleans = (byStudent: Map<string, Array<{ isCorrect: boolean }>>) =>
+    [...byStudent.values()].map(list => list.map(answer => answer.isCorrect))
+
+  const pooled = fitBktParameters([...sequences.values()].flatMap(toBooleans))
+
+  const summary: KnowledgeTracingFitSummary = {
+    concepts: sequences.size,
+    fitted: 0,
+    pooled: 0,
+    states: 0,
+    globalParameters: pooled.parameters,
+  }
+
+  for (const [gapId, byStudent] of sequences) {
+    const gapSequences = toBooleans(byStudent)
+    const observations = gapSequences.reduce((sum, list) => sum + list.length, 0)
+    const fit = observations >= minObservations ? fitBktParameters(gapSequences) : null
+    const parameters = fit?.parameters ?? pooled.parameters
+
+    if (fit) summary.fitted++
+    else summary.pooled++
+
+    await prisma.knowledgeTracingParameters.upsert({
+      where: { gapId },
+      create: {
+        gapId,
+        ...parameters,
+        observations,
+        logLikelihood: fit?.logLikelihood ?? null,
+      },
+      update: {
+        ...parameters,
+        observations,
+        logLikelihood: fit?.logLikelihood ?? null,
+        fittedAt: new Date(),
+      },
+    })
+
+    for (const [studentId, list] of byStudent) {
+      const pKnown = traceSequence(list.map(answer => answer.isCorrect), parameters)
+      const state = {
+        pKnown,
+        attempts: list.length,
+        correct: list.filter(answer => answer.isCorrect).length,
+        lastAttemptAt: list[list.length - 1]?.at ?? null,
+      }
+      await prisma.knowledgeState.upsert({
+        where: { studentId_gapId: { studentId, gapId } },
+        create: { studentId, gapId, ...state },
+        update: state,
+      })
+      summary.states++
+    }
+  }
+
+  return summary
+}
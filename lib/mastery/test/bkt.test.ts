@@ -0,0 +1,85 @@
+/**
+ * Bayesian Knowledge Tracing tests
+ */
+
+import {
+  BktParameters,
+  DEFAULT_BKT_PARAMETERS,
+  bktUpdate,
+  fitBktParameters,
+  predictCorrect,
+  sequenceLogLikelihood,
+  traceSequence,
+} from '../bkt'
+
+const params: BktParameters = { pInit: 0.3, pLearn: 0.1, pSlip: 0.1, pGuess: 0.2 }
+
+describe('bktUpdate', () => {
+  test('should apply Bayes rule and then the learn step', () => {
+    // P(known | correct) = 0.3 * 0.9 / (0.3 * 0.9 + 0.7 * 0.2) = 0.27 / 0.41
+    const posterior = 0.27 / 0.41
+    expect(bktUpdate(0.3, true, params)).toBeCloseTo(posterior + (1 - posterior) * 0.1, 10)
+
+    // P(known | wrong) = 0.3 * 0.1 / (1 - 0.41) = 0.03 / 0.59
+    const wrong = 0.03 / 0.59
+    expect(bktUpdate(0.3, false, params)).toBeCloseTo(wrong + (1 - wrong) * 0.1, 10)
+  })
+
+  test('should raise mastery after a correct answer and lower it after a wrong one', () => {
+    expect(bktUpdate(0.5, true, params)).toBeGreaterThan(0.5)
+    expect(bktUpdate(0.5, false, params)).toBeLessThan(0.5)
+  })
+
+  test('should stay strictly between 0 and 1', () => {
+    const certain = { ...params, pSlip: 0, pLearn: 0 }
+
+    expect(bktUpdate(1, true, certain)).toBeLessThan(1)
+    expect(bktUpdate(0, false, certain)).toBeGreaterThan(0)
+  })
+
+  test('should replay a sequence from the prior', () => {
+    expect(traceSequence([], params)).toBe(params.pInit)
+    expect(traceSequence([true, true], params)).toBeCloseTo(bktUpdate(bktUpdate(0.3, true, params), true, params))
+    expect(predictCorrect(1, params)).toBeCloseTo(0.9)
+    expect(predictCorrect(0, params)).toBeCloseTo(0.2)
+  })
+})
+
+describe('fitBktParameters', () => {
+  test('should return the defaults without observations', () => {
+    expect(fitBktParameters([[], []])).toEqual({
+      parameters: DEFAULT_BKT_PARAMETERS,
+      logLikelihood: 0,
+      observations: 0,
+    })
+  })
+
+  test('should fit a high prior when students mostly answer correctly from the start', () => {
+    const sequences = Array.from({ length: 10 }, () => [true, true, true, true, true])
+    const { parameters, observations } = fitBktParameters(sequences, { step: 0.1 })
+
+    expect(observations).toBe(50)
+    expect(parameters.pInit).toBeGreaterThanOrEqual(0.8)
+  })
+
+  test('should fit a learning rate when students start wrong and then get it', () => {
+    const sequences = Array.from({ length: 10 }, (_, i) =>
+      Array.from({ length: 8 }, (_, j) => j >= 2 + (i % 3))
+    )
+    const { parameters, logLikelihood } = fitBktParameters(sequences, { step: 0.1 })
+
+    expect(parameters.pInit).toBeLessThanOrEqual(0.3)
+    expect(parameters.pLearn).toBeGreaterThanOrEqual(0.2)
+    // The fit beats the default parameters on the same data
+    const baseline = sequences.reduce((sum, answers) => sum + sequenceLogLikelihood(answers, DEFAULT_BKT_PARAMETERS), 0)
+    expect(logLikelihood).toBeGreaterThan(baseline)
+  })
+
+  test('should respect the guess and slip bounds', () => {
+    const sequences = [[true, false, true, false, true, false]]
+    const { parameters } = fitBktParameters(sequences, { step: 0.1, maxGuess: 0.2, maxSlip: 0.1 })
+
+    expect(parameters.pGuess).toBeLessThanOrEqual(0.2)
+    expect(parameters.pSlip).toBeLessThanOrEqual(0.1)
+  })
+})
@@ -0,0 +1,63 @@
+/**
+ * SM-2 review scheduling tests
+ */
+
+import { INITIAL_SM2_STATE, endOfDay, nextSm2State, qualityFromAccuracy } from '../review'
+
+describe('qualityFromAccuracy', () => {
+  test('should map accuracy bands to SM-2 grades', () => {
+    expect(qualityFromAccuracy(5, 5)).toBe(5)
+    expect(qualityFromAccuracy(4, 5)).toBe(4)
+    expect(qualityFromAccuracy(3, 5)).toBe(3)
+    expect(qualityFromAccuracy(2, 5)).toBe(2)
+    expect(qualityFromAccuracy(1, 5)).toBe(1)
+    expect(qualityFromAccuracy(0, 5)).toBe(0)
+    expect(qualityFromAccuracy(0, 0)).toBe(0)
+  })
+})
+
+describe('nextSm2State', () => {
+  test('should schedule 1, 6, then interval times ease factor days', () => {
+    const first = nextSm2State(INITIAL_SM2_STATE, 4)
+    const second = nextSm2State(first, 4)
+    const third = nextSm2State(second, 4)
+
+    expect([first.interval, second.interval, third.interval]).toEqual([1, 6, 15])
+    expect(third.repetitions).toBe(3)
+  })
+
+  test('should adjust the ease factor by response quality', () => {
+    expect(nextSm2State(INITIAL_SM2_STATE, 5).easeFactor).toBeCloseTo(2.6)
+    expect(nextSm2State(INITIAL_SM2_STATE, 4).easeFactor).toBeCloseTo(2.5)
+    expect(nextSm2State(INITIAL_SM2_STATE, 3).easeFactor).toBeCloseTo(2.36)
+  })
+
+  test('should reset the interval after a failed review', () => {
+    const learned = { easeFactor: 2.5, interval: 15, repetitions: 3 }
+    const failed = nextSm2State(learned, 2)
+
+    expect(failed.interval).toBe(1)
+    expect(failed.repetitions).toBe(0)
+    expect(failed.easeFactor).toBeCloseTo(2.18)
+  })
+
+  test('should keep the ease factor at 1.3 or above', () => {
+    let state = INITIAL_SM2_STATE
+    for (let i = 0; i < 10; i++) state = nextSm2State(state, 0)
+
+    expect(state.easeFactor).toBe(1.3)
+  })
+
+  test('should clamp and round out-of-range qualities', () => {
+    expect(nextSm2State(INITIAL_SM2_STATE, 7)).toEqual(nextSm2State(INITIAL_SM2_STATE, 5))
+    expect(nextSm2State(INITIAL_SM2_STATE, 3.6)).toEqual(nextSm2State(INITIAL_SM2_STATE, 4))
+  })
+})
+
+describe('endOfDay', () => {
+  test('should return the start of the next local day', () => {
+    const end = endOfDay(new Date(2026, 2, 10, 15, 30))
+
+    expect(end).toEqual(new Date(2026, 2, 11))
+  })
+})
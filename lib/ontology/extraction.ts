@@ -0,0 +1,217 @@
+/**
+ * Vocabulary extraction (APPEARS_IN)
+ *
+ * Tokenizes passage content, reduces each token to its candidate lemmas and
+ * matches them against stored vocabularies. Matches are recorded as
+ * `VocabularyAppearance` rows with the occurrence count and the token index
+ * of the first occurrence.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '../prisma'
+
+export interface VocabularyTerm {
+  gapId: string
+  term: string
+}
+
+export interface VocabularyMatch {
+  gapId: string
+  frequency: number
+  position: number
+}
+
+// Common irregular inflections that suffix rules cannot recover.
+const IRREGULAR_LEMMAS: Record<string, string> = {
+  am: 'be', is: 'be', are: 'be', was: 'be', were: 'be', been: 'be', being: 'be',
+  has: 'have', had: 'have', having: 'have',
+  does: 'do', did: 'do', done: 'do',
+  went: 'go', gone: 'go', goes: 'go',
+  made: 'make', said: 'say', took: 'take', taken: 'take',
+  came: 'come', saw: 'see', seen: 'see', knew: 'know', known: 'know',
+  got: 'get', gotten: 'get', gave: 'give', given: 'give',
+  found: 'find', thought: 'think', told: 'tell', became: 'become',
+  left: 'leave', felt: 'feel', brought: 'bring', began: 'begin', begun: 'begin',
+  kept: 'keep', held: 'hold', wrote: 'write', written: 'write',
+  stood: 'stand', heard: 'hear', meant: 'mean', met: 'meet', ran: 'run',
+  paid: 'pay', sat: 'sit', spoke: 'speak', spoken: 'speak', led: 'lead',
+  grew: 'grow', grown: 'grow', lost: 'lose', fell: 'fall', fallen: 'fall',
+  sent: 'send', built: 'build', understood: 'understand', drew: 'draw', drawn: 'draw',
+  broke: 'break', broken: 'break', spent: 'spend', rose: 'rise', risen: 'rise',
+  drove: 'drive', driven: 'drive', bought: 'buy', wore: 'wear', worn: 'wear',
+  chose: 'choose', chosen: 'choose', sought: 'seek', taught: 'teach', caught: 'catch',
+  fought: 'fight', threw: 'throw', thrown: 'throw', ate: 'eat', eaten: 'eat',
+  swam: 'swim', swum: 'swim', sang: 'sing', sung: 'sing', flew: 'fly', flown: 'fly',
+  children: 'child', men: 'man', women: 'woman', people: 'person', feet: 'foot',
+  teeth: 'tooth', mice: 'mouse', geese: 'goose', better: 'good', best: 'good',
+  worse: 'bad', worst: 'bad',
+}
+
+const VOWELS = new Set(['a', 'e', 'i', 'o', 'u'])
+
+/**
+ * Split text into lowercase word tokens, keeping internal apostrophes.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/’/g, "'").match(/[a-z]+(?:'[a-z]+)*/g) ?? []
+}
+
+function addStem(candidates: Set<string>, stem: string): void {
+  if (stem.length < 2) return
+  candidates.add(stem)
+  candidates.add(`${stem}e`)
+
+  // running -> runn -> run, stopped -> stopp -> stop
+  const last = stem[stem.length - 1]
+  if (last && stem.length > 2 && last === stem[stem.length - 2] && !VOWELS.has(last)) {
+    candidates.add(stem.slice(0, -1))
+  }
+}
+
+/**
+ * Possible base forms of a token. Suffix stripping is ambiguous (e.g.
+ * "making" -> "mak" or "make"), so every plausible lemma is returned and
+ * matching succeeds if any of them is a stored vocabulary term.
+ */
+export function lemmaCandidates(token: string): Set<string> {
+  const word = token.toLowerCase()
+  const candidates = new Set<string>([word])
+
+  const irregular = IRREGULAR_LEMMAS[word]
+  if (irregular) candidates.add(irregular)
+
+  if (word.endsWith("'s")) candidates.add(word.slice(0, -2))
+
+  if (word.length > 4 && word.endsWith('ies')) candidates.add(`${word.slice(0, -3)}y`)
+  if (word.length > 4 && word.endsWith('ied')) candidates.add(`${word.slice(0, -3)}y`)
+  if (word.length > 3 && word.endsWith('es')) candidates.add(word.slice(0, -2))
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) candidates.add(word.slice(0, -1))
+  if (word.length > 4 && word.endsWith('ed')) addStem(candidates, word.slice(0, -2))
+  if (word.length > 5 && word.endsWith('ing')) addStem(candidates, word.slice(0, -3))
+  if (word.length > 4 && word.endsWith('er')) addStem(candidates, word.slice(0, -2))
+  if (word.length > 5 && word.endsWith('est')) addStem(candidates, word.slice(0, -3))
+
+  return candidates
+}
+
+/**
+ * Find every vocabulary term (single or multi-word) in a token stream.
+ * Each word of a term may appear in any inflected form.
+ */
+export function matchVocabulary(tokens: string[], terms: VocabularyTerm[]): VocabularyMatch[] {
+  // Index terms by their first word so each token only checks relevant terms.
+  const byFirstWord = new Map<string, Array<{ gapId: string; words: string[] }>>()
+  for (const { gapId, term } of terms) {
+    const words = tokenize(term)
+    const first = words[0]
+    if (!first) continue
+    const bucket = byFirstWord.get(first) ?? []
+    bucket.push({ gapId, words })
+    byFirstWord.set(first, bucket)
+  }
+
+  const candidates = tokens.map(lemmaCandidates)
+  const matches = new Map<string, VocabularyMatch>()
+
+  candidates.forEach((tokenCandidates, index) => {
+    const seen = new Set<string>()
+    for (const lemma of tokenCandidates) {
+      for (const entry of byFirstWord.get(lemma) ?? []) {
+        if (seen.has(entry.gapId)) continue
+        const isMatch = entry.words.every((word, offset) =>
+          candidates[index + offset]?.has(word) ?? false
+        )
+        if (!isMatch) continue
+
+        seen.add(entry.gapId)
+        const existing = matches.get(entry.gapId)
+        if (existing) {
+          existing.frequency++
+        } else {
+          matches.set(entry.gapId, { gapId: entry.gapId, frequency: 1, position: index })
+        }
+      }
+    }
+  })
+
+  return Array.from(matches.values())
+}
+
+function parseTerm(metadata: string | null): string | null {
+  if (!metadata) return null
+  try {
+    const meta = JSON.parse(metadata)
+    return typeof meta.term === 'string' && meta.term.trim() ? meta.term : null
+  } catch {
+    return null
+  }
+}
+
+async function loadVocabularyTerms(
+  where: { id?: string } = {},
+  db: Prisma.TransactionClient = prisma
+): Promise<VocabularyTerm[]> {
+  const gaps = await db.gap.findMany({
+    where: { ...where, category: 'vocabulary' },
+    select: { id: true, metadata: true },
+  })
+
+  return gaps.flatMap((gap) => {
+    const term = parseTerm(gap.metadata)
+    return term ? [{ gapId: gap.id, term }] : []
+  })
+}
+
+/**
+ * Replace the APPEARS_IN links for one passage. Links that still match keep
+ * their original `discoveredAt`. Runs inside the caller's transaction so the
+ * links are written together with the passage itself.
+ */
+export async function syncPassageVocabulary(
+  tx: Prisma.TransactionClient,
+  passageId: string,
+  content: string
+): Promise<VocabularyMatch[]> {
+  const matches = matchVocabulary(tokenize(content), await loadVocabularyTerms({}, tx))
+
+  await tx.vocabularyAppearance.deleteMany({
+    where: { passageId, gapId: { notIn: matches.map((m) => m.gapId) } },
+  })
+  for (const match of matches) {
+    await tx.vocabularyAppearance.upsert({
+      where: { gapId_passageId: { gapId: match.gapId, passageId } },
+      update: { frequency: match.frequency, position: match.position },
+      create: { gapId: match.gapId, passageId, frequency: match.frequency, position: match.position },
+    })
+  }
+
+  return matches
+}
+
+/**
+ * Replace the APPEARS_IN links for one vocabulary across all passages, used
+ * when a term is created or renamed.
+ */
+export async function syncVocabularyAppearances(gapId: string): Promise<number> {
+  const terms = await loadVocabularyTerms({ id: gapId })
+  const passages = await prisma.passage.findMany({ select: { id: true, content: true } })
+
+  const links = passages.flatMap((passage) =>
+    matchVocabulary(tokenize(passage.content), terms).map((match) => ({ ...match, passageId: passage.id }))
+  )
+
+  await prisma.$transaction([
+    prisma.vocabularyAppearance.deleteMany({
+      where: { gapId, passageId: { notIn: links.map((l) => l.passageId) } },
+    }),
+    ...links.map((link) =>
+      prisma.vocabularyAppearance.upsert({
+        where: { gapId_passageId: { gapId, passageId: link.passageId } },
+        update: { frequency: link.frequency, position: link.position },
+        create: { gapId, passageId: link.passageId, frequency: link.frequency, position: link.position },
+      })
+    ),
+  ])
+
+  return links.length
+}
@@ -0,0 +1,145 @@
+/**
+ * Learning graph loader for the gap algorithms.
+ *
+ * Builds `LearningNode`s from the persisted ontology:
+ * - vocabularies (`Gap` rows with `category = 'vocabulary'`), difficulty = level
+ * - themes, difficulty = complexity
+ * - passages, difficulty = readingLevel, prerequisites = vocabularies that
+ *   appear in them (APPEARS_IN)
+ * Vocabulary and theme prerequisites come from `Prerequisite` edges.
+ */
+
+import type { Gap } from '@prisma/client'
+import { prisma } from '../prisma'
+import { dependentWhere, edgeEndpoints } from './prerequisites'
+import type { Layer, LearningNode } from '../../gap-algorithm/types'
+
+function safeJsonParse(value: string | null): any {
+  if (!value) return {}
+  try {
+    return JSON.parse(value)
+  } catch {
+    return {}
+  }
+}
+
+function safeJsonArray(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+/** Difficulty 1-3 → L1, 4-7 → L2, 8-10 → L3. */
+export function layerForDifficulty(difficulty: number): Layer {
+  if (difficulty <= 3) return 'L1'
+  if (difficulty <= 7) return 'L2'
+  return 'L3'
+}
+
+const NODE_TYPES = {
+  vocabulary: 'Vocabulary',
+  theme: 'Theme',
+  passage: 'Passage',
+} as const
+
+/** API shape of a graph node (`LearningNode` in types/index.ts). */
+export function toNodeResponse(node: LearningNode) {
+  return {
+    id: node.id,
+    type: NODE_TYPES[node.type],
+    term: node.term ?? null,
+    name: node.name ?? node.title ?? null,
+    difficultyLevel: node.difficulty,
+  }
+}
+
+/** Vocabulary node without edges; prerequisites are linked separately. */
+export function vocabularyNode(gap: Gap): LearningNode {
+  const meta = safeJsonParse(gap.metadata)
+  return {
+    id: gap.id,
+    type: 'vocabulary',
+    term: meta.term || gap.description,
+    description: gap.description,
+    difficulty: gap.level,
+    prerequisites: [],
+    dependencies: [],
+    layer: layerForDifficulty(gap.level),
+    category: gap.category,
+  }
+}
+
+/** Current prerequisite ids of a node: its Prerequisite edges, plus APPEARS_IN vocabularies for passages. */
+export async function loadNodePrerequisites(nodeId: string): Promise<string[]> {
+  const [edges, appearances] = await Promise.all([
+    prisma.prerequisite.findMany({ where: dependentWhere(nodeId) }),
+    prisma.vocabularyAppearance.findMany({ where: { passageId: nodeId }, select: { gapId: true } }),
+  ])
+  return [
+    ...edges.map(edge => edgeEndpoints(edge).prerequisiteId),
+    ...appearances.map(appearance => appearance.gapId),
+  ]
+}
+
+export async function loadLearningGraph(): Promise<LearningNode[]> {
+  const [vocabularies, themes, passages, prerequisites, appearances] = await Promise.all([
+    prisma.gap.findMany({ where: { category: 'vocabulary' } }),
+    prisma.theme.findMany(),
+    prisma.passage.findMany(),
+    prisma.prerequisite.findMany(),
+    prisma.vocabularyAppearance.findMany({ select: { gapId: true, passageId: true } }),
+  ])
+
+  const nodes: LearningNode[] = []
+
+  for (const gap of vocabularies) {
+    nodes.push(vocabularyNode(gap))
+  }
+
+  for (const theme of themes) {
+    nodes.push({
+      id: theme.id,
+      type: 'theme',
+      name: theme.name,
+      description: theme.description,
+      difficulty: theme.complexity,
+      prerequisites: [],
+      dependencies: [],
+      layer: layerForDifficulty(theme.complexity),
+      category: theme.category,
+      tags: safeJsonArray(theme.keywords),
+    })
+  }
+
+  for (const passage of passages) {
+    nodes.push({
+      id: passage.id,
+      type: 'passage',
+      title: passage.title,
+      difficulty: passage.readingLevel,
+      prerequisites: [],
+      dependencies: [],
+      layer: layerForDifficulty(passage.readingLevel),
+      category: passage.genre,
+      tags: safeJsonArray(passage.topics),
+    })
+  }
+
+  const byId = new Map(nodes.map(node => [node.id, node]))
+  const link = (nodeId: string, prerequisiteId: string) => {
+    const node = byId.get(nodeId)
+    const prerequisite = byId.get(prerequisiteId)
+    if (!node || !prerequisite) return
+    node.prerequisites.push(prerequisiteId)
+    prerequisite.dependencies.push(nodeId)
+  }
+
+  prerequisites.map(edgeEndpoints).forEach(edge => link(edge.nodeId, edge.prerequisiteId))
+  // A passage is readable once the vocabulary in it is known.
+  appearances.forEach(appearance => link(appearance.passageId, appearance.gapId))
+
+  return nodes
+}
@@ -0,0 +1,110 @@
+/**
+ * Process-wide learning graph kept in step with ontology writes.
+ *
+ * The graph is loaded once and then patched with `GapUpdate`s as vocabularies
+ * and prerequisite edges change, so gap analyses stop reloading the ontology
+ * per request and only cached analyses that touch the changed nodes are
+ * dropped. Long-lived analyzers can follow the same updates via
+ * `onGraphUpdate(update => analyzer.applyUpdate(update))`. Theme and passage
+ * writes, which don't map onto a single node update, call `resetLiveGraph`.
+ */
+
+import type { Gap } from '@prisma/client'
+import { LearningGraphIndex } from '../../gap-algorithm/LearningGraphIndex'
+import type { GapUpdate, LearningNode } from '../../gap-algorithm/types'
+import { prisma } from '../prisma'
+import { gapAnalysisCache } from '../cache'
+import { loadLearningGraph, loadNodePrerequisites, vocabularyNode } from './graph'
+
+type GraphUpdateListener = (update: GapUpdate) => void
+
+let liveGraph: Promise<LearningGraphIndex> | null = null
+const listeners = new Set<GraphUpdateListener>()
+
+function getLiveGraph(): Promise<LearningGraphIndex> {
+  if (!liveGraph) {
+    const loading = loadLearningGraph().then(nodes => new LearningGraphIndex(nodes))
+    // Don't keep a failed load around; the next caller retries.
+    loading.catch(() => {
+      if (liveGraph === loading) liveGraph = null
+    })
+    liveGraph = loading
+  }
+  return liveGraph
+}
+
+/** Snapshot of the live graph's nodes, loading it on first use. */
+export async function loadLiveGraph(): Promise<LearningNode[]> {
+  const graph = await getLiveGraph()
+  return Array.from(graph.nodes.values())
+}
+
+export function onGraphUpdate(listener: GraphUpdateListener): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+/**
+ * Applies an update to the live graph, invalidates cached analyses touching
+ * the affected nodes and forwards the update to listeners. Returns the
+ * affected node ids.
+ */
+export async function applyGraphUpdate(update: Omit<GapUpdate, 'timestamp'>): Promise<string[]> {
+  const full: GapUpdate = { ...update, timestamp: new Date().toISOString() }
+  let affected = [full.nodeId]
+
+  if (liveGraph) {
+    try {
+      affected = (await liveGraph).apply(full).affectedNodeIds
+      gapAnalysisCache.invalidateNodes(affected)
+    } catch (error) {
+      console.error('Failed to apply graph update, reloading graph:', error)
+      resetLiveGraph()
+    }
+  } else {
+    // Nothing loaded yet: the next load reads the write from the database.
+    gapAnalysisCache.invalidateGraph()
+  }
+
+  listeners.forEach(listener => {
+    try {
+      listener(full)
+    } catch (error) {
+      console.error('Graph update listener failed:', error)
+    }
+  })
+
+  return affected
+}
+
+/** Re-reads a node's prerequisites from the database and applies them. */
+export async function refreshNodePrerequisites(nodeId: string): Promise<string[]> {
+  const prerequisites = await loadNodePrerequisites(nodeId)
+  return applyGraphUpdate({ type: 'prerequisite_updated', nodeId, data: { prerequisites } })
+}
+
+/**
+ * Adds or replaces a vocabulary node, then refreshes the passages it appears
+ * in (their prerequisites include it through APPEARS_IN).
+ */
+export async function upsertVocabularyNode(gap: Gap): Promise<void> {
+  const [prerequisites, appearances] = await Promise.all([
+    loadNodePrerequisites(gap.id),
+    prisma.vocabularyAppearance.findMany({ where: { gapId: gap.id }, select: { passageId: true } }),
+  ])
+
+  await applyGraphUpdate({
+    type: 'node_added',
+    nodeId: gap.id,
+    data: { node: { ...vocabularyNode(gap), prerequisites } },
+  })
+  for (const { passageId } of appearances) {
+    await refreshNodePrerequisites(passageId)
+  }
+}
+
+/** Drops the live graph and every cached analysis; the next read reloads. */
+export function resetLiveGraph(): void {
+  liveGraph = null
+  gapAnalysisCache.invalidateGraph()
+}
@@ -0,0 +1,91 @@
+/**
+ * Passage helpers shared by the `/api/passages` routes.
+ *
+ * Passages have their own Prisma model. List-valued fields (`topics`) are
+ * stored as JSON strings, the same way `Gap.metadata` is. Vocabulary links
+ * are extracted on save, see `./extraction`.
+ */
+
+import { z } from 'zod'
+import type { Passage as PassageRow } from '@prisma/client'
+
+export const PassageSchema = z.object({
+  title: z.string().min(1).max(200),
+  content: z.string().min(1).max(50000),
+  readingLevel: z.number().int().min(1).max(10),
+  wordCount: z.number().int().min(0).optional(),
+  genre: z.string().min(1).max(100),
+  topics: z.array(z.string().min(1).max(100)).max(50).default([]),
+  source: z.string().min(1).max(500),
+  publishedAt: z.string().datetime().optional(),
+})
+
+export const PassageUpdateSchema = z
+  .object({
+    title: z.string().min(1).max(200).optional(),
+    content: z.string().min(1).max(50000).optional(),
+    readingLevel: z.number().int().min(1).max(10).optional(),
+    wordCount: z.number().int().min(0).optional(),
+    genre: z.string().min(1).max(100).optional(),
+    topics: z.array(z.string().min(1).max(100)).max(50).optional(),
+    source: z.string().min(1).max(500).optional(),
+    publishedAt: z.string().datetime().optional(),
+  })
+  .strict()
+
+export const PassageQuerySchema = z.object({
+  first: z.number().int().min(1).max(1000).default(50),
+  skip: z.number().int().min(0).default(0),
+  title_contains: z.string().optional(),
+  readingLevel_gte: z.number().int().min(1).max(10).optional(),
+  readingLevel_lte: z.number().int().min(1).max(10).optional(),
+  genre: z.string().optional(),
+  topic: z.string().optional(),
+  orderBy: z.enum(['TITLE', 'READINGLEVEL', 'WORDCOUNT', 'PUBLISHEDAT']).default('TITLE'),
+  orderDirection: z.enum(['ASC', 'DESC']).default('ASC'),
+})
+
+export type PassageInput = z.infer<typeof PassageSchema>
+export type PassageUpdate = z.infer<typeof PassageUpdateSchema>
+
+export function countWords(content: string): number {
+  const trimmed = content.trim()
+  return trimmed ? trimmed.split(/\s+/).length : 0
+}
+
+function parseTopics(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.filter((t): t is string => typeof t === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+/** Include clause that loads the APPEARS_IN count used by `toPassageResponse`. */
+export const passageCountsInclude = {
+  _count: { select: { vocabularies: true } },
+} as const
+
+type PassageWithCounts = PassageRow & {
+  _count?: { vocabularies: number }
+}
+
+export function toPassageResponse(passage: PassageWithCounts) {
+  return {
+    id: passage.id,
+    title: passage.title,
+    content: passage.content,
+    readingLevel: passage.readingLevel,
+    wordCount: passage.wordCount,
+    genre: passage.genre,
+    topics: parseTopics(passage.topics),
+    source: passage.source,
+    publishedAt: passage.publishedAt.toISOString(),
+    createdAt: passage.createdAt.toISOString(),
+    updatedAt: passage.updatedAt.toISOString(),
+    relationships: {
+      vocabularyCount: passage._count?.vocabularies ?? 0,
+    },
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * PREREQUISITE edge helpers shared by `/api/prerequisites` and
+ * `/api/themes/:id/prerequisites`.
+ *
+ * Allowed edges follow the ontology: Vocabulary → Vocabulary,
+ * Vocabulary → Theme and Theme → Theme (prerequisite → dependent).
+ * New edges are rejected when they would close a cycle, since the gap
+ * algorithms assume the prerequisite graph is acyclic.
+ */
+
+import { z } from 'zod'
+import { Prisma, type Prerequisite as PrerequisiteRow } from '@prisma/client'
+import { prisma } from '../prisma'
+import { refreshNodePrerequisites } from './live-graph'
+
+export type PrerequisiteNodeType = 'vocabulary' | 'theme'
+
+export const PrerequisiteSchema = z.object({
+  nodeId: z.string().min(1),
+  prerequisiteId: z.string().min(1),
+  relationshipType: z.enum(['PRECEDES', 'REQUIRES', 'ENHANCES']).default('REQUIRES'),
+  confidence: z.number().int().min(0).max(100).default(100),
+  mandatory: z.boolean().default(true),
+})
+
+export type PrerequisiteInput = z.infer<typeof PrerequisiteSchema>
+
+export const PrerequisiteQuerySchema = z.object({
+  first: z.number().int().min(1).max(1000).default(50),
+  skip: z.number().int().min(0).default(0),
+  nodeId: z.string().min(1).optional(),
+  prerequisiteId: z.string().min(1).optional(),
+  mandatory: z.boolean().optional(),
+})
+
+/** Raised by `createPrerequisite`; routes turn it into a JSON error response. */
+export class PrerequisiteEdgeError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details?: Record<string, unknown>
+  ) {
+    super(message)
+    this.name = 'PrerequisiteEdgeError'
+  }
+}
+
+/** Dependent and prerequisite node ids of a stored edge. */
+export function edgeEndpoints(edge: PrerequisiteRow): { nodeId: string; prerequisiteId: string } {
+  return {
+    nodeId: (edge.themeId ?? edge.vocabularyId)!,
+    prerequisiteId: (edge.prerequisiteThemeId ?? edge.prerequisiteVocabularyId)!,
+  }
+}
+
+/** Unique key of the edge `nodeId` REQUIRES `prerequisiteId` (`Prerequisite.edgeKey`). */
+export function edgeKey(nodeId: string, prerequisiteId: string): string {
+  return `${prerequisiteId}->${nodeId}`
+}
+
+/** Where clause matching edges whose dependent node is `nodeId`. */
+export function dependentWhere(nodeId: string) {
+  return { OR: [{ themeId: nodeId }, { vocabularyId: nodeId }] }
+}
+
+/** Where clause matching edges whose prerequisite node is `nodeId`. */
+export function prerequisiteWhere(nodeId: string) {
+  return { OR: [{ prerequisiteThemeId: nodeId }, { prerequisiteVocabularyId: nodeId }] }
+}
+
+export function toPrerequisiteResponse(edge: PrerequisiteRow) {
+  const { nodeId, prerequisiteId } = edgeEndpoints(edge)
+  return {
+    id: edge.id,
+    nodeId,
+    nodeType: edge.themeId ? 'Theme' : 'Vocabulary',
+    prerequisiteId,
+    prerequisiteType: edge.prerequisiteThemeId ? 'Theme' : 'Vocabulary',
+    relationshipType: edge.relationshipType,
+    confidence: edge.confidence,
+    mandatory: edge.mandatory,
+    validatedAt: edge.validatedAt ? edge.validatedAt.toISOString() : null,
+    createdAt: edge.createdAt.toISOString(),
+  }
+}
+
+export async function resolveNodeType(
+  id: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<PrerequisiteNodeType | null> {
+  const [theme, vocabulary] = await Promise.all([
+    db.theme.findUnique({ where: { id }, select: { id: true } }),
+    db.gap.findFirst({ where: { id, category: 'vocabulary' }, select: { id: true } }),
+  ])
+  if (theme) return 'theme'
+  if (vocabulary) return 'vocabulary'
+  return null
+}
+
+/**
+ * Returns the cycle that adding `nodeId` REQUIRES `prerequisiteId` would
+ * create, as a node id path starting and ending at `nodeId`, or null.
+ *
+ * A cycle exists when `prerequisiteId` already (transitively) requires
+ * `nodeId`; BFS over existing edges finds the shortest such chain.
+ */
+export function findCycle(
+  edges: Array<{ nodeId: string; prerequisiteId: string }>,
+  nodeId: string,
+  prerequisiteId: string
+): string[] | null {
+  if (nodeId === prerequisiteId) return [nodeId, nodeId]
+
+  const requires = new Map<string, string[]>()
+  for (const edge of edges) {
+    const list = requires.get(edge.nodeId) || []
+    list.push(edge.prerequisiteId)
+    requires.set(edge.nodeId, list)
+  }
+
+  const cameFrom = new Map<string, string>()
+  const queue = [prerequisiteId]
+  const visited = new Set(queue)
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    if (current === nodeId) {
+      const chain = [current]
+      let step = current
+      while (step !== prerequisiteId) {
+        step = cameFrom.get(step)!
+        chain.unshift(step)
+      }
+      return [nodeId, ...chain]
+    }
+    for (const next of requires.get(current) || []) {
+      if (visited.has(next)) continue
+      visited.add(next)
+      cameFrom.set(next, current)
+      queue.push(next)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validates and stores a PREREQUISITE edge.
+ * The checks and the insert run in one serializable transaction, so two
+ * concurrent requests can't both pass the duplicate or cycle check.
+ * Throws `PrerequisiteEdgeError` for unknown nodes (404), disallowed node
+ * pairs or self-edges (400), duplicates and cycles (409).
+ */
+export async function createPrerequisite(input: PrerequisiteInput): Promise<PrerequisiteRow> {
+  const { nodeId, prerequisiteId } = input
+
+  if (nodeId === prerequisiteId) {
+    throw new PrerequisiteEdgeError('A node cannot be its own prerequisite', 400)
+  }
+
+  let created: PrerequisiteRow
+  try {
+    created = await prisma.$transaction(
+      async tx => {
+        const [nodeType, prerequisiteType] = await Promise.all([
+          resolveNodeType(nodeId, tx),
+          resolveNodeType(prerequisiteId, tx),
+        ])
+        if (!nodeType || !prerequisiteType) {
+          throw new PrerequisiteEdgeError('Node or prerequisite not found', 404)
+        }
+        if (nodeType === 'vocabulary' && prerequisiteType === 'theme') {
+          throw new PrerequisiteEdgeError('A theme cannot be a prerequisite of a vocabulary', 400)
+        }
+
+        const stored = await tx.prerequisite.findMany()
+        const edges = stored.map(edgeEndpoints)
+
+        if (edges.some(edge => edge.nodeId === nodeId && edge.prerequisiteId === prerequisiteId)) {
+          throw new PrerequisiteEdgeError('Prerequisite already exists', 409)
+        }
+
+        const cycle = findCycle(edges, nodeId, prerequisiteId)
+        if (cycle) {
+          throw new PrerequisiteEdgeError('Prerequisite would create a cycle', 409, { cycle })
+        }
+
+        return tx.prerequisite.create({
+          data: {
+            relationshipType: input.relationshipType,
+            confidence: input.confidence,
+            mandatory: input.mandatory,
+            validatedAt: new Date(),
+            edgeKey: edgeKey(nodeId, prerequisiteId),
+            ...(nodeType === 'theme' ? { themeId: nodeId } : { vocabularyId: nodeId }),
+            ...(prerequisiteType === 'theme'
+              ? { prerequisiteThemeId: prerequisiteId }
+              : { prerequisiteVocabularyId: prerequisiteId }),
+          },
+        })
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    )
+  } catch (error) {
+    // The same edge was committed by a concurrent request
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new PrerequisiteEdgeError('Prerequisite already exists', 409)
+    }
+    throw error
+  }
+  await refreshNodePrerequisites(nodeId)
+
+  return created
+}
@@ -0,0 +1,68 @@
+/**
+ * Vocabulary extraction tests
+ */
+
+import { lemmaCandidates, matchVocabulary, tokenize } from '../extraction'
+
+describe('tokenize', () => {
+  test('should lowercase words and drop punctuation and digits', () => {
+    expect(tokenize('The Rapid, rapid river -- 42 times!')).toEqual(['the', 'rapid', 'rapid', 'river', 'times'])
+  })
+
+  test('should keep internal apostrophes and normalize curly ones', () => {
+    expect(tokenize("The teacher’s notes weren't 'lost'")).toEqual(["the", "teacher's", 'notes', "weren't", 'lost'])
+  })
+})
+
+describe('lemmaCandidates', () => {
+  test.each([
+    ['cats', 'cat'],
+    ['boxes', 'box'],
+    ['studies', 'study'],
+    ['carried', 'carry'],
+    ['played', 'play'],
+    ['stopped', 'stop'],
+    ['making', 'make'],
+    ['running', 'run'],
+    ['reading', 'read'],
+    ["teacher's", 'teacher'],
+    ['went', 'go'],
+    ['children', 'child'],
+  ])('should reduce %s to %s', (token, lemma) => {
+    expect(lemmaCandidates(token).has(lemma)).toBe(true)
+  })
+
+  test('should keep the token itself and leave short words alone', () => {
+    expect(lemmaCandidates('Glass')).toEqual(new Set(['glass']))
+    expect(lemmaCandidates('bed')).toEqual(new Set(['bed']))
+  })
+})
+
+describe('matchVocabulary', () => {
+  const terms = [
+    { gapId: 'study', term: 'study' },
+    { gapId: 'give-up', term: 'give up' },
+    { gapId: 'look-forward', term: 'look forward to' },
+  ]
+
+  test('should count inflected occurrences and record the first position', () => {
+    const tokens = tokenize('She studied hard. Studying daily, she studies well.')
+
+    expect(matchVocabulary(tokens, terms)).toEqual([{ gapId: 'study', frequency: 3, position: 1 }])
+  })
+
+  test('should match multi-word terms with any word inflected', () => {
+    const tokens = tokenize('He gave up once, but giving up twice was new. They looked forward to it.')
+
+    expect(matchVocabulary(tokens, terms)).toEqual([
+      { gapId: 'give-up', frequency: 2, position: 1 },
+      { gapId: 'look-forward', frequency: 1, position: 11 },
+    ])
+  })
+
+  test('should not match a multi-word term split across other words', () => {
+    const tokens = tokenize('Give the book up and look to the forward line.')
+
+    expect(matchVocabulary(tokens, terms)).toEqual([])
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Theme helpers shared by the `/api/themes` routes.
+ *
+ * Themes have their own Prisma model; `keywords` is stored as a JSON string.
+ * Prerequisite edges live in `Prerequisite` (see ./prerequisites.ts).
+ */
+
+import { z } from 'zod'
+import type { Theme as ThemeRow } from '@prisma/client'
+
+export const ThemeSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().min(1).max(2000),
+  category: z.string().min(1).max(100),
+  complexity: z.number().int().min(1).max(10),
+  keywords: z.array(z.string().min(1).max(100)).max(50).default([]),
+})
+
+export const ThemeUpdateSchema = z
+  .object({
+    name: z.string().min(1).max(200).optional(),
+    description: z.string().min(1).max(2000).optional(),
+    category: z.string().min(1).max(100).optional(),
+    complexity: z.number().int().min(1).max(10).optional(),
+    keywords: z.array(z.string().min(1).max(100)).max(50).optional(),
+  })
+  .strict()
+
+export const ThemeQuerySchema = z.object({
+  first: z.number().int().min(1).max(1000).default(50),
+  skip: z.number().int().min(0).default(0),
+  name_contains: z.string().optional(),
+  category: z.string().optional(),
+  complexity_gte: z.number().int().min(1).max(10).optional(),
+  complexity_lte: z.number().int().min(1).max(10).optional(),
+  orderBy: z.enum(['NAME', 'COMPLEXITY', 'CREATEDAT']).default('NAME'),
+  orderDirection: z.enum(['ASC', 'DESC']).default('ASC'),
+})
+
+/** Include clause that loads the edge counts used by `toThemeResponse`. */
+export const themeCountsInclude = {
+  _count: { select: { prerequisites: true, requiredBy: true } },
+} as const
+
+type ThemeWithCounts = ThemeRow & {
+  _count?: { prerequisites: number; requiredBy: number }
+}
+
+function parseKeywords(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.filter((k): k is string => typeof k === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+export function toThemeResponse(theme: ThemeWithCounts) {
+  return {
+    id: theme.id,
+    name: theme.name,
+    description: theme.description,
+    category: theme.category,
+    complexity: theme.complexity,
+    keywords: parseKeywords(theme.keywords),
+    createdAt: theme.createdAt.toISOString(),
+    updatedAt: theme.updatedAt.toISOString(),
+    relationships: {
+      prerequisitesCount: theme._count?.prerequisites ?? 0,
+      requiredByCount: theme._count?.requiredBy ?? 0,
+    },
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Question bank over the `Question` table.
+ *
+ * Questions are keyed by gap, type and difficulty. Before anything is
+ * generated, `drawQuestions` reuses questions the student hasn't been assigned
+ * or answered in the last `unseenDays` days. New questions go through
+ * `addQuestion`, which returns an existing question instead of inserting a
+ * near-duplicate (normalized text + character n-gram similarity).
+ */
+
+import type { Question } from '@prisma/client'
+import { prisma } from '../prisma'
+import {
+  NEAR_DUPLICATE_THRESHOLD,
+  QuestionText,
+  findNearDuplicate,
+  questionSignature,
+} from '../../edu-ontology/backend/src/bank/similarity'
+
+export const DEFAULT_UNSEEN_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface QuestionDraft {
+  type: string
+  content: string
+  options: string[] | null
+  answer: string
+  explanation: string
+  difficulty: number
+  metadata: Record<string, unknown>
+}
+
+export interface DrawOptions {
+  count: number
+  type?: string
+  targetDifficulty?: number
+  exclude?: Set<string> // seen or already picked question ids
+}
+
+function parseOptions(value: string | null): string[] | null {
+  if (!value) return null
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.map(String) : null
+  } catch {
+    return null
+  }
+}
+
+function questionText(question: Pick<Question, 'content' | 'answer' | 'options'>): QuestionText {
+  return { question: question.content, answer: question.answer ?? '', options: parseOptions(question.options) }
+}
+
+// Stored signature; questions saved before the bank existed have none
+function questionSignatureOf(question: Question): string {
+  return question.signature ?? questionSignature(questionText(question))
+}
+
+/** Ids of questions the student was assigned or answered in the last `unseenDays` days. */
+export async function loadSeenQuestionIds(studentId: string, unseenDays = DEFAULT_UNSEEN_DAYS): Promise<Set<string>> {
+  const since = new Date(Date.now() - unseenDays * DAY_MS)
+  const [assigned, answered] = await Promise.all([
+    prisma.assignmentQuestion.findMany({
+      where: { assignment: { studentId }, createdAt: { gte: since } },
+      select: { questionId: true },
+    }),
+    prisma.sessionQuestion.findMany({
+      where: { session: { studentId }, createdAt: { gte: since } },
+      select: { questionId: true },
+    }),
+  ])
+  return new Set([...assigned, ...answered].map(row => row.questionId))
+}
+
+/**
+ * Up to `count` bank questions for a gap, closest to `targetDifficulty` and
+ * least used first.
+ */
+export async function drawQuestions(gapId: string, options: DrawOptions): Promise<Question[]> {
+  const { count, type, targetDifficulty, exclude = new Set<string>() } = options
+  const questions = await prisma.question.findMany({
+    where: { gapId, ...(type && { type }) },
+  })
+
+  return questions
+    .filter(question => !exclude.has(question.id))
+    .sort((a, b) => {
+      if (targetDifficulty !== undefined) {
+        const diff = Math.abs(a.difficulty - targetDifficulty) - Math.abs(b.difficulty - targetDifficulty)
+        if (diff !== 0) return diff
+      }
+      return a.usageCount - b.usageCount
+    })
+    .slice(0, count)
+}
+
+/**
+ * Stores a question for a gap. When the gap already has a near-duplicate of
+ * the same type, that question is returned instead and nothing is inserted.
+ */
+export async function addQuestion(
+  gapId: string,
+  draft: QuestionDraft,
+  threshold = NEAR_DUPLICATE_THRESHOLD
+): Promise<{ question: Question; duplicate: boolean }> {
+  const text: QuestionText = { question: draft.content, answer: draft.answer, options: draft.options }
+  const existing = await prisma.question.findMany({ where: { gapId, type: draft.type } })
+
+  const duplicate = findNearDuplicate(text, existing, questionSignatureOf, threshold)
+  if (duplicate) {
+    return { question: duplicate.item, duplicate: true }
+  }
+
+  const question = await prisma.question.create({
+    data: {
+      gapId,
+      type: draft.type,
+      content: draft.content,
+      options: draft.options ? JSON.stringify(draft.options) : null,
+      answer: draft.answer,
+      explanation: draft.explanation,
+      difficulty: draft.difficulty,
+      metadata: JSON.stringify(draft.metadata),
+      signature: questionSignature(text),
+    },
+  })
+  return { question, duplicate: false }
+}
+
+export async function recordQuestionUse(questionIds: string[]): Promise<void> {
+  if (questionIds.length === 0) return
+  await prisma.question.updateMany({
+    where: { id: { in: questionIds } },
+    data: { usageCount: { increment: 1 }, lastUsedAt: new Date() },
+  })
+}
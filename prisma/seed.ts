@@ -274,6 +274,7 @@ async function main() {
           questionId: aq.questionId,
           answer: aq.question.answer || '',
           isCorrect,
+          score: isCorrect ? 1 : 0,
           timeTaken: Math.floor(Math.random() * 60) + 10,
           feedback: isCorrect ? 'Correct!' : `The correct answer is: ${aq.question.answer}`,
         },
@@ -0,0 +1,30 @@
+/**
+ * Item analysis.
+ *
+ * Computes p-value, discrimination, average answer time and option selection
+ * rates per question from the session history, flags items that are too easy,
+ * too hard or have distractors nobody picks, and recalibrates
+ * `Question.difficulty`. Run with `npm run items:analyze [-- --no-recalibrate]`.
+ */
+
+import { prisma } from '../lib/prisma'
+import { analyzeItems } from '../lib/item-analysis/store'
+
+async function main() {
+  const recalibrate = !process.argv.includes('--no-recalibrate')
+  const summary = await analyzeItems({ recalibrate })
+
+  console.log(`Questions: ${summary.questions} (${summary.responses} first attempts)`)
+  console.log(`Analyzed: ${summary.analyzed} with enough responses`)
+  console.log('Flagged:', summary.flagged)
+  console.log(recalibrate ? `Recalibrated difficulty: ${summary.recalibrated}` : 'Recalibration: skipped')
+}
+
+main()
+  .catch((error) => {
+    console.error('Item analysis failed:', error)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,37 @@
+/**
+ * Gap parameter calibration.
+ *
+ * Fits gap score weights, the mastery threshold and the low/medium cutoffs
+ * against every student's observed outcomes and stores them as the next
+ * version of a named parameter set. Run with
+ * `npm run gap:calibrate [-- --name=calibrated]`.
+ */
+
+import { prisma } from '../lib/prisma'
+import { calibrateGapParameterSet } from '../lib/gap-parameters/store'
+
+function parseName(): string {
+  const arg = process.argv.find((value) => value.startsWith('--name='))
+  const name = arg?.split('=')[1]?.trim()
+  return name || 'calibrated'
+}
+
+async function main() {
+  const { parameterSet, metrics, students } = await calibrateGapParameterSet(parseName())
+  const { lowThreshold, mediumThreshold } = parameterSet.thresholds
+
+  console.log(`Parameter set: ${parameterSet.name} v${parameterSet.version} (${metrics.method})`)
+  console.log(`Observations: ${metrics.observations} from ${students} students, correlation ${metrics.correlation.toFixed(3)}`)
+  console.log('Weights:', parameterSet.params)
+  console.log(`Cutoffs: low <= ${lowThreshold.toFixed(2)}, medium <= ${mediumThreshold.toFixed(2)}`)
+  console.log('Success rate per level:', metrics.levelSuccess)
+}
+
+main()
+  .catch((error) => {
+    console.error('Gap parameter calibration failed:', error)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,35 @@
+/**
+ * Offline BKT parameter fit.
+ *
+ * Refits per-concept knowledge-tracing parameters from the full session
+ * history and recomputes every student's mastery. Run with
+ * `npm run mastery:fit [-- --min-observations=20]`.
+ */
+
+import { prisma } from '../lib/prisma'
+import { fitKnowledgeTracing } from '../lib/mastery/store'
+
+function parseMinObservations(): number | undefined {
+  const arg = process.argv.find((value) => value.startsWith('--min-observations='))
+  if (!arg) return undefined
+  const parsed = parseInt(arg.split('=')[1] || '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+async function main() {
+  const minObservations = parseMinObservations()
+  const summary = await fitKnowledgeTracing(minObservations ? { minObservations } : {})
+
+  console.log(`Concepts: ${summary.concepts} (fitted ${summary.fitted}, pooled ${summary.pooled})`)
+  console.log(`Knowledge states recomputed: ${summary.states}`)
+  console.log('Pooled parameters:', summary.globalParameters)
+}
+
+main()
+  .catch((error) => {
+    console.error('Knowledge tracing fit failed:', error)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
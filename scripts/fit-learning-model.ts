@@ -0,0 +1,33 @@
+/**
+ * Offline learning model fit.
+ *
+ * Trains the path success/time predictor on the full session history and
+ * stores it as the newest `LearningModelSnapshot`, which the learning path
+ * API then uses for confidence. Run with `npm run model:fit`.
+ */
+
+import { prisma } from '../lib/prisma'
+import { fitLearningModel } from '../lib/learning-model/store'
+
+async function main() {
+  const summary = await fitLearningModel()
+
+  console.log(`Examples: ${summary.examples} (${summary.timeExamples} with study time)`)
+  if (summary.holdout) {
+    const { logLoss, accuracy, timeMae } = summary.holdout
+    console.log(`Holdout: log loss ${logLoss.toFixed(3)}, accuracy ${(accuracy * 100).toFixed(1)}%` +
+      (timeMae !== null ? `, time MAE ${timeMae.toFixed(1)} min` : ''))
+  } else {
+    console.log('Holdout: skipped (not enough examples)')
+  }
+  console.log(`Snapshot: ${summary.snapshotId}`)
+}
+
+main()
+  .catch((error) => {
+    console.error('Learning model fit failed:', error)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -35,6 +35,7 @@ export const Dashboard: React.FC = () => {
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [selectedGap, setSelectedGap] = useState<Gap | null>(null);
   const [activeTab, setActiveTab] = useState<'overview' | 'gaps' | 'assignments'>('overview');
+  const [dueWords, setDueWords] = useState<number | null>(null);
 
   // Mock data - in real app, fetch from API
   useEffect(() => {
@@ -77,6 +78,16 @@ export const Dashboard: React.FC = () => {
     ]);
   }, []);
 
+  // Spaced-repetition queue for today
+  useEffect(() => {
+    if (!student) return;
+
+    fetch(`/engine/reviews/due?studentId=${encodeURIComponent(student.id)}&category=vocabulary`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setDueWords(data ? data.dueCount : null))
+      .catch(() => setDueWords(null));
+  }, [student]);
+
   // Mock word galaxy data
   const wordGalaxyNodes = [
     { id: '1', word: 'ubiquitous', x: 400, y: 300, radius: 20, group: 'vocabulary', connections: ['2', '3'], difficulty: 6, frequency: 45 },
@@ -106,9 +117,19 @@ export const Dashboard: React.FC = () => {
                   <h2 className="text-xl font-semibold">{student.name}</h2>
                   <p className="text-gray-400">{student.email}</p>
                 </div>
-                <div className="text-right">
-                  <div className="text-2xl font-bold">Level {student.level}</div>
-                  <div className="text-sm text-gray-400">Current Progress</div>
+                <div className="flex items-center gap-8">
+                  {dueWords !== null && (
+                    <div className="text-right">
+                      <div className="text-2xl font-bold">{dueWords}</div>
+                      <div className="text-sm text-gray-400">
+                        {dueWords === 1 ? 'word' : 'words'} due today
+                      </div>
+                    </div>
+                  )}
+                  <div className="text-right">
+                    <div className="text-2xl font-bold">Level {student.level}</div>
+                    <div className="text-sm text-gray-400">Current Progress</div>
+                  </div>
                 </div>
               </div>
             </div>
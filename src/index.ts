@@ -11,6 +11,7 @@ import assignmentsRouter from './routes/assignments';
 import sessionsRouter from './routes/sessions';
 import gapsRouter from './routes/gaps';
 import trendsRouter from './routes/trends';
+import reviewsRouter from './routes/reviews';
 import { generateRequestId } from './utils/helpers';
 
 const env = {
@@ -54,6 +55,7 @@ app.use('/engine', assignmentsRouter);
 app.use('/engine', sessionsRouter);
 app.use('/engine', gapsRouter);
 app.use('/engine', trendsRouter);
+app.use('/engine', reviewsRouter);
 
 app.use((error: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
   console.error('Unhandled error', error);
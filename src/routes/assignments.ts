@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { prisma } from '../../lib/prisma';
 import { assignmentService } from '../services/assignment.service';
+import { DEFAULT_UNSEEN_DAYS } from '../../lib/question-bank/store';
 
 const router = Router();
 
@@ -25,6 +26,60 @@ router.post('/assignments', async (req, res) => {
   }
 });
 
+router.post('/assignments/auto', async (req, res) => {
+  try {
+    const {
+      studentId,
+      questionCount = 10,
+      timeBudgetMinutes = 30,
+      maxGaps = 5,
+      unseenDays = DEFAULT_UNSEEN_DAYS
+    } = req.body;
+
+    if (!studentId) {
+      return res.status(400).json({ error: 'studentId is required' });
+    }
+
+    const limits = { questionCount, timeBudgetMinutes, maxGaps };
+    for (const [name, value] of Object.entries(limits)) {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 1) {
+        return res.status(400).json({ error: `${name} must be a positive number` });
+      }
+    }
+    if (questionCount > 50) {
+      return res.status(400).json({ error: 'questionCount must be at most 50' });
+    }
+    if (typeof unseenDays !== 'number' || !Number.isFinite(unseenDays) || unseenDays < 0) {
+      return res.status(400).json({ error: 'unseenDays must be a non-negative number' });
+    }
+
+    const student = await prisma.student.findUnique({ where: { id: studentId } });
+    if (!student) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const result = await assignmentService.createAdaptiveAssignment(studentId, {
+      questionCount: Math.floor(questionCount),
+      timeBudgetMinutes,
+      maxGaps: Math.floor(maxGaps),
+      unseenDays
+    });
+    if (!result) {
+      return res.status(422).json({
+        error: 'No unseen questions fit the student\'s gaps within the time budget'
+      });
+    }
+
+    return res.json(result);
+  } catch (error) {
+    console.error('Adaptive assignment creation failed:', error);
+    return res.status(500).json({
+      error: 'Failed to create adaptive assignment',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 router.get('/students/:id/assignments', async (req, res) => {
   try {
     const { id } = req.params;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { prisma } from '../../lib/prisma';
-import { calculateMasteryLevel } from '../utils/helpers';
+import { DEFAULT_BKT_PARAMETERS } from '../../lib/mastery/bkt';
 import { Prisma } from '@prisma/client';
 
 const router = Router();
@@ -17,6 +17,7 @@ router.get('/gaps', async (req, res) => {
       where,
       include: {
         student: true,
+        tracingParameters: true,
         _count: {
           select: {
             sessions: {
@@ -30,11 +31,22 @@ router.get('/gaps', async (req, res) => {
       orderBy: { createdAt: 'desc' }
     });
 
+    // Mastery is the owning student's BKT P(known); untried gaps use the prior.
+    const states = await prisma.knowledgeState.findMany({
+      where: { gapId: { in: gaps.map(gap => gap.id) } },
+      select: { studentId: true, gapId: true, pKnown: true },
+    });
+    const masteryByGap = new Map(
+      states.map(state => [`${state.studentId}:${state.gapId}`, state.pKnown])
+    );
+
     const transformedGaps = gaps.map(gap => ({
       id: gap.id,
       conceptName: gap.description.split(' ').slice(0, 3).join(' '),
       category: gap.category,
-      masteryLevel: calculateMasteryLevel(gap.level, gap._count.sessions),
+      masteryLevel: masteryByGap.get(`${gap.studentId}:${gap.id}`)
+        ?? gap.tracingParameters?.pInit
+        ?? DEFAULT_BKT_PARAMETERS.pInit,
       recentFailures: gap._count.sessions,
       level: gap.level,
       description: gap.description
@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { prisma } from '../../lib/prisma';
+import { endOfDay } from '../../lib/mastery/review';
+import { Prisma } from '@prisma/client';
+
+const router = Router();
+
+router.get('/reviews/due', async (req, res) => {
+  try {
+    const { studentId, category, date } = req.query;
+
+    if (!studentId) {
+      return res.status(400).json({ error: 'studentId is required' });
+    }
+
+    const asOf = date ? new Date(String(date)) : new Date();
+    if (Number.isNaN(asOf.getTime())) {
+      return res.status(400).json({ error: 'date must be a valid date' });
+    }
+
+    const where: Prisma.ReviewScheduleWhereInput = {
+      studentId: String(studentId),
+      dueAt: { lt: endOfDay(asOf) },
+    };
+    if (category) where.gap = { category: String(category) };
+
+    const schedules = await prisma.reviewSchedule.findMany({
+      where,
+      include: { gap: true },
+      orderBy: { dueAt: 'asc' }
+    });
+
+    const queue = schedules.map(schedule => {
+      let term: string | undefined;
+      try {
+        term = JSON.parse(schedule.gap.metadata || '{}').term;
+      } catch {
+        term = undefined;
+      }
+
+      return {
+        gapId: schedule.gapId,
+        category: schedule.gap.category,
+        term: term || schedule.gap.description,
+        level: schedule.gap.level,
+        dueAt: schedule.dueAt.toISOString(),
+        overdueDays: Math.max(0, Math.floor((asOf.getTime() - schedule.dueAt.getTime()) / 86400000)),
+        interval: schedule.interval,
+        easeFactor: schedule.easeFactor,
+        repetitions: schedule.repetitions,
+        lastReviewedAt: schedule.lastReviewedAt?.toISOString() ?? null
+      };
+    });
+
+    return res.json({
+      date: asOf.toISOString(),
+      dueCount: queue.length,
+      reviews: queue
+    });
+  } catch (error) {
+    console.error('Failed to get due reviews', error);
+    return res.status(500).json({ error: 'Failed to get due reviews' });
+  }
+});
+
+export default router;
@@ -0,0 +1,121 @@
+import type { Question } from '@prisma/client';
+
+// Rough minutes needed per question type, used for the auto-assignment time budget
+export const QUESTION_MINUTES: Record<string, number> = {
+  multiple_choice: 1,
+  fill_blank: 1.5,
+  word_formation: 1.5,
+  matching: 3,
+  ordering: 2,
+  short_answer: 3,
+  essay: 10,
+};
+export const DEFAULT_QUESTION_MINUTES = 2;
+
+export interface AdaptiveGap {
+  gapId: string;
+  level: number;
+  mastery: number;
+  weakness: number;
+  questions: Question[];
+}
+
+export interface PickedQuestion {
+  question: Question;
+  minutes: number;
+}
+
+/**
+ * Questions per gap proportional to weakness (largest remainder), at least
+ * one each while the count allows. Gaps are expected in priority order; the
+ * quotas add up to `questionCount`.
+ */
+export function allocateQuotas(weaknesses: number[], questionCount: number): number[] {
+  if (weaknesses.length === 0 || questionCount <= 0) return weaknesses.map(() => 0);
+
+  const total = weaknesses.reduce((sum, weakness) => sum + weakness, 0);
+  const shares = weaknesses.map(weakness =>
+    total > 0 ? (weakness / total) * questionCount : questionCount / weaknesses.length
+  );
+  const quotas = shares.map((share, index) => (index < questionCount ? Math.max(1, Math.floor(share)) : 0));
+
+  // Trim from the lowest priority gaps if the minimum of one overshot
+  let assigned = quotas.reduce((sum, quota) => sum + quota, 0);
+  for (let i = quotas.length - 1; assigned > questionCount && i >= 0; i--) {
+    while (quotas[i]! > 1 && assigned > questionCount) {
+      quotas[i]!--;
+      assigned--;
+    }
+  }
+
+  // Leftovers go to the largest remainders, ties to the higher priority gap
+  const byRemainder = shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (let i = 0; assigned < questionCount; i = (i + 1) % byRemainder.length) {
+    quotas[byRemainder[i]!.index]!++;
+    assigned++;
+  }
+
+  return quotas;
+}
+
+/**
+ * Round-robin over the gaps (priority order) so each gets its quota before
+ * the time budget runs out. Once every quota is used up or can't be filled,
+ * the remaining slots keep going round-robin by priority, so the assignment
+ * only comes out short when questions or time run out.
+ */
+export function pickAdaptiveQuestions(
+  gaps: AdaptiveGap[],
+  options: { questionCount: number; timeBudgetMinutes: number }
+): { picked: PickedQuestion[]; minutesUsed: number } {
+  const { questionCount, timeBudgetMinutes } = options;
+  const quotas = allocateQuotas(gaps.map(gap => gap.weakness), questionCount);
+  const exhausted = new Set<string>();
+
+  const picked: PickedQuestion[] = [];
+  const typeCounts = new Map<string, number>();
+  let minutesUsed = 0;
+
+  const nextCandidate = (gap: AdaptiveGap): PickedQuestion | undefined => {
+    // Stronger students get harder questions within the gap.
+    const targetDifficulty = gap.level + (gap.mastery - 0.5) * 4;
+
+    return gap.questions
+      .filter(question => !picked.some(p => p.question.id === question.id))
+      .map(question => ({ question, minutes: QUESTION_MINUTES[question.type] ?? DEFAULT_QUESTION_MINUTES }))
+      .filter(({ minutes }) => minutesUsed + minutes <= timeBudgetMinutes)
+      .sort((a, b) => {
+        const typeDiff = (typeCounts.get(a.question.type) || 0) - (typeCounts.get(b.question.type) || 0);
+        if (typeDiff !== 0) return typeDiff;
+        return Math.abs(a.question.difficulty - targetDifficulty) - Math.abs(b.question.difficulty - targetDifficulty);
+      })[0];
+  };
+
+  for (const useQuotas of [true, false]) {
+    let progress = true;
+    while (picked.length < questionCount && progress) {
+      progress = false;
+
+      for (const [index, gap] of gaps.entries()) {
+        if (picked.length >= questionCount) break;
+        if (exhausted.has(gap.gapId) || (useQuotas && quotas[index]! <= 0)) continue;
+
+        const candidate = nextCandidate(gap);
+        if (!candidate) {
+          exhausted.add(gap.gapId);
+          continue;
+        }
+
+        picked.push(candidate);
+        minutesUsed += candidate.minutes;
+        typeCounts.set(candidate.question.type, (typeCounts.get(candidate.question.type) || 0) + 1);
+        quotas[index]!--;
+        progress = true;
+      }
+    }
+  }
+
+  return { picked, minutesUsed };
+}
@@ -1,59 +1,128 @@
 import { prisma } from '../../lib/prisma';
 import { neo4j, Neo4jParams } from '../../lib/neo4j/driver';
-import { Prisma, LearningSession, SessionQuestion, AssignmentQuestion, Question } from '@prisma/client';
+import { recordAnswers } from '../../lib/mastery/store';
+import { scheduleReviews } from '../../lib/mastery/review';
+import { DEFAULT_BKT_PARAMETERS } from '../../lib/mastery/bkt';
+import { edgeEndpoints } from '../../lib/ontology/prerequisites';
+import { layerForDifficulty } from '../../lib/ontology/graph';
+import { gapEventBus } from '../../lib/events';
+import { GapAnalyzer, GapPriority, HEURISTIC_WEIGHTS } from '../../gap-algorithm/GapAnalyzer';
+import { createGapEvent } from '../../gap-algorithm/GapEventBus';
+import {
+  DEFAULT_UNSEEN_DAYS,
+  addQuestion,
+  drawQuestions,
+  loadSeenQuestionIds,
+  recordQuestionUse,
+} from '../../lib/question-bank/store';
+import { aiService } from '../utils/ai/ai-assignment-generator';
+import { AssignmentType } from '../../edu-ontology/backend/src/ai/types';
+import { AnswerKey, GradeResult, gradeAnswer } from '../../edu-ontology/backend/src/grading';
+import { pickAdaptiveQuestions } from './adaptive-selection';
+import type { GapEvent, LearningNode } from '../../gap-algorithm/types';
+import { Prisma, LearningSession, SessionQuestion, Question, KnowledgeState } from '@prisma/client';
+
+const PRIORITY_WEIGHTS: Record<GapPriority, number> = {
+  immediate: 1,
+  'short-term': 0.6,
+  'long-term': 0.3,
+};
+
+// Failed sessions (score below 60) older than this don't count toward a gap's weakness
+const RECENT_FAILURE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Assignment types cycled through when the bank has no unseen question for a gap
+const GENERATION_TYPES = [
+  AssignmentType.CONTEXT_GUESS,
+  AssignmentType.SEMANTIC_UNIT,
+  AssignmentType.GAP_BRIDGE,
+  AssignmentType.THESAURUS,
+];
+
+export interface BankAssignmentOptions {
+  questionsPerGap?: number;
+  unseenDays?: number;
+}
+
+export interface AutoAssignmentOptions {
+  questionCount?: number;
+  timeBudgetMinutes?: number;
+  maxGaps?: number;
+  unseenDays?: number;
+}
+
+export interface GapSelection {
+  gapId: string;
+  category: string;
+  level: number;
+  mastery: number;
+  recentFailures: number;
+  priority: GapPriority | null;
+  dueForReview: boolean;
+  weakness: number;
+}
 
 export class AssignmentService {
   /**
-   * Create a new assignment based on student's gaps
+   * Create a new assignment based on student's gaps.
+   * Each gap first reuses bank questions the student hasn't seen in
+   * `unseenDays` days; only the shortfall is generated and added to the bank.
    */
-  async createAssignmentFromGaps(studentId: string, gapIds: string[]) {
+  async createAssignmentFromGaps(studentId: string, gapIds: string[], options: BankAssignmentOptions = {}) {
+    const { questionsPerGap = 2, unseenDays = DEFAULT_UNSEEN_DAYS } = options;
+
     try {
       if (!gapIds.length) {
         throw new Error('gapIds must contain at least one id');
       }
-      const gapId = gapIds[0]!;
-      if (!gapId) {
-        throw new Error('gapIds[0] is required');
+
+      const gaps = await prisma.gap.findMany({ where: { id: { in: gapIds }, studentId } });
+      const gapsById = new Map(gaps.map(gap => [gap.id, gap]));
+      const missing = gapIds.filter(gapId => !gapsById.has(gapId));
+      if (missing.length > 0) {
+        throw new Error(`Unknown gaps for student: ${missing.join(', ')}`);
       }
 
-      const [q1, q2] = await prisma.$transaction([
-        prisma.question.create({
-          data: {
-            type: 'multiple_choice',
-            content: 'What is the capital of France?',
-            options: JSON.stringify(['Paris', 'London', 'Berlin', 'Madrid']),
-            answer: 'Paris',
-            explanation: 'Paris is the capital of France',
-            difficulty: 3,
-            metadata: JSON.stringify({}),
-            gapId,
-          },
-        }),
-        prisma.question.create({
-          data: {
-            type: 'fill_blank',
-            content: 'The largest planet in our solar system is ____.',
-            options: null,
-            answer: 'Jupiter',
-            explanation: 'Jupiter is the largest planet in our solar system',
-            difficulty: 4,
-            metadata: JSON.stringify({}),
-            gapId,
-          },
-        }),
-      ])
+      const exclude = await loadSeenQuestionIds(studentId, unseenDays);
+      const picked: Question[] = [];
+      let generated = 0;
+
+      for (const gapId of gapIds) {
+        const gap = gapsById.get(gapId)!;
+        const drawn = await drawQuestions(gapId, { count: questionsPerGap, targetDifficulty: gap.level, exclude });
+        drawn.forEach(question => exclude.add(question.id));
+        picked.push(...drawn);
+
+        // Bank exhausted for this gap: generate the rest, skipping repeats.
+        let needed = questionsPerGap - drawn.length;
+        for (let attempt = 0; needed > 0 && attempt < questionsPerGap * 2; attempt++) {
+          const type = GENERATION_TYPES[(drawn.length + attempt) % GENERATION_TYPES.length]!;
+          const { question } = await addQuestion(gapId, await aiService.generateQuestion(gapId, type));
+          if (exclude.has(question.id)) continue;
+
+          exclude.add(question.id);
+          picked.push(question);
+          generated++;
+          needed--;
+        }
+      }
+
+      if (picked.length === 0) {
+        throw new Error('No unseen questions available for the given gaps');
+      }
 
       const assignment = await prisma.assignment.create({
         data: {
-          name: 'Sample Assignment',
+          name: 'Gap Practice',
           description: 'Generated from learning gaps',
-          metadata: JSON.stringify({ gapIds }),
+          metadata: JSON.stringify({
+            gapIds,
+            bank: { reused: picked.length - generated, generated, unseenDays },
+          }),
           studentId,
           assignmentQuestions: {
-            create: [
-              { order: 1, questionId: q1.id },
-              { order: 2, questionId: q2.id },
-            ],
+            create: picked.map((question, index) => ({ order: index + 1, questionId: question.id })),
           },
         },
         include: {
@@ -62,7 +131,8 @@ export class AssignmentService {
             orderBy: { order: 'asc' },
           },
         },
-      })
+      });
+      await recordQuestionUse(picked.map(question => question.id));
 
       return assignment;
     } catch (error) {
@@ -71,6 +141,180 @@ export class AssignmentService {
     }
   }
 
+  /**
+   * Build an assignment for the student's weakest gaps.
+   * Gaps are ranked by BKT mastery, failed sessions in the last
+   * RECENT_FAILURE_DAYS days, GapAnalyzer priority and due reviews;
+   * questions are spread across the chosen gaps, mixing question types and
+   * staying near each gap's target difficulty until the question count or
+   * time budget is reached. Like
+   * createAssignmentFromGaps, questions the student has seen in `unseenDays`
+   * days are skipped.
+   * Returns null when none of the student's gaps has an unseen question.
+   */
+  async createAdaptiveAssignment(studentId: string, options: AutoAssignmentOptions = {}) {
+    const { questionCount = 10, timeBudgetMinutes = 30, maxGaps = 5, unseenDays = DEFAULT_UNSEEN_DAYS } = options;
+    const failuresSince = new Date(Date.now() - RECENT_FAILURE_DAYS * DAY_MS);
+
+    const gaps = await prisma.gap.findMany({
+      where: { studentId, questions: { some: {} } },
+      include: {
+        questions: true,
+        tracingParameters: true,
+        knowledgeStates: { where: { studentId } },
+        reviewSchedules: { where: { studentId } },
+        _count: { select: { sessions: { where: { score: { lt: 60 }, startTime: { gte: failuresSince } } } } },
+      },
+    });
+
+    if (gaps.length === 0) {
+      return null;
+    }
+
+    const selections = this.rankGaps(gaps, await this.loadGapPriorities(gaps)).slice(0, maxGaps);
+    const gapsById = new Map(gaps.map(gap => [gap.id, gap]));
+    const exclude = await loadSeenQuestionIds(studentId, unseenDays);
+
+    const { picked, minutesUsed } = pickAdaptiveQuestions(
+      selections.map(selection => ({
+        ...selection,
+        questions: gapsById.get(selection.gapId)!.questions.filter(question => !exclude.has(question.id)),
+      })),
+      { questionCount, timeBudgetMinutes }
+    );
+
+    if (picked.length === 0) {
+      return null;
+    }
+
+    // Easier questions first as a warm-up.
+    const ordered = [...picked].sort((a, b) => a.question.difficulty - b.question.difficulty);
+    const usedGapIds = selections
+      .map(selection => selection.gapId)
+      .filter(gapId => picked.some(p => p.question.gapId === gapId));
+
+    const assignment = await prisma.assignment.create({
+      data: {
+        name: 'Adaptive Practice',
+        description: `Targets ${usedGapIds.length} weakest gap${usedGapIds.length === 1 ? '' : 's'}`,
+        metadata: JSON.stringify({
+          mode: 'auto',
+          gapIds: usedGapIds,
+          questionCount,
+          timeBudgetMinutes,
+          unseenDays,
+          estimatedMinutes: minutesUsed,
+          selection: selections.filter(selection => usedGapIds.includes(selection.gapId)),
+        }),
+        studentId,
+        assignmentQuestions: {
+          create: ordered.map(({ question }, index) => ({ order: index + 1, questionId: question.id })),
+        },
+      },
+      include: {
+        assignmentQuestions: {
+          include: { question: true },
+          orderBy: { order: 'asc' },
+        },
+      },
+    });
+    await recordQuestionUse(ordered.map(({ question }) => question.id));
+
+    return {
+      assignment,
+      estimatedMinutes: minutesUsed,
+      selection: selections.filter(selection => usedGapIds.includes(selection.gapId)),
+    };
+  }
+
+  /**
+   * Weakness score (0-1) per gap, highest first
+   */
+  private rankGaps(
+    gaps: Array<Prisma.GapGetPayload<{
+      include: {
+        tracingParameters: true;
+        knowledgeStates: true;
+        reviewSchedules: true;
+        _count: { select: { sessions: true } };
+      }
+    }>>,
+    priorities: Map<string, GapPriority>
+  ): GapSelection[] {
+    const now = Date.now();
+
+    return gaps
+      .map(gap => {
+        const mastery = gap.knowledgeStates[0]?.pKnown
+          ?? gap.tracingParameters?.pInit
+          ?? DEFAULT_BKT_PARAMETERS.pInit;
+        const recentFailures = gap._count.sessions;
+        const priority = priorities.get(gap.id) ?? null;
+        const review = gap.reviewSchedules[0];
+        const dueForReview = review ? review.dueAt.getTime() <= now : false;
+
+        const weakness =
+          (1 - mastery) * 0.5 +
+          (Math.min(recentFailures, 5) / 5) * 0.2 +
+          (priority ? PRIORITY_WEIGHTS[priority] : 0.5) * 0.2 +
+          (dueForReview ? 0.1 : 0);
+
+        return {
+          gapId: gap.id,
+          category: gap.category,
+          level: gap.level,
+          mastery,
+          recentFailures,
+          priority,
+          dueForReview,
+          weakness,
+        };
+      })
+      .sort((a, b) => b.weakness - a.weakness);
+  }
+
+  /**
+   * GapAnalyzer priority for each gap over the student's own gap graph
+   */
+  private async loadGapPriorities(
+    gaps: Array<{ id: string; level: number; category: string; description: string; knowledgeStates: KnowledgeState[] }>
+  ): Promise<Map<string, GapPriority>> {
+    const ids = gaps.map(gap => gap.id);
+    const edges = await prisma.prerequisite.findMany({
+      where: { vocabularyId: { in: ids }, prerequisiteVocabularyId: { in: ids } },
+    });
+
+    const nodes: LearningNode[] = gaps.map(gap => ({
+      id: gap.id,
+      type: 'vocabulary',
+      description: gap.description,
+      difficulty: gap.level,
+      prerequisites: edges.map(edgeEndpoints)
+        .filter(edge => edge.nodeId === gap.id)
+        .map(edge => edge.prerequisiteId),
+      dependencies: [],
+      layer: layerForDifficulty(gap.level),
+      category: gap.category,
+    }));
+    const progress = new Map(
+      gaps.flatMap(gap => gap.knowledgeStates.map(state => [gap.id, state.pKnown] as [string, number]))
+    );
+
+    const analyzer = new GapAnalyzer(nodes, progress);
+    const priorities = new Map<string, GapPriority>();
+
+    for (const id of ids) {
+      try {
+        const [detail] = analyzer.analyzeMultipleGaps([id]);
+        if (detail) priorities.set(id, detail.priority);
+      } catch {
+        // No usable starting node for this student; rank on mastery alone.
+      }
+    }
+
+    return priorities;
+  }
+
   /**
    * Start a learning session for an assignment
    */
@@ -138,16 +382,17 @@ export class AssignmentService {
           throw new Error(`Question ${questionId} not found in assignment`);
         }
 
-        const isCorrect = answer.toLowerCase().trim() === (question.question.answer?.toLowerCase().trim());
+        const grade = gradeAnswer(this.answerKey(question.question), answer);
 
         return prisma.sessionQuestion.create({
           data: {
             sessionId,
             questionId,
             answer,
-            isCorrect,
+            isCorrect: grade.isCorrect,
+            score: grade.score,
             timeTaken,
-            feedback: this.generateFeedback(question.question, isCorrect)
+            feedback: JSON.stringify(this.generateFeedback(question.question, grade))
           }
         });
       })
@@ -155,7 +400,8 @@ export class AssignmentService {
 
     const correctCount = sessionQuestions.filter(sq => sq.isCorrect).length;
     const totalCount = sessionQuestions.length;
-    const score = Math.round((correctCount / totalCount) * 100);
+    const credit = sessionQuestions.reduce((sum, sq) => sum + (sq.score ?? 0), 0);
+    const score = Math.round((credit / totalCount) * 100);
 
     const updatedSession = await prisma.learningSession.update({
       where: { id: sessionId },
@@ -166,11 +412,36 @@ export class AssignmentService {
       }
     });
 
-    await this.updateKnowledgeGraph(session, sessionQuestions, assignmentQuestions);
+    // Knowledge tracing: one BKT update per answered question, in order.
+    const gapByQuestion = new Map(assignmentQuestions.map(aq => [aq.questionId, aq.question.gapId]));
+    const answers = sessionQuestions.flatMap(sq => {
+      const gapId = gapByQuestion.get(sq.questionId);
+      return gapId ? [{ gapId, isCorrect: sq.isCorrect === true, answeredAt: sq.createdAt }] : [];
+    });
+    const previousStates = await prisma.knowledgeState.findMany({
+      where: { studentId: session.studentId, gapId: { in: answers.map(answer => answer.gapId) } },
+    });
+    const knowledgeStates = await recordAnswers(session.studentId, answers);
+
+    // Spaced repetition: the session counts as one review of each gap it covered.
+    const outcomes = new Map<string, { gapId: string; correct: number; total: number }>();
+    for (const answer of answers) {
+      const outcome = outcomes.get(answer.gapId) || { gapId: answer.gapId, correct: 0, total: 0 };
+      outcome.total++;
+      if (answer.isCorrect) outcome.correct++;
+      outcomes.set(answer.gapId, outcome);
+    }
+    const reviews = await scheduleReviews(session.studentId, [...outcomes.values()]);
+
+    await this.updateKnowledgeGraph(session, sessionQuestions, knowledgeStates);
+
+    const events = this.masteryEvents(session.studentId, sessionId, previousStates, knowledgeStates);
+    events.forEach(event => gapEventBus.publish(event));
 
     return {
       session: updatedSession,
       sessionQuestions,
+      reviews,
       performance: {
         total: totalCount,
         correct: correctCount,
@@ -180,76 +451,80 @@ export class AssignmentService {
     };
   }
 
+  /**
+   * Gap events for gaps whose mastery crossed the mastery threshold in this session.
+   * A gap seen for the first time counts as created when it is still below the threshold.
+   */
+  private masteryEvents(
+    studentId: string,
+    sessionId: string,
+    previousStates: KnowledgeState[],
+    knowledgeStates: Map<string, KnowledgeState>
+  ): GapEvent[] {
+    const threshold = HEURISTIC_WEIGHTS.MASTERY_THRESHOLD;
+    const previousByGap = new Map(previousStates.map(state => [state.gapId, state.pKnown]));
+    const events: GapEvent[] = [];
+
+    knowledgeStates.forEach((state, gapId) => {
+      const previous = previousByGap.get(gapId);
+      const wasOpen = previous === undefined ? null : previous < threshold;
+      const isOpen = state.pKnown < threshold;
+      const details = { sessionId, mastery: state.pKnown, previousMastery: previous ?? null, attempts: state.attempts };
+
+      if (isOpen && wasOpen !== true) {
+        events.push(createGapEvent('gap_created', gapId, details, studentId));
+      } else if (!isOpen && wasOpen !== false) {
+        events.push(createGapEvent('gap_closed', gapId, details, studentId));
+      }
+    });
+
+    return events;
+  }
+
   /**
    * Update Neo4j Knowledge Graph with session results
    */
   private async updateKnowledgeGraph(
     session: LearningSession & { student?: { name: string } | null; gap?: { description: string } | null },
     sessionQuestions: SessionQuestion[],
-    assignmentQuestions: AssignmentQuestion[]
+    knowledgeStates: Map<string, KnowledgeState>
   ) {
     try {
       const studentId = session.studentId;
-      const gapId = session.gapId;
-      const isCorrect = sessionQuestions.some((sq) => sq.isCorrect);
-      const masteryChange = isCorrect ? 0.1 : -0.15;
 
-      if (!gapId) {
-        console.log('[Neo4j Sync] No gap associated with session, skipping graph update');
+      if (knowledgeStates.size === 0) {
+        console.log('[Neo4j Sync] No answered concepts in session, skipping graph update');
         return;
       }
 
-      const checkQuery = `
-        MATCH (s:Student {id: $studentId})
-        MATCH (c:Concept {id: $gapId})
-        RETURN s, c
+      // KNOWS.mastery mirrors the BKT posterior P(known) for each concept.
+      const updateQuery = `
+        MERGE (s:Student {id: $studentId})
+        SET s.name = $studentName
+        MERGE (c:Concept {id: $gapId})
+        SET c.name = COALESCE(c.name, $conceptName)
+        MERGE (s)-[r:KNOWS]->(c)
+        SET r.mastery = $mastery
+        SET r.lastUpdated = datetime()
+        RETURN r.mastery as newMastery
       `;
 
-      const existing = await neo4j.read(checkQuery, { studentId, gapId } as unknown as Neo4jParams);
-
-      if (existing.records.length === 0) {
-        const createQuery = `
-          MERGE (s:Student {id: $studentId})
-          SET s.name = $studentName
-          MERGE (c:Concept {id: $gapId})
-          SET c.name = $conceptName
-          MERGE (s)-[r:KNOWS]->(c)
-          SET r.mastery = COALESCE(r.mastery, 0.3) + $masteryChange
-          RETURN s, c, r
-        `;
-
-        await neo4j.write(createQuery, {
+      for (const [gapId, state] of knowledgeStates) {
+        await neo4j.write(updateQuery, {
           studentId,
           studentName: session.student?.name || 'Unknown',
           gapId,
-          conceptName: session.gap?.description || 'Unknown Concept',
-          masteryChange
+          conceptName: (gapId === session.gapId && session.gap?.description) || 'Unknown Concept',
+          mastery: state.pKnown
         } as unknown as Neo4jParams);
+      }
 
-        console.log(`[Neo4j Sync] Created student-concept relationship with mastery update`);
-      } else {
-        const updateQuery = `
-          MATCH (s:Student {id: $studentId})-[r:KNOWS]->(c:Concept {id: $gapId})
-          SET r.mastery = CASE 
-            WHEN $isCorrect THEN MIN(r.mastery + 0.1, 1.0)
-            ELSE MAX(r.mastery - 0.15, 0.0)
-          END
-          SET r.lastUpdated = datetime()
-          RETURN r.mastery as newMastery
-        `;
-
-        const result = await neo4j.write(updateQuery, {
-          studentId,
-          gapId,
-          isCorrect
-        } as unknown as Neo4jParams);
+      console.log(`[Neo4j Sync] Updated mastery for ${knowledgeStates.size} concept(s)`);
 
-        const newMastery = result.records[0]?.get('newMastery');
-        console.log(`[Neo4j Sync] Updated mastery to ${newMastery}`);
+      if (session.gapId) {
+        await this.recordLearningEvent(session, sessionQuestions);
       }
 
-      await this.recordLearningEvent(session, sessionQuestions);
-
     } catch (graphError) {
       console.error('[Neo4j Sync] Failed to update knowledge graph:', graphError);
     }
@@ -317,15 +592,47 @@ export class AssignmentService {
     }
   }
 
+  /**
+   * Answer key for the grader registry. Accepted variants, the base form for
+   * word formation and essay rubrics come from the question metadata.
+   */
+  private answerKey(question: Question): AnswerKey {
+    let metadata: Record<string, unknown> = {};
+    try {
+      metadata = question.metadata ? JSON.parse(question.metadata) : {};
+    } catch {
+      // Keep grading with the bare answer
+    }
+    let options: unknown = null;
+    try {
+      options = question.options ? JSON.parse(question.options) : null;
+    } catch {
+      // Not a JSON list
+    }
+
+    const acceptedAnswers = metadata['acceptedAnswers'];
+    return {
+      type: question.type,
+      answer: question.answer,
+      options: Array.isArray(options) ? options.map(String) : null,
+      ...(Array.isArray(acceptedAnswers) && { acceptedAnswers: acceptedAnswers.map(String) }),
+      ...(typeof metadata['baseForm'] === 'string' && { baseForm: metadata['baseForm'] }),
+      ...(Array.isArray(metadata['rubric']) && { rubric: metadata['rubric'] as AnswerKey['rubric'] }),
+    };
+  }
+
   /**
    * Generate personalized feedback for a question
    */
-  private generateFeedback(question: Question, isCorrect: boolean): string {
-    if (isCorrect) {
-      return 'Excellent! You answered this correctly.';
+  private generateFeedback(question: Question, grade: GradeResult) {
+    if (grade.isCorrect) {
+      return grade.feedback;
     }
 
-    return `The correct answer is: ${question.answer}. ${question.explanation || 'Please review this topic.'}`;
+    return {
+      ...grade.feedback,
+      message: `${grade.feedback.message} ${question.explanation || 'Please review this topic.'}`,
+    };
   }
 
   /**
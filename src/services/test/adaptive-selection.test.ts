@@ -0,0 +1,69 @@
+/**
+ * Adaptive assignment question selection tests
+ */
+
+import type { Question } from '@prisma/client';
+import { AdaptiveGap, allocateQuotas, pickAdaptiveQuestions } from '../adaptive-selection';
+
+const question = (id: string, gapId: string, difficulty = 5, type = 'multiple_choice'): Question => ({
+  id,
+  type,
+  content: id,
+  options: null,
+  answer: 'a',
+  explanation: null,
+  difficulty,
+  metadata: null,
+  createdAt: new Date(0),
+  signature: null,
+  usageCount: 0,
+  lastUsedAt: null,
+  gapId,
+});
+
+const gap = (gapId: string, weakness: number, questionCount: number): AdaptiveGap => ({
+  gapId,
+  level: 5,
+  mastery: 0.5,
+  weakness,
+  questions: Array.from({ length: questionCount }, (_, i) => question(`${gapId}-${i}`, gapId)),
+});
+
+describe('allocateQuotas', () => {
+  test('should add up to the question count', () => {
+    // Rounded shares would be 3 + 3 + 3 = 9
+    expect(allocateQuotas([1, 1, 1], 10)).toEqual([4, 3, 3]);
+    expect(allocateQuotas([0.9, 0.05, 0.05], 3)).toEqual([1, 1, 1]);
+    expect(allocateQuotas([0.6, 0.3, 0.1], 10)).toEqual([6, 3, 1]);
+  });
+
+  test('should skip the lowest priority gaps when there are more gaps than questions', () => {
+    expect(allocateQuotas([0.5, 0.3, 0.2], 2)).toEqual([1, 1, 0]);
+  });
+});
+
+describe('pickAdaptiveQuestions', () => {
+  test('should fill the requested count when quotas round down', () => {
+    const gaps = [gap('a', 1, 10), gap('b', 1, 10), gap('c', 1, 10)];
+    const { picked } = pickAdaptiveQuestions(gaps, { questionCount: 10, timeBudgetMinutes: 60 });
+
+    expect(picked).toHaveLength(10);
+    expect(new Set(picked.map(p => p.question.id)).size).toBe(10);
+  });
+
+  test('should give leftover slots to other gaps when one runs out of questions', () => {
+    const gaps = [gap('a', 0.9, 1), gap('b', 0.1, 10)];
+    const { picked } = pickAdaptiveQuestions(gaps, { questionCount: 5, timeBudgetMinutes: 60 });
+
+    expect(picked).toHaveLength(5);
+    expect(picked.filter(p => p.question.gapId === 'b')).toHaveLength(4);
+  });
+
+  test('should stop at the time budget', () => {
+    const gaps = [gap('a', 1, 10)];
+    const { picked, minutesUsed } = pickAdaptiveQuestions(gaps, { questionCount: 10, timeBudgetMinutes: 4 });
+
+    expect(picked).toHaveLength(4);
+    expect(minutesUsed).toBe(4);
+  });
+});
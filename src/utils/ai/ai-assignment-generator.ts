@@ -1,27 +1,59 @@
-// Simplified AI service for now
+import { prisma } from '../../../lib/prisma';
+import { vocabularyNode } from '../../../lib/ontology/graph';
+import { generateAssignment } from '../../../edu-ontology/backend/src/ai/claude';
+import { Assignment, AssignmentType, GapData, GenerationContext } from '../../../edu-ontology/backend/src/ai/types';
+import { LLMProvider } from '../../../edu-ontology/backend/src/ai/providers';
+
+// Gap level (1-10) to the CEFR level the generator prompts for
+const CEFR_BY_LEVEL = ['A1', 'A1', 'A2', 'A2', 'B1', 'B1', 'B2', 'C1', 'C1', 'C2'];
+
+// Assignment types used for a multi-question assignment, in order
+const DEFAULT_TYPES = [
+  AssignmentType.CONTEXT_GUESS,
+  AssignmentType.SEMANTIC_UNIT,
+  AssignmentType.GAP_BRIDGE,
+];
+
+const DIFFICULTY_SCORES = { easy: 3, medium: 5, hard: 8 } as const;
+
+const MAX_PASSAGES = 5;
+
+// Question.type for a generated item: the grader for its assignment type,
+// otherwise multiple choice or short answer depending on the options
+function questionType(assignment: Assignment): string {
+  if (assignment.type === AssignmentType.WORD_FORMATION) return 'word_formation';
+  return assignment.content.options ? 'multiple_choice' : 'short_answer';
+}
+
+interface GenerationInput {
+  level: string;
+  gapData: GapData;
+  context: GenerationContext;
+  difficulty: number;
+}
+
 export class AIService {
   /**
-   * Generate assignment based on student's gap data (placeholder)
+   * @param provider - Overrides the provider chosen from the environment
+   *   (`LLM_PROVIDER`, falling back to `offline` without `ANTHROPIC_API_KEY`)
+   */
+  constructor(private provider?: LLMProvider) {}
+
+  /**
+   * Generate an assignment from the vocabulary, grammar and passages behind the given gaps
    */
-  async generateAssignment(gapIds: string[]) {
-    console.log('Generating assignment for gaps:', gapIds);
+  async generateAssignment(gapIds: string[], types: AssignmentType[] = DEFAULT_TYPES) {
+    const input = await this.loadGenerationInput(gapIds);
+    const questions = [];
+    for (const type of types) {
+      questions.push(this.toQuestion(await this.generate(type, input), input.difficulty));
+    }
 
-    // This would normally integrate with Claude API
     return {
       name: 'AI-Generated Assignment',
       description: 'Created based on your learning gaps',
-      questions: [
-        {
-          type: 'multiple_choice' as const,
-          content: 'What is the main idea of this passage?',
-          options: ['A', 'B', 'C', 'D'],
-          answer: 'A',
-          explanation: 'This is the correct answer because...',
-          difficulty: 5,
-          metadata: {}
-        }
-      ],
-      metadata: { gapIds }
+      questions,
+      metadata: { gapIds, level: input.level, provider: questions[0]?.metadata.provider ?? null },
     };
   }
 
@@ -29,18 +61,12 @@ export class AIService {
    * Generate single question based on specific gap
    */
   async generateQuestion(gapId: string, questionType: string) {
-    console.log('Generating question for gap:', gapId, 'type:', questionType);
+    const input = await this.loadGenerationInput([gapId]);
+    const type = Object.values(AssignmentType).includes(questionType as AssignmentType)
+      ? (questionType as AssignmentType)
+      : AssignmentType.CONTEXT_GUESS;
 
-    // Placeholder implementation
-    return {
-      type: questionType,
-      content: 'Sample question for gap analysis',
-      options: null,
-      answer: 'Correct answer',
-      explanation: 'Explanation of the answer',
-      difficulty: 5,
-      metadata: {}
-    };
+    return this.toQuestion(await this.generate(type, input), input.difficulty);
   }
 
   /**
@@ -57,6 +83,100 @@ export class AIService {
       recommendations: ['Practice more vocabulary', 'Review grammar rules']
     };
   }
+
+  private generate(type: AssignmentType, input: GenerationInput): Promise<Assignment> {
+    return generateAssignment({
+      studentLevel: input.level,
+      gapData: input.gapData,
+      type,
+      context: input.context,
+      ...(this.provider && { provider: this.provider }),
+    });
+  }
+
+  /**
+   * `type` is the grader registry key, so word formation items get the
+   * word-form grader; accepted variants and the base form go into metadata
+   * for the answer key.
+   */
+  private toQuestion(assignment: Assignment, difficulty: number) {
+    const { content } = assignment;
+    return {
+      type: questionType(assignment),
+      content: content.question,
+      options: content.options ?? null,
+      answer: Array.isArray(content.answer) ? content.answer.join(', ') : content.answer,
+      explanation: content.explanation,
+      difficulty: difficulty || DIFFICULTY_SCORES[assignment.difficulty],
+      metadata: {
+        assignmentType: assignment.type,
+        hint: content.hint ?? null,
+        example: content.example ?? null,
+        acceptedAnswers: content.acceptedAnswers ?? null,
+        baseForm: content.baseForm ?? null,
+        provider: assignment.metadata?.provider ?? null,
+        model: assignment.metadata?.model ?? null,
+      },
+    };
+  }
+
+  /**
+   * Vocabulary terms (with their descriptions as definitions), grammar topics
+   * and the passages the vocabulary appears in
+   */
+  private async loadGenerationInput(gapIds: string[]): Promise<GenerationInput> {
+    const gaps = await prisma.gap.findMany({
+      where: { id: { in: gapIds } },
+      include: {
+        appearances: {
+          include: { passage: { select: { title: true, content: true } } },
+          orderBy: { frequency: 'desc' },
+        },
+      },
+    });
+    if (gaps.length === 0) {
+      throw new Error(`No gaps found for ids: ${gapIds.join(', ')}`);
+    }
+
+    const vocabulary: string[] = [];
+    const grammar: string[] = [];
+    const definitions: Record<string, string> = {};
+    const passages = new Map<string, { title: string; content: string }>();
+
+    // Keep the caller's order so the first gap is the one targeted
+    const ordered = gapIds
+      .map(id => gaps.find(gap => gap.id === id))
+      .filter((gap): gap is (typeof gaps)[number] => gap !== undefined);
+    for (const gap of ordered) {
+      if (gap.category === 'grammar') {
+        grammar.push(gap.description);
+        continue;
+      }
+      const term = vocabularyNode(gap).term!;
+      vocabulary.push(term);
+      if (gap.description && gap.description !== term) definitions[term] = gap.description;
+      for (const { passageId, passage } of gap.appearances) {
+        if (passages.size < MAX_PASSAGES) passages.set(passageId, passage);
+      }
+    }
+
+    const averageLevel = gaps.reduce((sum, gap) => sum + gap.level, 0) / gaps.length;
+    const level = CEFR_BY_LEVEL[Math.min(9, Math.max(0, Math.round(averageLevel) - 1))] ?? 'B1';
+
+    return {
+      level,
+      gapData: {
+        vocabulary,
+        grammar,
+        totalWords: vocabulary.length,
+        mastered: 0,
+        weakAreas: [...new Set(gaps.map(gap => gap.category))],
+        strengths: [],
+      },
+      context: { definitions, passages: [...passages.values()] },
+      difficulty: Math.round(averageLevel),
+    };
+  }
 }
 
-export const aiService = new AIService();
\ No newline at end of file
+export const aiService = new AIService();
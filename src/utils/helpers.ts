@@ -1,9 +1,3 @@
-export function calculateMasteryLevel(level: number, recentFailures: number): number {
-  const baseMastery = Math.max(0.1, 1 - (level / 15));
-  const penalty = Math.min(0.3, recentFailures * 0.1);
-  return Math.min(0.95, Math.max(0.1, baseMastery - penalty));
-}
-
 export function getWeekStart(date: Date): string {
   const d = new Date(date);
   const day = d.getDay();
@@ -32,6 +32,24 @@ export interface Theme {
   keywords: string[]
   createdAt: string
   updatedAt: string
+  relationships?: {
+    prerequisitesCount: number
+    requiredByCount: number
+  }
+}
+
+// Prerequisite edge (prerequisite → node)
+export interface Prerequisite {
+  id: string
+  nodeId: string
+  nodeType: 'Vocabulary' | 'Theme'
+  prerequisiteId: string
+  prerequisiteType: 'Vocabulary' | 'Theme'
+  relationshipType: 'PRECEDES' | 'REQUIRES' | 'ENHANCES'
+  confidence: number
+  mandatory: boolean
+  validatedAt: string | null
+  createdAt: string
 }
 
 // Passage Types
@@ -45,6 +63,8 @@ export interface Passage {
   topics: string[]
   publishedAt: string
   source: string
+  createdAt: string
+  updatedAt: string
 }
 
 // Learning Path Types
@@ -52,16 +72,20 @@ export interface LearningPathResponse {
   id: string
   startNode: LearningNode
   endNode: LearningNode
+  found: boolean // false when no path connects the nodes (steps is empty)
   steps: LearningPathStep[]
   totalDifficulty: number
   estimatedTime: number
+  confidence: number
+  alternativePaths: LearningNode[][]
 }
 
 export interface LearningNode {
   id: string
-  type: 'Vocabulary' | 'Theme'
+  type: 'Vocabulary' | 'Theme' | 'Passage'
   term?: string
   name?: string
+  difficultyLevel?: number
 }
 
 export interface LearningPathStep {
@@ -74,9 +98,33 @@ export interface LearningPathStep {
 // Gap Analysis Types
 export interface GapAnalysisResponse {
   currentNode: LearningNode
+  targetNode: LearningNode
   missingPrerequisites: LearningNode[]
   recommendedPath: LearningNode[]
   gapScore: number
+  gapLevel: 'low' | 'medium' | 'high'
+  estimatedTime: number
+  confidence: number
+  recommendations: Array<{
+    type: 'prerequisite' | 'parallel' | 'review' | 'advanced'
+    nodeId: string
+    node: LearningNode
+    reason: string
+    priority: 'high' | 'medium' | 'low'
+    estimatedTime: number
+    impact: number
+  }>
+}
+
+export interface GapMetricsResponse {
+  totalGapScore: number
+  averageGapScore: number
+  gapDistribution: Record<'low' | 'medium' | 'high', number>
+  mostCommonGaps: Array<{
+    nodeId: string
+    gapScore: number
+    gapCount: number
+  }>
 }
 
 // API Response Types